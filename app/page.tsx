@@ -1,19 +1,169 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { v4 as uuidv4 } from "uuid";
 import PhotoUploader from "@/components/PhotoUploader";
 import FacePreview from "@/components/FacePreview";
 import ResultGallery from "@/components/ResultGallery";
 import ImageModal from "@/components/ImageModal";
 import LiveFaceTracker from "@/components/LiveFaceTracker";
-import { MarathonPhoto, MatchResult } from "@/lib/types";
+import PersonList from "@/components/PersonList";
+import FaceClusters from "@/components/FaceClusters";
+import ThresholdControl from "@/components/ThresholdControl";
+import ProjectPanel from "@/components/ProjectPanel";
+import BundlePanel from "@/components/BundlePanel";
+import DetectorControl from "@/components/DetectorControl";
+import ModelStatus from "@/components/ModelStatus";
+import OfflineStatus from "@/components/OfflineStatus";
+import FaceRegionEditor from "@/components/FaceRegionEditor";
+import {
+  BoundingBox,
+  DetectedFace,
+  DetectionConfig,
+  DetectorOptions,
+  FaceCluster,
+  GalleryMatchResult,
+  LabeledReferences,
+  MarathonPhoto,
+  MatchResult,
+  MatchRun,
+  MatchStrategy,
+  PersonProfile,
+  Project,
+  ReferencePhoto,
+} from "@/lib/types";
 import {
   loadModels,
   detectFacesInImage,
-  extractReferenceFace,
-  findMatchingPhotos,
+  detectReferenceFaces,
+  getDetectionFingerprint,
+  getRequiredModels,
+  matchFacesToPeople,
+  collectNearestDistances,
+  cropFaceFromImage,
+  extractFaceInRegion,
 } from "@/lib/faceRecognition";
+import {
+  clusterFaces,
+  getFaceByRef,
+  mergeClusters,
+  renameCluster,
+  splitFaceFromCluster,
+} from "@/lib/clustering";
+import {
+  clearMatchRuns,
+  createProject,
+  deleteProject,
+  getCachedDetection,
+  getStorageEstimate,
+  listProjects,
+  LoadedProject,
+  loadProject,
+  purgeAll,
+  renameProject,
+  saveCachedDetection,
+  saveMatchRun,
+  savePhotos,
+  saveProfiles,
+} from "@/lib/storage";
+import { computeFileHash, isFileHashSupported } from "@/lib/fileHash";
+import { DEFAULT_DETECTOR, isSameDetector, loadDetector } from "@/lib/detectors";
+import { DEFAULT_TILING } from "@/lib/tiling";
+import { isUsableFace } from "@/lib/faceQuality";
+import {
+  confirmFace,
+  getConfirmedReferences,
+  getMissedManualFaces,
+  getReferenceSourceFace,
+  reanchorCorrections,
+  recordCorrectionBoxes,
+  rejectFace,
+  undoCorrection,
+} from "@/lib/corrections";
+import {
+  FEATURE_MODELS,
+  getModelStates,
+  loadFeatureModels,
+  loadModelsByName,
+  ModelName,
+  subscribeModelStates,
+} from "@/lib/modelRegistry";
+import {
+  BundleImportError,
+  exportJsonBundle,
+  exportZipBundle,
+  importBundle,
+} from "@/lib/bundle";
+import {
+  createDetectionWorkerPool,
+  DetectionWorkerPool,
+  getDefaultWorkerCount,
+  isWorkerDetectionSupported,
+} from "@/lib/detectionWorkerPool";
+import {
+  getOfflineStatus,
+  OfflineStatus as OfflineStatusValue,
+  registerServiceWorker,
+} from "@/lib/offline";
+
+// 마지막으로 연 프로젝트 id (새로고침 시 이어서 열기)
+const LAST_PROJECT_KEY = "detectvision:lastProjectId";
+
+// 분석을 중지했을 때 안내 문구
+const ANALYSIS_CANCELLED_MESSAGE =
+  "분석을 중지했습니다. 다시 실행하면 남은 사진부터 이어서 분석합니다.";
+
+// 인물 프로필들을 매칭용 기준 descriptor 묶음으로 변환
+// (descriptor를 추출한 기준 사진만 사용, "아니에요"로 확인한 얼굴은 negative로)
+const toLabeledReferences = (targets: PersonProfile[]): LabeledReferences[] =>
+  targets.map((person) => ({
+    personId: person.id,
+    references: person.references
+      .filter((reference) => reference.descriptor)
+      .map((reference) => ({
+        id: reference.id,
+        descriptor: reference.descriptor!,
+      })),
+    negatives: (person.rejectedFaces ?? []).map(
+      (rejected) => rejected.descriptor
+    ),
+  }));
+
+// 기준 사진이 없는 새 인물 프로필 생성
+const createPersonProfile = (name: string): PersonProfile => ({
+  id: uuidv4(),
+  name,
+  references: [],
+});
+
+// 분석에서 추출한 기준 사진 얼굴을 최신 인물 프로필에 기준 사진 id로 합침
+// (분석 중에 추가된 기준 사진과 먼저 끝난 기준 사진 확인 결과는 그대로 유지)
+const mergeExtractedReferences = (
+  latest: PersonProfile[],
+  extracted: PersonProfile[]
+): PersonProfile[] => {
+  const extractedById = new Map(
+    extracted
+      .flatMap((person) => person.references)
+      .map((reference) => [reference.id, reference])
+  );
+
+  return latest.map((person) => ({
+    ...person,
+    references: person.references.map((reference) => {
+      const result = extractedById.get(reference.id);
+      if (!result || reference.descriptor || reference.faces) {
+        return reference;
+      }
+      return {
+        ...reference,
+        faces: result.faces,
+        selectedFaceIndex: result.selectedFaceIndex,
+        descriptor: result.descriptor,
+      };
+    }),
+  }));
+};
 
 export default function Home() {
   // 탭 상태
@@ -21,109 +171,1103 @@ export default function Home() {
   
   // 상태 관리
   const [marathonPhotos, setMarathonPhotos] = useState<MarathonPhoto[]>([]);
-  const [referencePhoto, setReferencePhoto] = useState<{
-    imageUrl: string;
-    file: File;
-  } | null>(null);
-  const [myDescriptor, setMyDescriptor] = useState<Float32Array | null>(null);
-  const [matchResults, setMatchResults] = useState<MatchResult[]>([]);
+  const [people, setPeople] = useState<PersonProfile[]>(() => [
+    createPersonProfile("나"),
+  ]);
+  const [activePersonId, setActivePersonId] = useState(() => people[0].id);
+  const [matchStrategy, setMatchStrategy] = useState<MatchStrategy>("min");
+  const [threshold, setThreshold] = useState(0.6);
+  // 매칭에 사용할 최소 얼굴 품질 (0이면 모든 얼굴 사용)
+  const [minQuality, setMinQuality] = useState(0);
+  const [detector, setDetector] = useState<DetectorOptions>(DEFAULT_DETECTOR);
+  // 고해상도 분할 검출 (작은 얼굴용, 느림)
+  const [tiledDetection, setTiledDetection] = useState(false);
+  // 표정, 나이/성별 분석 (끄면 검출이 빨라짐)
+  const [withExpressions, setWithExpressions] = useState(true);
+  const [withAgeGender, setWithAgeGender] = useState(true);
+  // 기울어진 얼굴을 정렬한 뒤 descriptor 추출
+  const [alignFaces, setAlignFaces] = useState(false);
+  // 얼굴별 가장 가까운 사람과의 거리 (threshold 히스토그램용)
+  const [nearestDistances, setNearestDistances] = useState<number[]>([]);
+  const [matchResults, setMatchResults] = useState<GalleryMatchResult | null>(
+    null
+  );
+  const [clusters, setClusters] = useState<FaceCluster[]>([]);
 
-  const [isModelsLoaded, setIsModelsLoaded] = useState(false);
-  const [isLoadingModels, setIsLoadingModels] = useState(false);
+  // 모델별 로드 상태 (필요한 기능을 쓸 때 로드)
+  const [modelStates, setModelStates] = useState(getModelStates);
+  // 오프라인 사용 가능 여부 (service worker 캐시 상태)
+  const [offlineStatus, setOfflineStatus] =
+    useState<OfflineStatusValue | null>(null);
+  const [isOnline, setIsOnline] = useState(true);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysisProgress, setAnalysisProgress] = useState({
     current: 0,
     total: 0,
   });
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  // 진행 중인 분석 취소용
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  // 기준 사진 확인 차수 (얼굴 정렬 설정이 바뀌면 증가, 이전 설정으로 추출한 결과는 버림)
+  const referenceCheckRef = useRef(0);
+  // 검출 Worker 수 (null이면 CPU 코어 수에 맞춰 자동)
+  const [workerCount, setWorkerCount] = useState<number | null>(null);
+  const detectionPoolRef = useRef<DetectionWorkerPool | null>(null);
+  // Worker 초기화에 실패하면 이후로는 메인 스레드에서 검출
+  const workerFailedRef = useRef(false);
 
-  const [selectedImageUrl, setSelectedImageUrl] = useState<string | null>(null);
+  const [selectedResult, setSelectedResult] = useState<MatchResult | null>(
+    null
+  );
+  // 확대 화면에서 이전/다음으로 이동할 결과 목록 (결과를 누른 탭의 목록)
+  const [selectedResults, setSelectedResults] = useState<MatchResult[]>([]);
+  // 놓친 얼굴을 추가하고 있는 사진 id
+  const [faceEditPhotoId, setFaceEditPhotoId] = useState<string | null>(null);
 
-  // 페이지 로드 시 모델 로드
+  // 저장된 프로젝트 상태
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [currentProjectId, setCurrentProjectId] = useState<string | null>(
+    null
+  );
+  const [matchRuns, setMatchRuns] = useState<MatchRun[]>([]);
+  const [storageEstimate, setStorageEstimate] = useState<{
+    usage: number;
+    quota: number;
+  } | null>(null);
+  // 저장소에서 불러오기를 마치기 전에는 자동 저장하지 않음
+  const [isRestored, setIsRestored] = useState(false);
+  const [isBundleBusy, setIsBundleBusy] = useState(false);
+  // 개발 모드에서 effect가 두 번 실행되어 프로젝트가 중복 생성되지 않도록 방지
+  const restoreStartedRef = useRef(false);
+
+  // 모든 사진의 얼굴 검출을 마쳤는지 여부 (실패한 사진 포함)
+  const isDetected =
+    marathonPhotos.length > 0 &&
+    marathonPhotos.every(
+      (photo) => photo.status === "done" || photo.status === "failed"
+    );
+  const failedPhotoCount = marathonPhotos.filter(
+    (photo) => photo.status === "failed"
+  ).length;
+
+  // 최소 품질 미만이라 매칭에서 제외되는 얼굴 수
+  const lowQualityFaceCount = marathonPhotos.reduce(
+    (count, photo) =>
+      count +
+      photo.faces.filter((face) => !isUsableFace(face, minQuality)).length,
+    0
+  );
+
+  // 사진 매칭 / 실시간 추적에 필요한 모델이 모두 로드되었는지 여부
+  const isModelsLoaded = FEATURE_MODELS.matching.every(
+    (name) => modelStates[name].status === "loaded"
+  );
+  const isLiveModelsLoaded = FEATURE_MODELS.live.every(
+    (name) => modelStates[name].status === "loaded"
+  );
+
+  // 페이지 로드 시 사진 매칭에 필요한 모델만 로드 (나머지는 사용할 때 로드)
+  useEffect(() => {
+    const unsubscribe = subscribeModelStates(setModelStates);
+    loadModels().catch((error) => console.error("모델 로드 실패:", error));
+    return unsubscribe;
+  }, []);
+
+  // service worker 등록 후 캐시 상태 표시 (캐시가 바뀌거나 연결 상태가 바뀌면 다시 조회)
+  useEffect(() => {
+    const refreshOfflineStatus = () => {
+      setIsOnline(navigator.onLine);
+      getOfflineStatus()
+        .then(setOfflineStatus)
+        .catch((error) => console.error("오프라인 상태 조회 실패:", error));
+    };
+
+    const unregister = registerServiceWorker(refreshOfflineStatus);
+    refreshOfflineStatus();
+    window.addEventListener("online", refreshOfflineStatus);
+    window.addEventListener("offline", refreshOfflineStatus);
+
+    return () => {
+      unregister();
+      window.removeEventListener("online", refreshOfflineStatus);
+      window.removeEventListener("offline", refreshOfflineStatus);
+    };
+  }, []);
+
+  // 실시간 추적 탭을 처음 열 때 표정/나이/성별 모델 로드
+  useEffect(() => {
+    if (activeTab !== "live") return;
+    loadFeatureModels("live").catch((error) =>
+      console.error("실시간 추적 모델 로드 실패:", error)
+    );
+  }, [activeTab]);
+
+  // 페이지를 떠날 때 검출 Worker 정리
   useEffect(() => {
-    const initModels = async () => {
-      setIsLoadingModels(true);
+    return () => {
+      detectionPoolRef.current?.terminate();
+      detectionPoolRef.current = null;
+    };
+  }, []);
+
+  // 최초 1회만 실행하는 복원 effect에서 최신 openProject를 부르도록 ref에 보관
+  const openProjectRef = useRef<(projectId: string) => Promise<void>>(null);
+  useEffect(() => {
+    openProjectRef.current = openProject;
+  });
+
+  // 페이지 로드 시 마지막 프로젝트 이어서 열기 (없으면 새로 생성)
+  useEffect(() => {
+    if (restoreStartedRef.current) return;
+    restoreStartedRef.current = true;
+
+    const restore = async () => {
       try {
-        await loadModels();
-        setIsModelsLoaded(true);
+        const saved = await listProjects();
+        const lastId = localStorage.getItem(LAST_PROJECT_KEY);
+        const project =
+          saved.find((p) => p.id === lastId) ??
+          saved[0] ??
+          (await createProject(uuidv4(), "내 대회"));
+
+        await openProjectRef.current?.(project.id);
       } catch (error) {
-        console.error("모델 로드 실패:", error);
-        setErrorMessage(
-          "모델을 로드하는 데 실패했습니다. 페이지를 새로고침해 주세요."
-        );
-      } finally {
-        setIsLoadingModels(false);
+        console.error("저장된 프로젝트 불러오기 실패:", error);
+        setErrorMessage("저장된 프로젝트를 불러오지 못했습니다.");
       }
     };
 
-    initModels();
+    restore();
   }, []);
 
+  // 사진/검출 결과 자동 저장
+  useEffect(() => {
+    if (!isRestored || !currentProjectId) return;
+
+    const timer = setTimeout(() => {
+      savePhotos(currentProjectId, marathonPhotos)
+        .then(refreshStorageInfo)
+        .catch((error) => console.error("사진 저장 실패:", error));
+    }, 500);
+
+    return () => clearTimeout(timer);
+  }, [marathonPhotos, currentProjectId, isRestored]);
+
+  // 인물 프로필/매칭 설정 자동 저장
+  useEffect(() => {
+    if (!isRestored || !currentProjectId) return;
+
+    const timer = setTimeout(() => {
+      saveProfiles(currentProjectId, people, {
+        activePersonId,
+        matchStrategy,
+        threshold,
+        isDetected,
+        detector,
+        tiledDetection,
+        withExpressions,
+        withAgeGender,
+        minQuality,
+        alignFaces,
+      })
+        .then(refreshStorageInfo)
+        .catch((error) => console.error("인물 정보 저장 실패:", error));
+    }, 500);
+
+    return () => clearTimeout(timer);
+  }, [
+    people,
+    activePersonId,
+    matchStrategy,
+    threshold,
+    isDetected,
+    detector,
+    tiledDetection,
+    withExpressions,
+    withAgeGender,
+    minQuality,
+    alignFaces,
+    currentProjectId,
+    isRestored,
+  ]);
+
+  // 프로젝트 목록과 저장 공간 사용량 갱신
+  const refreshStorageInfo = async () => {
+    setProjects(await listProjects());
+    setStorageEstimate(await getStorageEstimate());
+  };
+
+  // 현재 화면의 Object URL 메모리 해제
+  const revokeCurrentUrls = () => {
+    marathonPhotos.forEach((photo) => URL.revokeObjectURL(photo.imageUrl));
+    people.forEach((person) =>
+      person.references.forEach((reference) =>
+        URL.revokeObjectURL(reference.imageUrl)
+      )
+    );
+  };
+
+  // 저장된 프로젝트 열기 (검출까지 마친 프로젝트는 매칭 결과도 복원)
+  // 불러오기에 실패하면 지금 화면을 그대로 두고 자동 저장을 다시 켠 뒤 오류 전달
+  const openProject = async (projectId: string) => {
+    setIsRestored(false);
+
+    let loaded: LoadedProject;
+    try {
+      loaded = await loadProject(projectId);
+    } catch (error) {
+      setIsRestored(true);
+      throw error;
+    }
+    revokeCurrentUrls();
+
+    const loadedPeople =
+      loaded.people.length > 0 ? loaded.people : [createPersonProfile("나")];
+    const settings = loaded.settings;
+    const strategy = settings?.matchStrategy ?? "min";
+    const savedThreshold = settings?.threshold ?? 0.6;
+    const savedMinQuality = settings?.minQuality ?? 0;
+    const detected = loaded.photos.some((photo) => photo.status === "done");
+
+    setCurrentProjectId(projectId);
+    localStorage.setItem(LAST_PROJECT_KEY, projectId);
+    setMarathonPhotos(loaded.photos);
+    setPeople(loadedPeople);
+    setActivePersonId(
+      loadedPeople.find((p) => p.id === settings?.activePersonId)?.id ??
+        loadedPeople[0].id
+    );
+    setMatchStrategy(strategy);
+    setThreshold(savedThreshold);
+    setMinQuality(savedMinQuality);
+    setDetector(settings?.detector ?? DEFAULT_DETECTOR);
+    setTiledDetection(settings?.tiledDetection ?? false);
+    setWithExpressions(settings?.withExpressions ?? true);
+    setWithAgeGender(settings?.withAgeGender ?? true);
+    setAlignFaces(settings?.alignFaces ?? false);
+    setMatchRuns(loaded.runs);
+    setClusters([]);
+    setMatchResults(null);
+    setNearestDistances([]);
+    setErrorMessage(null);
+
+    const hasDescriptors = loadedPeople.some((person) =>
+      person.references.some((reference) => reference.descriptor)
+    );
+    if (detected && hasDescriptors) {
+      runMatching(
+        loadedPeople,
+        loaded.photos,
+        savedThreshold,
+        strategy,
+        savedMinQuality
+      );
+    }
+
+    setIsRestored(true);
+    await refreshStorageInfo();
+  };
+
+  // 내보낼 현재 상태
+  const getBundleState = () => ({
+    photos: marathonPhotos,
+    people,
+    matchResults,
+    threshold,
+    matchStrategy,
+  });
+
+  // JSON 내보내기 핸들러
+  const handleExportJson = async () => {
+    setIsBundleBusy(true);
+    try {
+      await exportJsonBundle(getBundleState());
+    } catch (error) {
+      console.error("내보내기 실패:", error);
+      setErrorMessage("결과를 내보내지 못했습니다. 다시 시도해 주세요.");
+    } finally {
+      setIsBundleBusy(false);
+    }
+  };
+
+  // ZIP 내보내기 핸들러
+  const handleExportZip = async (includeAllOriginals: boolean) => {
+    setIsBundleBusy(true);
+    try {
+      await exportZipBundle(getBundleState(), includeAllOriginals);
+    } catch (error) {
+      console.error("내보내기 실패:", error);
+      setErrorMessage("결과를 내보내지 못했습니다. 다시 시도해 주세요.");
+    } finally {
+      setIsBundleBusy(false);
+    }
+  };
+
+  // 가져오기 핸들러 (새 프로젝트로 저장한 뒤 열기, 얼굴 검출은 다시 하지 않음)
+  const handleImport = async (files: File[]) => {
+    setIsBundleBusy(true);
+    setErrorMessage(null);
+
+    try {
+      const imported = await importBundle(files);
+      const project = await createProject(uuidv4(), "가져온 대회");
+      const importedPeople =
+        imported.people.length > 0
+          ? imported.people
+          : [createPersonProfile("나")];
+
+      await savePhotos(project.id, imported.photos);
+      await saveProfiles(project.id, importedPeople, {
+        activePersonId: importedPeople[0].id,
+        matchStrategy: imported.matchStrategy,
+        threshold: imported.threshold,
+        isDetected: true,
+      });
+
+      // 저장소에서 다시 불러오므로 가져오며 만든 Object URL은 해제
+      imported.photos.forEach((photo) => URL.revokeObjectURL(photo.imageUrl));
+      imported.people.forEach((person) =>
+        person.references.forEach((reference) =>
+          URL.revokeObjectURL(reference.imageUrl)
+        )
+      );
+
+      await openProject(project.id);
+
+      if (imported.missingPhotos.length > 0) {
+        setErrorMessage(
+          `원본 이미지를 찾지 못한 사진 ${imported.missingPhotos.length}장은 가져오지 못했습니다: ${imported.missingPhotos.join(", ")}`
+        );
+      }
+    } catch (error) {
+      console.error("가져오기 실패:", error);
+      setErrorMessage(
+        error instanceof BundleImportError
+          ? error.message
+          : "파일을 가져오지 못했습니다. 다시 시도해 주세요."
+      );
+    } finally {
+      setIsBundleBusy(false);
+    }
+  };
+
+  // 새 프로젝트 생성 핸들러
+  const handleProjectCreate = async () => {
+    try {
+      const project = await createProject(
+        uuidv4(),
+        `새 대회 ${projects.length + 1}`
+      );
+      await openProject(project.id);
+    } catch (error) {
+      console.error("프로젝트 생성 실패:", error);
+      setErrorMessage("새 대회를 만들지 못했습니다. 다시 시도해 주세요.");
+    }
+  };
+
+  // 프로젝트 이름 변경 핸들러
+  const handleProjectRename = (name: string) => {
+    if (!currentProjectId) return;
+    setProjects((prev) =>
+      prev.map((p) => (p.id === currentProjectId ? { ...p, name } : p))
+    );
+    renameProject(currentProjectId, name).catch((error) =>
+      console.error("프로젝트 이름 변경 실패:", error)
+    );
+  };
+
+  // 현재 프로젝트 삭제 핸들러
+  const handleProjectDelete = async () => {
+    if (!currentProjectId) return;
+    try {
+      await deleteProject(currentProjectId);
+
+      const remaining = await listProjects();
+      const next = remaining[0] ?? (await createProject(uuidv4(), "내 대회"));
+      await openProject(next.id);
+    } catch (error) {
+      console.error("프로젝트 삭제 실패:", error);
+      setErrorMessage("대회를 삭제하지 못했습니다. 다시 시도해 주세요.");
+    }
+  };
+
+  // 분석 기록 삭제 핸들러
+  const handleClearRuns = async () => {
+    if (!currentProjectId) return;
+    try {
+      await clearMatchRuns(currentProjectId);
+      setMatchRuns([]);
+      await refreshStorageInfo();
+    } catch (error) {
+      console.error("분석 기록 삭제 실패:", error);
+      setErrorMessage("분석 기록을 삭제하지 못했습니다. 다시 시도해 주세요.");
+    }
+  };
+
+  // 모든 저장 데이터 삭제 핸들러
+  const handlePurgeAll = async () => {
+    try {
+      await purgeAll();
+      const project = await createProject(uuidv4(), "내 대회");
+      await openProject(project.id);
+    } catch (error) {
+      console.error("저장 데이터 삭제 실패:", error);
+      setErrorMessage("저장된 데이터를 삭제하지 못했습니다. 다시 시도해 주세요.");
+    }
+  };
+
   // 대회 사진 업로드 핸들러
-  const handleMarathonPhotosAdd = (files: File[]) => {
-    const newPhotos: MarathonPhoto[] = files.map((file) => ({
+  // 이미 올라와 있는 파일(내용 해시가 같은 파일)은 중복으로 표시하고 검출하지 않음
+  const handleMarathonPhotosAdd = async (files: File[]) => {
+    // 해시를 계산할 수 없으면 중복 확인 없이 추가
+    let hashes: Array<string | undefined> = files.map(() => undefined);
+    let hashError: string | null = null;
+    if (isFileHashSupported()) {
+      try {
+        hashes = await Promise.all(files.map(computeFileHash));
+      } catch (error) {
+        console.error("사진 해시 계산 실패:", error);
+        hashError =
+          "사진 중복 확인에 실패해서 중복 확인 없이 추가했습니다.";
+      }
+    }
+
+    const newPhotos: MarathonPhoto[] = files.map((file, i) => ({
       id: uuidv4(),
       file,
       imageUrl: URL.createObjectURL(file),
       faces: [],
+      status: "pending",
+      hash: hashes[i],
     }));
 
-    // 기존 사진에 새 사진 추가
-    setMarathonPhotos((prev) => [...prev, ...newPhotos]);
+    // 기존 사진에 새 사진 추가 (이미 검출한 사진은 다시 분석하지 않음)
+    // 해시를 계산하는 동안 다른 업로드나 프로젝트 복원으로 목록이 바뀔 수 있으므로 최신 목록과 비교
+    setMarathonPhotos((prev) => {
+      const photoIdsByHash = new Map(
+        prev
+          .filter((photo) => photo.hash && !photo.duplicateOf)
+          .map((photo) => [photo.hash!, photo.id])
+      );
+
+      return [
+        ...prev,
+        ...newPhotos.map((photo): MarathonPhoto => {
+          const originalId = photo.hash
+            ? photoIdsByHash.get(photo.hash)
+            : undefined;
+          if (!originalId) {
+            if (photo.hash) {
+              photoIdsByHash.set(photo.hash, photo.id);
+            }
+            return photo;
+          }
+          return { ...photo, status: "done", duplicateOf: originalId };
+        }),
+      ];
+    });
     // 새로운 사진 업로드 시 결과 초기화
-    setMatchResults([]);
-    setErrorMessage(null);
+    setMatchResults(null);
+    setClusters([]);
+    setErrorMessage(hashError);
   };
 
   // 대회 사진 삭제 핸들러
   const handleMarathonPhotoRemove = (id: string) => {
-    setMarathonPhotos((prev) => {
-      const photo = prev.find((p) => p.id === id);
-      // Object URL 메모리 해제
-      if (photo) {
-        URL.revokeObjectURL(photo.imageUrl);
+    const removed = marathonPhotos.find((photo) => photo.id === id);
+    if (!removed) return;
+
+    // Object URL 메모리 해제
+    URL.revokeObjectURL(removed.imageUrl);
+
+    // 지운 사진의 중복본이 있으면 첫 번째 중복본이 검출 결과를 넘겨받아 원본이 됨
+    const promotedId = marathonPhotos.find(
+      (photo) => photo.duplicateOf === id
+    )?.id;
+    const promote = (photo: MarathonPhoto): MarathonPhoto => {
+      if (photo.id === promotedId) {
+        return {
+          ...photo,
+          duplicateOf: undefined,
+          faces: removed.faces,
+          status: removed.status === "done" ? "done" : "pending",
+          error: undefined,
+        };
       }
-      return prev.filter((p) => p.id !== id);
-    });
-    // 사진 삭제 시 결과 초기화
-    setMatchResults([]);
+      if (photo.duplicateOf === id) {
+        return { ...photo, duplicateOf: promotedId };
+      }
+      return photo;
+    };
+
+    const remaining = marathonPhotos
+      .filter((photo) => photo.id !== id)
+      .map(promote);
+    setMarathonPhotos((prev) =>
+      prev.filter((photo) => photo.id !== id).map(promote)
+    );
+    setClusters([]);
     setErrorMessage(null);
+
+    // 검출 결과는 그대로 두고 남은 사진들로 다시 매칭
+    if (matchResults) {
+      runMatching(people, remaining);
+    }
   };
 
-  // 기준 사진 업로드 핸들러
-  const handleReferencePhotoChange = (file: File | null) => {
-    if (file) {
-      setReferencePhoto({
-        file,
-        imageUrl: URL.createObjectURL(file),
-      });
-    } else {
-      setReferencePhoto(null);
+  // 특정 인물 프로필만 갱신
+  const updatePerson = (
+    id: string,
+    update: (person: PersonProfile) => PersonProfile
+  ) => {
+    setPeople((prev) =>
+      prev.map((person) => (person.id === id ? update(person) : person))
+    );
+  };
+
+  // 인물 추가 핸들러
+  const handlePersonAdd = () => {
+    const person = createPersonProfile(`사람 ${people.length + 1}`);
+    setPeople((prev) => [...prev, person]);
+    setActivePersonId(person.id);
+  };
+
+  // 인물 이름 변경 핸들러
+  const handlePersonRename = (id: string, name: string) => {
+    updatePerson(id, (person) => ({ ...person, name }));
+  };
+
+  // 인물 삭제 핸들러
+  const handlePersonRemove = (id: string) => {
+    const person = people.find((p) => p.id === id);
+    const remaining = people.filter((p) => p.id !== id);
+    if (!person || remaining.length === 0) {
+      return;
     }
 
-    // 기준 사진 변경 시 결과 초기화
-    setMyDescriptor(null);
-    setMatchResults([]);
-    setErrorMessage(null);
+    // Object URL 메모리 해제
+    person.references.forEach((reference) =>
+      URL.revokeObjectURL(reference.imageUrl)
+    );
+    setPeople(remaining);
+    setActivePersonId(remaining[0].id);
+    setMatchResults(null);
   };
 
-  // 웹캠 캡처 핸들러
-  const handleCaptureFace = (file: File) => {
-    setReferencePhoto({
+  // 선택된 인물 프로필에 기준 사진 추가
+  const addReferences = (files: File[], source: ReferencePhoto["source"]) => {
+    const newReferences: ReferencePhoto[] = files.map((file) => ({
+      id: uuidv4(),
       file,
       imageUrl: URL.createObjectURL(file),
+      source,
+    }));
+
+    updatePerson(activePersonId, (person) => ({
+      ...person,
+      references: [...person.references, ...newReferences],
+    }));
+    // 기준 사진 변경 시 결과 초기화
+    setMatchResults(null);
+    setErrorMessage(null);
+
+    checkReferences(activePersonId, newReferences);
+  };
+
+  // 기준 사진 1장의 정보 갱신
+  const updateReference = (
+    personId: string,
+    referenceId: string,
+    changes: Partial<ReferencePhoto>
+  ) => {
+    updatePerson(personId, (person) => ({
+      ...person,
+      references: person.references.map((reference) =>
+        reference.id === referenceId ? { ...reference, ...changes } : reference
+      ),
+    }));
+  };
+
+  // 기준 사진의 얼굴들을 검출해서 확인 결과 표시
+  // (기본으로 가장 큰 얼굴 선택, 이미 선택한 얼굴이 있으면 유지)
+  // 대회 사진에서 가져온 얼굴은 원래 사진의 얼굴 영역에서 descriptor만 다시 추출
+  const checkReferences = async (
+    personId: string,
+    references: ReferencePhoto[],
+    align: boolean = alignFaces
+  ) => {
+    const generation = referenceCheckRef.current;
+
+    for (const reference of references) {
+      try {
+        const sourceFace = reference.sourceFace;
+        const sourcePhoto =
+          sourceFace &&
+          marathonPhotos.find((photo) => photo.id === sourceFace.photoId);
+        if (sourceFace && sourcePhoto) {
+          const face = await extractFaceInRegion(
+            sourcePhoto.file,
+            sourceFace.box,
+            align
+          );
+          if (generation !== referenceCheckRef.current) return;
+          updateReference(personId, reference.id, {
+            descriptor: face.descriptor,
+          });
+          continue;
+        }
+
+        const faces = await detectReferenceFaces(
+          reference.file,
+          detector,
+          align
+        );
+        if (generation !== referenceCheckRef.current) return;
+        const selectedFaceIndex =
+          (reference.selectedFaceIndex ?? 0) < faces.length
+            ? reference.selectedFaceIndex ?? 0
+            : 0;
+        updateReference(personId, reference.id, {
+          faces,
+          selectedFaceIndex,
+          descriptor: faces[selectedFaceIndex]?.descriptor,
+        });
+      } catch (error) {
+        // 확인하지 못한 사진은 분석할 때 다시 검출
+        console.error("기준 사진 확인 실패:", error);
+      }
+    }
+  };
+
+  // 기준 사진에서 이 사람의 얼굴 선택 (여러 얼굴이 검출된 경우)
+  const handleReferenceFaceSelect = (referenceId: string, faceIndex: number) => {
+    const reference = people
+      .find((person) => person.id === activePersonId)
+      ?.references.find((r) => r.id === referenceId);
+    const face = reference?.faces?.[faceIndex];
+    if (!face) return;
+
+    updateReference(activePersonId, referenceId, {
+      selectedFaceIndex: faceIndex,
+      descriptor: face.descriptor,
+    });
+    // 기준 사진 변경 시 결과 초기화
+    setMatchResults(null);
+    setErrorMessage(null);
+  };
+
+  // 기준 사진 업로드 핸들러
+  const handleReferencesAdd = (files: File[]) => {
+    addReferences(files, "upload");
+  };
+
+  // 기준 사진 삭제 핸들러
+  const handleReferenceRemove = (id: string) => {
+    updatePerson(activePersonId, (person) => {
+      const reference = person.references.find((r) => r.id === id);
+      // Object URL 메모리 해제
+      if (reference) {
+        URL.revokeObjectURL(reference.imageUrl);
+      }
+      return {
+        ...person,
+        references: person.references.filter((r) => r.id !== id),
+      };
     });
-    setMyDescriptor(null);
-    setMatchResults([]);
+    // 기준 사진 변경 시 결과 초기화
+    setMatchResults(null);
     setErrorMessage(null);
+  };
+
+  // 매칭 방식 변경 핸들러 (이미 분석했다면 검출 없이 다시 매칭)
+  const handleStrategyChange = (strategy: MatchStrategy) => {
+    setMatchStrategy(strategy);
+    if (matchResults) {
+      runMatching(people, marathonPhotos, threshold, strategy);
+    }
+  };
+
+  // threshold 변경 핸들러 (이미 계산된 얼굴로 즉시 다시 필터링/정렬)
+  const handleThresholdChange = (value: number) => {
+    setThreshold(value);
+    if (matchResults) {
+      runMatching(people, marathonPhotos, value, matchStrategy);
+    }
+  };
+
+  // 최소 얼굴 품질 변경 핸들러 (검출 없이 다시 매칭)
+  const handleMinQualityChange = (value: number) => {
+    setMinQuality(value);
+    if (matchResults) {
+      runMatching(people, marathonPhotos, threshold, matchStrategy, value);
+    }
+  };
+
+  // 웹캠 캡처 핸들러 (프로필에 기준 사진으로 추가)
+  const handleCaptureFace = (file: File) => {
+    addReferences([file], "webcam");
     // 매칭 탭으로 전환
     setActiveTab('matching');
   };
 
-  // 분석 실행 핸들러
-  const handleAnalyze = async () => {
+  // 모든 인물의 기준 사진들에서 얼굴 추출 (이미 추출한 사진은 재사용)
+  // 얼굴을 찾지 못한 기준 사진은 "이름 #번호" 형식으로 반환
+  const extractAllReferences = async (
+    targets: PersonProfile[]
+  ): Promise<{ people: PersonProfile[]; failed: string[] }> => {
+    const updatedPeople: PersonProfile[] = [];
+    const failed: string[] = [];
+
+    for (const person of targets) {
+      const updatedReferences: ReferencePhoto[] = [];
+
+      for (let i = 0; i < person.references.length; i++) {
+        const reference = person.references[i];
+        // 이미 확인한 사진은 다시 검출하지 않음 (얼굴이 없던 사진 포함)
+        const faces =
+          reference.descriptor || reference.faces
+            ? reference.faces
+            : await detectReferenceFaces(reference.file, detector, alignFaces);
+        const descriptor =
+          reference.descriptor ??
+          faces?.[reference.selectedFaceIndex ?? 0]?.descriptor;
+
+        if (!descriptor) {
+          failed.push(`${person.name} #${i + 1}`);
+        }
+        updatedReferences.push({
+          ...reference,
+          faces,
+          selectedFaceIndex: faces ? reference.selectedFaceIndex ?? 0 : undefined,
+          descriptor,
+        });
+      }
+
+      updatedPeople.push({ ...person, references: updatedReferences });
+    }
+
+    return { people: updatedPeople, failed };
+  };
+
+  // 설정한 Worker 수에 맞는 검출 풀 (지원하지 않는 브라우저면 null)
+  const getDetectionPool = (): DetectionWorkerPool | null => {
+    if (workerFailedRef.current || !isWorkerDetectionSupported()) {
+      return null;
+    }
+
+    const size = workerCount ?? getDefaultWorkerCount();
+    if (detectionPoolRef.current?.size !== size) {
+      detectionPoolRef.current?.terminate();
+      detectionPoolRef.current = createDetectionWorkerPool(size);
+    }
+    return detectionPoolRef.current;
+  };
+
+  // 사진 1장의 검출 상태 갱신 (분석 중에 추가/삭제된 사진은 그대로 유지)
+  const updatePhoto = (id: string, changes: Partial<MarathonPhoto>) => {
+    setMarathonPhotos((prev) =>
+      prev.map((photo) => (photo.id === id ? { ...photo, ...changes } : photo))
+    );
+  };
+
+  // 아직 검출하지 않은 사진들에서 얼굴 검출 (진행 상태 표시)
+  // - 이미 검출한 사진은 건너뛰므로 중지 후 다시 실행하면 남은 사진부터 이어서 분석
+  // - retryFailed가 true면 실패한 사진도 다시 검출
+  // - Worker 풀이 있으면 여러 장을 동시에, 없으면 메인 스레드에서 1장씩 검출
+  const detectPendingPhotos = async (
+    photos: MarathonPhoto[],
+    signal: AbortSignal,
+    retryFailed: boolean = false
+  ): Promise<MarathonPhoto[]> => {
+    const targets = photos.filter(
+      (photo) =>
+        photo.status === "pending" ||
+        photo.status === "processing" ||
+        (retryFailed && photo.status === "failed")
+    );
+    const results = new Map<string, MarathonPhoto>();
+    const config: DetectionConfig = {
+      detector,
+      tiling: tiledDetection ? DEFAULT_TILING : null,
+      withExpressions,
+      withAgeGender,
+      alignFaces,
+    };
+    const fingerprint = getDetectionFingerprint(config);
+    let completed = 0;
+    setAnalysisProgress({ current: 0, total: targets.length });
+
+    // 이번 검출에 필요한 모델 로드 (실패하면 모델 상태에서 다시 시도)
+    if (targets.length > 0) {
+      await loadModelsByName(getRequiredModels(config));
+    }
+
+    const pool = getDetectionPool();
+    if (pool) {
+      try {
+        await pool.ready;
+      } catch (error) {
+        console.error("검출 Worker 초기화 실패, 메인 스레드에서 검출:", error);
+        pool.terminate();
+        detectionPoolRef.current = null;
+        workerFailedRef.current = true;
+      }
+    }
+    const useWorkers = pool !== null && !workerFailedRef.current;
+
+    const detectPhoto = async (photo: MarathonPhoto) => {
+      updatePhoto(photo.id, { status: "processing", error: undefined });
+
+      let result: MarathonPhoto;
+      try {
+        // 같은 파일을 같은 설정으로 검출한 적이 있으면 캐시 재사용
+        // (해시를 계산할 수 없는 환경에서는 캐시 없이 검출)
+        const hash =
+          photo.hash ??
+          (isFileHashSupported()
+            ? await computeFileHash(photo.file)
+            : undefined);
+        const cached = hash
+          ? await getCachedDetection(hash, fingerprint).catch(() => null)
+          : null;
+
+        const faces =
+          cached ??
+          (useWorkers
+            ? await pool.detect(photo.file, config, signal)
+            : await detectFacesInImage(photo.file, config));
+
+        if (hash && !cached) {
+          saveCachedDetection(hash, fingerprint, faces).catch((error) =>
+            console.error("검출 결과 캐시 저장 실패:", error)
+          );
+        }
+
+        // 직접 추가한 얼굴은 지금 설정으로 descriptor를 다시 추출해서 유지
+        // (캐시에는 검출기가 찾은 얼굴만 저장)
+        const manualFaces = await Promise.all(
+          getMissedManualFaces(photo.faces, faces).map((face) =>
+            extractFaceInRegion(photo.file, face.box, alignFaces)
+          )
+        );
+        result = {
+          ...photo,
+          faces: [...faces, ...manualFaces],
+          hash,
+          status: "done",
+          error: undefined,
+        };
+      } catch (error) {
+        if (signal.aborted) {
+          // 중지된 사진은 다음 실행 때 다시 검출
+          result = { ...photo, status: "pending", error: undefined };
+        } else {
+          console.error(`사진 분석 실패 (${photo.file.name}):`, error);
+          result = {
+            ...photo,
+            faces: photo.faces.filter((face) => face.manual),
+            status: "failed",
+            error: error instanceof Error ? error.message : String(error),
+          };
+        }
+      }
+
+      results.set(photo.id, result);
+      updatePhoto(photo.id, {
+        faces: result.faces,
+        status: result.status,
+        error: result.error,
+        hash: result.hash,
+      });
+      // 얼굴 순서가 바뀌었을 수 있으므로 확인 기록을 새 얼굴로 옮김
+      if (result.status === "done") {
+        setPeople((prev) => reanchorCorrections(prev, photo.id, result.faces));
+      }
+
+      if (result.status !== "pending") {
+        completed++;
+        setAnalysisProgress({ current: completed, total: targets.length });
+      }
+    };
+
+    // 대기열에서 1장씩 꺼내 검출 (동시에 Worker 수만큼 실행)
+    let nextIndex = 0;
+    const runQueue = async () => {
+      while (nextIndex < targets.length && !signal.aborted) {
+        await detectPhoto(targets[nextIndex++]);
+      }
+    };
+    await Promise.all(
+      Array.from({ length: useWorkers ? pool.size : 1 }, runQueue)
+    );
+
+    return photos.map((photo) => results.get(photo.id) ?? photo);
+  };
+
+  // 검출 설정이 바뀌면 이전 설정으로 찾은 얼굴은 버리고 다시 검출하도록 대기 상태로
+  // (이전 설정의 결과는 캐시에 남아 있으므로 되돌리면 바로 재사용)
+  // 직접 추가한 얼굴은 남겨 두고, 확인 기록은 다시 검출한 뒤 얼굴 영역으로 새 얼굴에 연결
+  const resetDetections = () => {
+    setPeople((prev) => recordCorrectionBoxes(prev, marathonPhotos));
+    setMarathonPhotos((prev) =>
+      prev.map((photo) =>
+        photo.duplicateOf
+          ? photo
+          : {
+              ...photo,
+              faces: photo.faces.filter((face) => face.manual),
+              status: "pending",
+              error: undefined,
+            }
+      )
+    );
+    setMatchResults(null);
+    setNearestDistances([]);
+    setClusters([]);
+    setErrorMessage(null);
+  };
+
+  // 검출기 변경 핸들러
+  const handleDetectorChange = async (next: DetectorOptions) => {
+    if (isSameDetector(detector, next)) return;
+
+    try {
+      // 모델이 없으면 선택하기 전에 알려 줌
+      await loadDetector(next.kind, "/models");
+    } catch (error) {
+      console.error("검출기 모델 로드 실패:", error);
+      setErrorMessage(
+        "검출기 모델을 불러오지 못했습니다. public/models에 모델 파일이 있는지 확인해 주세요."
+      );
+      return;
+    }
+
+    setDetector(next);
+    resetDetections();
+  };
+
+  // 분할 검출 사용 여부 변경 핸들러
+  const handleTiledDetectionChange = (enabled: boolean) => {
+    setTiledDetection(enabled);
+    resetDetections();
+  };
+
+  // 표정 / 나이·성별 분석 사용 여부 변경 핸들러
+  const handleWithExpressionsChange = (enabled: boolean) => {
+    setWithExpressions(enabled);
+    resetDetections();
+  };
+
+  const handleWithAgeGenderChange = (enabled: boolean) => {
+    setWithAgeGender(enabled);
+    resetDetections();
+  };
+
+  // 얼굴 정렬 변경 핸들러
+  // 기준 사진과 대회 사진의 descriptor를 같은 방식으로 다시 추출해야 하므로 둘 다 초기화
+  // ("아니에요"로 확인한 얼굴은 다시 검출한 뒤 새 얼굴의 descriptor로 바뀜)
+  // 이전 설정으로 진행 중인 기준 사진 확인은 결과를 버림
+  const handleAlignFacesChange = (enabled: boolean) => {
+    referenceCheckRef.current++;
+    const resetPeople = people.map((person) => ({
+      ...person,
+      references: person.references.map((reference) => ({
+        ...reference,
+        descriptor: undefined,
+        faces: undefined,
+        sourceFace: getReferenceSourceFace(reference, marathonPhotos),
+      })),
+    }));
+
+    setAlignFaces(enabled);
+    setPeople(resetPeople);
+    resetDetections();
+    resetPeople.forEach((person) =>
+      checkReferences(person.id, person.references, enabled)
+    );
+  };
+
+  // 실패한 모델 다시 로드
+  const handleModelRetry = (name: ModelName) => {
+    loadModelsByName([name]).catch((error) =>
+      console.error("모델 로드 실패:", error)
+    );
+  };
+
+  // 진행 중인 분석 중지
+  const handleCancelAnalysis = () => {
+    analysisAbortRef.current?.abort();
+  };
+
+  // 검출이 끝난 사진들에서 각 얼굴을 가장 가까운 인물에게 배정
+  const runMatching = (
+    targets: PersonProfile[],
+    photos: MarathonPhoto[],
+    matchThreshold: number = threshold,
+    strategy: MatchStrategy = matchStrategy,
+    qualityLimit: number = minQuality
+  ) => {
+    const labeledReferences = toLabeledReferences(targets);
+
+    const matches = matchFacesToPeople(
+      labeledReferences,
+      photos,
+      matchThreshold,
+      strategy,
+      qualityLimit
+    );
+    setMatchResults(matches);
+    setNearestDistances(
+      collectNearestDistances(labeledReferences, photos, strategy, qualityLimit)
+    );
+    setErrorMessage(null);
+
+    if (
+      Object.values(matches.byPerson).every((results) => results.length === 0)
+    ) {
+      setErrorMessage(
+        "일치하는 얼굴을 찾지 못했습니다. 기준 사진을 변경하거나 다른 대회 사진을 사용해 보세요."
+      );
+    }
+
+    return matches;
+  };
+
+  // 매칭 결과를 분석 기록으로 저장
+  const recordMatchRun = async (matches: GalleryMatchResult) => {
+    if (!currentProjectId) return;
+
+    const run: MatchRun = {
+      id: uuidv4(),
+      projectId: currentProjectId,
+      createdAt: Date.now(),
+      threshold,
+      strategy: matchStrategy,
+      matches: Object.fromEntries(
+        Object.entries(matches.byPerson).map(([personId, results]) => [
+          personId,
+          results.map((result) => ({
+            photoId: result.photo.id,
+            faceIndex: result.matchedFaceIndex,
+            distance: result.distance,
+          })),
+        ])
+      ),
+      unknownCount: matches.unknown.length,
+    };
+
+    try {
+      await saveMatchRun(run);
+      setMatchRuns((prev) => [run, ...prev]);
+    } catch (error) {
+      console.error("분석 기록 저장 실패:", error);
+    }
+  };
+
+  // 분석 실행 핸들러 (retryFailed가 true면 실패한 사진도 다시 검출)
+  const handleAnalyze = async (retryFailed: boolean = false) => {
     // 유효성 검사
-    if (!referencePhoto) {
+    if (people.every((person) => person.references.length === 0)) {
       setErrorMessage("기준 얼굴 사진을 업로드해 주세요.");
       return;
     }
@@ -133,49 +1277,41 @@ export default function Home() {
       return;
     }
 
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
     setIsAnalyzing(true);
     setErrorMessage(null);
-    setMatchResults([]);
+    setMatchResults(null);
 
     try {
-      // 1. 기준 사진에서 얼굴 추출
-      const descriptor = await extractReferenceFace(referencePhoto.file);
+      // 1. 모든 인물의 기준 사진들에서 얼굴 추출
+      const { people: updatedPeople, failed } = await extractAllReferences(
+        people
+      );
+      setPeople((prev) => mergeExtractedReferences(prev, updatedPeople));
 
-      if (!descriptor) {
+      if (failed.length > 0) {
         setErrorMessage(
-          "업로드된 기준 사진에서 얼굴을 찾지 못했습니다. 얼굴이 정면으로 나온 사진을 사용해 주세요."
+          `기준 사진 ${failed.join(
+            ", "
+          )}에서 얼굴을 찾지 못했습니다. 얼굴이 정면으로 나온 사진으로 교체해 주세요.`
         );
         setIsAnalyzing(false);
         return;
       }
 
-      setMyDescriptor(descriptor);
-
-      // 2. 각 대회 사진에서 얼굴 검출
-      const updatedPhotos: MarathonPhoto[] = [];
-
-      for (let i = 0; i < marathonPhotos.length; i++) {
-        const photo = marathonPhotos[i];
-        setAnalysisProgress({ current: i + 1, total: marathonPhotos.length });
+      // 2. 아직 검출하지 않은 대회 사진에서 얼굴 검출
+      const updatedPhotos = await detectPendingPhotos(
+        marathonPhotos,
+        controller.signal,
+        retryFailed
+      );
 
-        try {
-          const faces = await detectFacesInImage(photo.file);
-          updatedPhotos.push({
-            ...photo,
-            faces,
-          });
-        } catch (error) {
-          console.error(`사진 분석 실패 (${photo.file.name}):`, error);
-          // 실패한 사진은 얼굴 0개로 처리
-          updatedPhotos.push({
-            ...photo,
-            faces: [],
-          });
-        }
+      if (controller.signal.aborted) {
+        setErrorMessage(ANALYSIS_CANCELLED_MESSAGE);
+        return;
       }
 
-      setMarathonPhotos(updatedPhotos);
-
       // 3. 얼굴이 검출된 사진이 하나라도 있는지 확인
       const totalFaces = updatedPhotos.reduce(
         (sum, photo) => sum + photo.faces.length,
@@ -190,45 +1326,306 @@ export default function Home() {
         return;
       }
 
-      // 4. 매칭 수행 (threshold: 0.6)
-      const matches = findMatchingPhotos(descriptor, updatedPhotos, 0.6);
-      setMatchResults(matches);
+      // 4. 각 얼굴을 가장 가까운 인물에게 배정
+      // (이번에 검출한 사진의 확인 기록은 새 얼굴로 옮긴 뒤 매칭, 화면의 프로필은 검출하면서 이미 갱신됨)
+      const matchPeople = updatedPhotos.reduce(
+        (current, photo, index) =>
+          photo !== marathonPhotos[index] && photo.status === "done"
+            ? reanchorCorrections(current, photo.id, photo.faces)
+            : current,
+        updatedPeople
+      );
+      const matches = runMatching(matchPeople, updatedPhotos);
+      await recordMatchRun(matches);
 
-      if (matches.length === 0) {
+      const failedCount = updatedPhotos.filter(
+        (photo) => photo.status === "failed"
+      ).length;
+      if (failedCount > 0) {
         setErrorMessage(
-          "일치하는 얼굴을 찾지 못했습니다. 기준 사진을 변경하거나 다른 대회 사진을 사용해 보세요."
+          `사진 ${failedCount}장을 분석하지 못했습니다. 사진 목록에서 이유를 확인하고 다시 시도해 주세요.`
         );
       }
     } catch (error) {
       console.error("분석 실패:", error);
       setErrorMessage("분석 중 오류가 발생했습니다. 다시 시도해 주세요.");
     } finally {
+      analysisAbortRef.current = null;
       setIsAnalyzing(false);
       setAnalysisProgress({ current: 0, total: 0 });
     }
   };
 
+  // 자동 분류 핸들러 (기준 사진 없이 사진 속 얼굴들을 사람별로 묶기)
+  const handleClusterFaces = async () => {
+    if (marathonPhotos.length === 0) {
+      setErrorMessage("대회 사진들을 업로드해 주세요.");
+      return;
+    }
+
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+    setIsAnalyzing(true);
+    setErrorMessage(null);
+
+    try {
+      // 이미 검출을 마친 사진은 다시 검출하지 않음
+      const photos = await detectPendingPhotos(
+        marathonPhotos,
+        controller.signal
+      );
+
+      if (controller.signal.aborted) {
+        setErrorMessage(ANALYSIS_CANCELLED_MESSAGE);
+        return;
+      }
+
+      const result = clusterFaces(photos);
+      setClusters(result);
+
+      if (result.length === 0) {
+        setErrorMessage(
+          "대회 사진들에서 얼굴을 찾지 못했습니다. 다른 사진을 사용해 주세요."
+        );
+      }
+    } catch (error) {
+      console.error("자동 분류 실패:", error);
+      setErrorMessage("자동 분류 중 오류가 발생했습니다. 다시 시도해 주세요.");
+    } finally {
+      analysisAbortRef.current = null;
+      setIsAnalyzing(false);
+      setAnalysisProgress({ current: 0, total: 0 });
+    }
+  };
+
+  // 묶음의 얼굴들을 잘라서 기준 사진으로 변환 (검출된 descriptor 재사용)
+  const clusterToReferences = async (
+    cluster: FaceCluster
+  ): Promise<ReferencePhoto[]> => {
+    const references: ReferencePhoto[] = [];
+
+    for (const ref of cluster.faces) {
+      const photo = marathonPhotos.find((p) => p.id === ref.photoId);
+      const face = getFaceByRef(marathonPhotos, ref);
+      if (!photo || !face) continue;
+
+      const blob = await cropFaceFromImage(photo.imageUrl, face);
+      references.push({
+        id: uuidv4(),
+        file: new File([blob], `cluster_${photo.file.name}`, {
+          type: "image/jpeg",
+        }),
+        imageUrl: URL.createObjectURL(blob),
+        source: "cluster",
+        descriptor: face.descriptor,
+        sourceFace: { photoId: photo.id, box: face.box },
+      });
+    }
+
+    return references;
+  };
+
+  // 묶음을 인물에 등록하고 바로 매칭 결과 갱신
+  const registerCluster = async (
+    clusterId: string,
+    createNewPerson: boolean
+  ) => {
+    const cluster = clusters.find((c) => c.id === clusterId);
+    if (!cluster) return;
+
+    try {
+      const references = await clusterToReferences(cluster);
+      let updatedPeople: PersonProfile[];
+
+      if (createNewPerson) {
+        const person = {
+          ...createPersonProfile(cluster.name || `사람 ${people.length + 1}`),
+          references,
+        };
+        updatedPeople = [...people, person];
+        setActivePersonId(person.id);
+      } else {
+        updatedPeople = people.map((person) =>
+          person.id === activePersonId
+            ? { ...person, references: [...person.references, ...references] }
+            : person
+        );
+      }
+
+      setPeople(updatedPeople);
+      setErrorMessage(null);
+      runMatching(updatedPeople, marathonPhotos);
+    } catch (error) {
+      console.error("묶음 등록 실패:", error);
+      setErrorMessage("묶음을 인물로 등록하지 못했습니다. 다시 시도해 주세요.");
+    }
+  };
+
+  // 묶음 편집 핸들러
+  const handleClusterRename = (clusterId: string, name: string) => {
+    setClusters((prev) => renameCluster(prev, clusterId, name));
+  };
+
+  const handleClusterMerge = (clusterIds: string[]) => {
+    setClusters((prev) => mergeClusters(prev, clusterIds, marathonPhotos));
+  };
+
+  const handleClusterSplit = (
+    clusterId: string,
+    photoId: string,
+    faceIndex: number
+  ) => {
+    setClusters((prev) =>
+      splitFaceFromCluster(
+        prev,
+        clusterId,
+        { photoId, faceIndex },
+        marathonPhotos
+      )
+    );
+  };
+
+  // 사진 속 얼굴을 잘라서 "맞아요"로 확인한 기준 사진 생성 (검출된 descriptor 재사용)
+  const createConfirmedReference = async (
+    photo: MarathonPhoto,
+    faceIndex: number,
+    face: DetectedFace
+  ) => {
+    const blob = await cropFaceFromImage(photo.imageUrl, face);
+    return {
+      id: uuidv4(),
+      file: new File([blob], `confirmed_${photo.file.name}`, {
+        type: "image/jpeg",
+      }),
+      imageUrl: URL.createObjectURL(blob),
+      source: "confirmed" as const,
+      descriptor: face.descriptor,
+      confirmedFace: { photoId: photo.id, faceIndex },
+      sourceFace: { photoId: photo.id, box: face.box },
+    };
+  };
+
+  // 수동 보정 반영 후 바로 다시 매칭
+  const applyCorrection = (
+    updatedPeople: PersonProfile[],
+    photos: MarathonPhoto[] = marathonPhotos
+  ) => {
+    setPeople(updatedPeople);
+    setErrorMessage(null);
+    if (matchResults) {
+      runMatching(updatedPeople, photos);
+    }
+  };
+
+  // 결과 "맞아요" 핸들러 (얼굴을 기준 사진으로 추가, 다른 사람으로 확인했던 기록은 취소)
+  const handleResultConfirm = async (result: MatchResult, personId: string) => {
+    const face = result.photo.faces[result.matchedFaceIndex];
+    if (!face) return;
+
+    try {
+      const reference = await createConfirmedReference(
+        result.photo,
+        result.matchedFaceIndex,
+        face
+      );
+      // 취소되는 확인 기록의 Object URL 메모리 해제
+      getConfirmedReferences(people, reference.confirmedFace).forEach((r) =>
+        URL.revokeObjectURL(r.imageUrl)
+      );
+      applyCorrection(confirmFace(people, personId, reference));
+    } catch (error) {
+      console.error("얼굴 확인 실패:", error);
+      setErrorMessage("얼굴을 기준 사진으로 추가하지 못했습니다. 다시 시도해 주세요.");
+    }
+  };
+
+  // 결과 "아니에요" 핸들러 (얼굴을 negative로 저장)
+  const handleResultReject = (result: MatchResult, personId: string) => {
+    const face = result.photo.faces[result.matchedFaceIndex];
+    if (!face) return;
+
+    const faceRef = {
+      photoId: result.photo.id,
+      faceIndex: result.matchedFaceIndex,
+    };
+    getConfirmedReferences(people, faceRef, personId).forEach((r) =>
+      URL.revokeObjectURL(r.imageUrl)
+    );
+    applyCorrection(
+      rejectFace(people, personId, {
+        ...faceRef,
+        descriptor: face.descriptor,
+        box: face.box,
+      })
+    );
+  };
+
+  // 확인 취소 핸들러
+  const handleCorrectionUndo = (result: MatchResult, personId: string) => {
+    const faceRef = {
+      photoId: result.photo.id,
+      faceIndex: result.matchedFaceIndex,
+    };
+    getConfirmedReferences(people, faceRef, personId).forEach((r) =>
+      URL.revokeObjectURL(r.imageUrl)
+    );
+    applyCorrection(undoCorrection(people, personId, faceRef));
+  };
+
+  // 놓친 얼굴 추가 핸들러 (지정한 영역에서만 descriptor 추출)
+  // 누구의 얼굴인지 고르면 그 사람으로 확인까지 함께 처리
+  const handleManualFaceAdd = async (
+    photoId: string,
+    region: BoundingBox,
+    personId: string | null
+  ) => {
+    const photo = marathonPhotos.find((p) => p.id === photoId);
+    if (!photo) return;
+
+    const face = await extractFaceInRegion(photo.file, region, alignFaces);
+    const faceIndex = photo.faces.length;
+    const updatedPhoto = { ...photo, faces: [...photo.faces, face] };
+    const updatedPhotos = marathonPhotos.map((p) =>
+      p.id === photoId ? updatedPhoto : p
+    );
+    updatePhoto(photoId, { faces: updatedPhoto.faces });
+
+    const updatedPeople = personId
+      ? confirmFace(
+          people,
+          personId,
+          await createConfirmedReference(updatedPhoto, faceIndex, face)
+        )
+      : people;
+    applyCorrection(updatedPeople, updatedPhotos);
+  };
+
   // 분석 버튼 활성화 여부
   const isAnalyzeDisabled =
     !isModelsLoaded ||
     isAnalyzing ||
-    !referencePhoto ||
+    people.every((person) => person.references.length === 0) ||
     marathonPhotos.length === 0;
 
+  const activePerson =
+    people.find((person) => person.id === activePersonId) ?? people[0];
+  const faceEditPhoto =
+    marathonPhotos.find((photo) => photo.id === faceEditPhotoId) ?? null;
+
   return (
     <div className="min-h-screen bg-gray-50">
       <div className="max-w-7xl mx-auto px-4 py-8 sm:px-6 lg:px-8">
         {/* 헤더 */}
         <header className="text-center mb-12">
           <h1 className="text-4xl font-bold text-gray-900 mb-3">detect PoC</h1>
+          <OfflineStatus status={offlineStatus} isOnline={isOnline} />
         </header>
 
         {/* 모델 로딩 상태 */}
-        {isLoadingModels && (
-          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6 text-center">
-            <p className="text-blue-700">얼굴 인식 모델 로딩 중...</p>
-          </div>
-        )}
+        <ModelStatus
+          states={Object.values(modelStates)}
+          onRetry={handleModelRetry}
+        />
 
         {/* 탭 메뉴 */}
         <div className="bg-white rounded-lg shadow-md mb-6">
@@ -259,20 +1656,111 @@ export default function Home() {
         {/* 탭 내용 */}
         {activeTab === 'matching' ? (
           <>
+            {/* 저장된 프로젝트 */}
+            <section className="bg-white rounded-lg shadow-md p-6 mb-6">
+              <ProjectPanel
+                projects={projects}
+                currentProjectId={currentProjectId}
+                runs={matchRuns}
+                people={people}
+                storageEstimate={storageEstimate}
+                onSelect={openProject}
+                onCreate={handleProjectCreate}
+                onRename={handleProjectRename}
+                onDelete={handleProjectDelete}
+                onClearRuns={handleClearRuns}
+                onPurgeAll={handlePurgeAll}
+              />
+
+              <div className="mt-4 pt-4 border-t border-gray-200">
+                <BundlePanel
+                  canExport={marathonPhotos.length > 0}
+                  isBusy={isBundleBusy || isAnalyzing}
+                  onExportJson={handleExportJson}
+                  onExportZip={handleExportZip}
+                  onImport={handleImport}
+                />
+              </div>
+            </section>
+
             {/* 대회 사진 업로드 */}
             <section className="bg-white rounded-lg shadow-md p-6 mb-6">
               <PhotoUploader
                 photos={marathonPhotos}
                 onPhotosAdd={handleMarathonPhotosAdd}
                 onPhotoRemove={handleMarathonPhotoRemove}
+                onFaceAdd={setFaceEditPhotoId}
               />
             </section>
 
+            {/* 기준 사진 없이 자동 분류 (선택) */}
+            {marathonPhotos.length > 0 && (
+              <section className="bg-white rounded-lg shadow-md p-6 mb-6">
+                <h2 className="text-xl font-semibold mb-2 text-black">
+                  사진 속 인물 자동 분류 (선택)
+                </h2>
+                <p className="text-gray-600 text-sm mb-4 text-black">
+                  기준 사진이 없어도 사진 속 얼굴들을 사람별로 묶어 줍니다.
+                  묶음에서 내 얼굴을 골라 바로 기준 사진으로 등록할 수 있습니다.
+                </p>
+
+                <button
+                  onClick={handleClusterFaces}
+                  disabled={!isModelsLoaded || isAnalyzing}
+                  className={`px-6 py-3 rounded-lg font-semibold text-white transition-colors ${
+                    !isModelsLoaded || isAnalyzing
+                      ? "bg-gray-400 cursor-not-allowed"
+                      : "bg-indigo-600 hover:bg-indigo-700"
+                  }`}
+                >
+                  {clusters.length > 0 ? "다시 분류하기" : "자동 분류 시작"}
+                </button>
+
+                {clusters.length > 0 && (
+                  <div className="mt-6">
+                    <FaceClusters
+                      clusters={clusters}
+                      photos={marathonPhotos}
+                      activePersonName={activePerson.name}
+                      onRename={handleClusterRename}
+                      onMerge={handleClusterMerge}
+                      onSplit={handleClusterSplit}
+                      onAssignToActivePerson={(id) => registerCluster(id, false)}
+                      onCreatePerson={(id) => registerCluster(id, true)}
+                    />
+                  </div>
+                )}
+              </section>
+            )}
+
             {/* 기준 사진 업로드 */}
             <section className="bg-white rounded-lg shadow-md p-6 mb-6">
+              <h2 className="text-xl font-semibold mb-2 text-black">
+                2. 찾을 사람과 기준 사진을 등록해 주세요
+              </h2>
+              <p className="text-gray-600 text-sm mb-4 text-black">
+                여러 사람을 등록하면 모든 사진에서 각 사람을 한 번에 찾습니다.
+              </p>
+
+              <div className="mb-6">
+                <PersonList
+                  people={people}
+                  activePersonId={activePerson.id}
+                  onSelect={setActivePersonId}
+                  onAdd={handlePersonAdd}
+                  onRename={handlePersonRename}
+                  onRemove={handlePersonRemove}
+                />
+              </div>
+
               <FacePreview
-                referencePhoto={referencePhoto}
-                onPhotoChange={handleReferencePhotoChange}
+                personName={activePerson.name}
+                references={activePerson.references}
+                onReferencesAdd={handleReferencesAdd}
+                onReferenceRemove={handleReferenceRemove}
+                onReferenceFaceSelect={handleReferenceFaceSelect}
+                strategy={matchStrategy}
+                onStrategyChange={handleStrategyChange}
               />
             </section>
 
@@ -282,8 +1770,24 @@ export default function Home() {
                 3. 분석 실행
               </h2>
 
+              <div className="mb-4">
+                <DetectorControl
+                  detector={detector}
+                  onChange={handleDetectorChange}
+                  tiled={tiledDetection}
+                  onTiledChange={handleTiledDetectionChange}
+                  withExpressions={withExpressions}
+                  onWithExpressionsChange={handleWithExpressionsChange}
+                  withAgeGender={withAgeGender}
+                  onWithAgeGenderChange={handleWithAgeGenderChange}
+                  alignFaces={alignFaces}
+                  onAlignFacesChange={handleAlignFacesChange}
+                  disabled={isAnalyzing}
+                />
+              </div>
+
               <button
-                onClick={handleAnalyze}
+                onClick={() => handleAnalyze()}
                 disabled={isAnalyzeDisabled}
                 className={`px-8 py-3 rounded-lg font-semibold text-white transition-colors ${
                   isAnalyzeDisabled
@@ -293,15 +1797,56 @@ export default function Home() {
               >
                 {isAnalyzing
                   ? "분석 중..."
-                  : isLoadingModels
+                  : !isModelsLoaded
                   ? "모델 로딩 중..."
                   : "내 얼굴이 나온 사진 찾기"}
               </button>
 
+              {isAnalyzing && (
+                <button
+                  onClick={handleCancelAnalysis}
+                  className="ml-2 px-6 py-3 rounded-lg font-semibold text-red-600 border border-red-300 hover:bg-red-50 transition-colors"
+                >
+                  분석 중지
+                </button>
+              )}
+
+              {!isAnalyzing && failedPhotoCount > 0 && (
+                <button
+                  onClick={() => handleAnalyze(true)}
+                  disabled={isAnalyzeDisabled}
+                  className="ml-2 px-6 py-3 rounded-lg font-semibold text-orange-600 border border-orange-300 hover:bg-orange-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  실패한 사진 다시 시도 ({failedPhotoCount})
+                </button>
+              )}
+
+              <label className="ml-4 inline-flex items-center gap-2 text-sm text-gray-600">
+                동시 검출 Worker
+                <select
+                  value={workerCount ?? "auto"}
+                  onChange={(e) =>
+                    setWorkerCount(
+                      e.target.value === "auto" ? null : Number(e.target.value)
+                    )
+                  }
+                  disabled={isAnalyzing}
+                  className="border border-gray-300 rounded px-2 py-1 text-black"
+                >
+                  <option value="auto">자동</option>
+                  {[1, 2, 3, 4].map((count) => (
+                    <option key={count} value={count}>
+                      {count}개
+                    </option>
+                  ))}
+                </select>
+              </label>
+
               {/* 진행 상태 */}
               {isAnalyzing && analysisProgress.total > 0 && (
                 <div className="mt-4">
-                  <p className="text-gray-700">
+                  <p className="flex items-center gap-2 text-gray-700">
+                    <span className="inline-block w-4 h-4 border-2 border-purple-600 border-t-transparent rounded-full animate-spin" />
                     사진 분석 중: {analysisProgress.current} /{" "}
                     {analysisProgress.total}
                   </p>
@@ -330,12 +1875,32 @@ export default function Home() {
             <section className="bg-white rounded-lg shadow-md p-6">
               <h2 className="text-2xl font-semibold mb-4 text-black">결과</h2>
               <p className="text-gray-600 mb-6 text-black">
-                내 얼굴과 유사한 얼굴이 포함된 사진들입니다.
+                등록한 사람별로 얼굴이 포함된 사진들입니다.
               </p>
 
+              {matchResults && (
+                <div className="mb-6 p-4 bg-gray-50 rounded-lg">
+                  <ThresholdControl
+                    threshold={threshold}
+                    onChange={handleThresholdChange}
+                    distances={nearestDistances}
+                    minQuality={minQuality}
+                    onMinQualityChange={handleMinQualityChange}
+                    excludedCount={lowQualityFaceCount}
+                  />
+                </div>
+              )}
+
               <ResultGallery
-                results={matchResults}
-                onImageClick={setSelectedImageUrl}
+                gallery={matchResults}
+                people={people}
+                onResultClick={(result, results) => {
+                  setSelectedResult(result);
+                  setSelectedResults(results);
+                }}
+                onConfirm={handleResultConfirm}
+                onReject={handleResultReject}
+                onUndoCorrection={handleCorrectionUndo}
               />
             </section>
           </>
@@ -344,8 +1909,13 @@ export default function Home() {
             {/* 실시간 얼굴 추적 */}
             <section className="bg-white rounded-lg shadow-md p-6">
               <LiveFaceTracker
-                isModelsLoaded={isModelsLoaded}
+                isModelsLoaded={isLiveModelsLoaded}
                 onCaptureFace={handleCaptureFace}
+                people={people}
+                references={toLabeledReferences(people)}
+                threshold={threshold}
+                strategy={matchStrategy}
+                alignFaces={alignFaces}
               />
             </section>
           </>
@@ -354,9 +1924,25 @@ export default function Home() {
 
       {/* 이미지 모달 */}
       <ImageModal
-        imageUrl={selectedImageUrl}
-        onClose={() => setSelectedImageUrl(null)}
+        result={selectedResult}
+        results={selectedResults}
+        onNavigate={setSelectedResult}
+        onClose={() => setSelectedResult(null)}
       />
+
+      {/* 놓친 얼굴 추가 모달 */}
+      {faceEditPhoto && (
+        <FaceRegionEditor
+          key={faceEditPhoto.id}
+          photo={faceEditPhoto}
+          people={people}
+          defaultPersonId={activePerson.id}
+          onAdd={(region, personId) =>
+            handleManualFaceAdd(faceEditPhoto.id, region, personId)
+          }
+          onClose={() => setFaceEditPhotoId(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,74 @@
+/**
+ * 정렬된 얼굴 chip 디버그 보기 컴포넌트
+ * - 사진 속 얼굴마다 descriptor 추출에 쓰는 정렬된 얼굴(150px chip)을 표시
+ * - 기울기(roll) 각도를 함께 표시해서 얼굴 정렬 효과를 눈으로 확인
+ */
+
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { ALIGNED_FACE_SIZE, drawAlignedFace } from '@/lib/faceAlignment';
+import { MarathonPhoto } from '@/lib/types';
+
+interface AlignedFaceChipsProps {
+  photo: MarathonPhoto;
+  highlightIndex?: number;
+}
+
+export default function AlignedFaceChips({
+  photo,
+  highlightIndex,
+}: AlignedFaceChipsProps) {
+  const canvasRefs = useRef<Array<HTMLCanvasElement | null>>([]);
+
+  // 원본 이미지를 불러와서 얼굴마다 chip 그리기
+  useEffect(() => {
+    const img = document.createElement('img');
+    img.onload = () => {
+      photo.faces.forEach((face, index) => {
+        const ctx = canvasRefs.current[index]?.getContext('2d');
+        if (ctx && face.alignment) {
+          drawAlignedFace(ctx, img, face.alignment);
+        }
+      });
+    };
+    img.src = photo.imageUrl;
+
+    return () => {
+      img.onload = null;
+    };
+  }, [photo]);
+
+  const alignedFaces = photo.faces.filter((face) => face.alignment);
+  if (alignedFaces.length === 0) {
+    return (
+      <p className="text-sm text-white/70">
+        정렬 정보가 없습니다. 사진을 다시 분석하면 표시됩니다.
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap gap-3">
+      {photo.faces.map((face, index) =>
+        face.alignment ? (
+          <div key={index} className="text-center text-xs text-white">
+            <canvas
+              ref={(canvas) => {
+                canvasRefs.current[index] = canvas;
+              }}
+              width={ALIGNED_FACE_SIZE}
+              height={ALIGNED_FACE_SIZE}
+              className={`w-24 h-24 rounded border-2 ${
+                index === highlightIndex ? 'border-green-500' : 'border-white/30'
+              }`}
+            />
+            <p className="mt-1">
+              #{index + 1} 기울기 {Math.round(face.alignment.roll)}°
+            </p>
+          </div>
+        ) : null
+      )}
+    </div>
+  );
+}
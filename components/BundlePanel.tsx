@@ -0,0 +1,93 @@
+/**
+ * 분석 결과 내보내기/가져오기 컴포넌트
+ * - JSON manifest 또는 ZIP(원본 + 얼굴 크롭 포함)으로 내보내기
+ * - ZIP 또는 JSON + 원본 사진들을 선택해 가져오기
+ */
+
+'use client';
+
+import { useRef, useState } from 'react';
+
+interface BundlePanelProps {
+  canExport: boolean;
+  isBusy: boolean;
+  onExportJson: () => void;
+  onExportZip: (includeAllOriginals: boolean) => void;
+  onImport: (files: File[]) => void;
+}
+
+export default function BundlePanel({
+  canExport,
+  isBusy,
+  onExportJson,
+  onExportZip,
+  onImport,
+}: BundlePanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [includeAllOriginals, setIncludeAllOriginals] = useState(true);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (files.length > 0) {
+      onImport(files);
+    }
+
+    // input 초기화 (같은 파일 다시 선택 가능하도록)
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const buttonClass = (enabled: boolean) =>
+    `px-4 py-2 rounded-lg text-sm transition-colors ${
+      enabled
+        ? 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+        : 'bg-gray-100 text-gray-400 cursor-not-allowed'
+    }`;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-gray-700 font-semibold">결과 파일</span>
+      <button
+        onClick={onExportJson}
+        disabled={!canExport || isBusy}
+        className={buttonClass(canExport && !isBusy)}
+        title="검출 결과와 매칭 점수만 JSON으로 저장"
+      >
+        JSON 내보내기
+      </button>
+      <button
+        onClick={() => onExportZip(includeAllOriginals)}
+        disabled={!canExport || isBusy}
+        className={buttonClass(canExport && !isBusy)}
+        title="manifest와 원본 사진, 기준 사진, 매칭된 얼굴 크롭을 ZIP으로 저장"
+      >
+        ZIP 내보내기
+      </button>
+      <label className="flex items-center gap-1 text-sm text-gray-600">
+        <input
+          type="checkbox"
+          checked={includeAllOriginals}
+          onChange={(e) => setIncludeAllOriginals(e.target.checked)}
+        />
+        매칭되지 않은 사진 원본도 포함
+      </label>
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isBusy}
+        className={buttonClass(!isBusy)}
+        title="ZIP 1개 또는 JSON + 원본 사진들을 함께 선택"
+      >
+        가져오기
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        multiple
+        accept=".zip,.json,image/*"
+        onChange={handleFileChange}
+        className="hidden"
+      />
+    </div>
+  );
+}
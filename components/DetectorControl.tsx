@@ -0,0 +1,127 @@
+/**
+ * 얼굴 검출기 선택 컴포넌트 (품질 vs 속도)
+ * - 빠르게: TinyFaceDetector (작은 inputSize)
+ * - 균형: TinyFaceDetector (기본값)
+ * - 정확하게: SSD MobileNet v1 (멀리 있는 작은 얼굴도 검출, 느림)
+ * - 고해상도 분할 검출: 원본을 겹치는 타일로 나눠 검출 (단체 사진 뒷줄의 작은 얼굴용)
+ * - 표정 / 나이·성별 분석 켜고 끄기 (끄면 해당 모델을 로드하지 않고 검출도 빨라짐)
+ * - 얼굴 정렬: 기울어진 얼굴을 눈 위치 기준으로 바로 세운 뒤 descriptor 추출
+ */
+
+'use client';
+
+import { isSameDetector } from '@/lib/detectors';
+import { DetectorOptions } from '@/lib/types';
+
+interface DetectorControlProps {
+  detector: DetectorOptions;
+  onChange: (detector: DetectorOptions) => void;
+  tiled: boolean;
+  onTiledChange: (tiled: boolean) => void;
+  withExpressions: boolean;
+  onWithExpressionsChange: (enabled: boolean) => void;
+  withAgeGender: boolean;
+  onWithAgeGenderChange: (enabled: boolean) => void;
+  alignFaces: boolean;
+  onAlignFacesChange: (enabled: boolean) => void;
+  disabled?: boolean;
+}
+
+export const DETECTOR_PRESETS: Array<{
+  label: string;
+  description: string;
+  detector: DetectorOptions;
+}> = [
+  {
+    label: '빠르게',
+    description: 'TinyFaceDetector 320px',
+    detector: { kind: 'tiny', inputSize: 320, scoreThreshold: 0.5 },
+  },
+  {
+    label: '균형',
+    description: 'TinyFaceDetector 416px',
+    detector: { kind: 'tiny', inputSize: 416, scoreThreshold: 0.5 },
+  },
+  {
+    label: '정확하게',
+    description: 'SSD MobileNet v1 (작은 얼굴도 검출, 느림)',
+    detector: { kind: 'ssd', minConfidence: 0.5 },
+  },
+];
+
+export default function DetectorControl({
+  detector,
+  onChange,
+  tiled,
+  onTiledChange,
+  withExpressions,
+  onWithExpressionsChange,
+  withAgeGender,
+  onWithAgeGenderChange,
+  alignFaces,
+  onAlignFacesChange,
+  disabled = false,
+}: DetectorControlProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-gray-700 font-semibold">검출 품질</span>
+      {DETECTOR_PRESETS.map((preset) => (
+        <button
+          key={preset.label}
+          onClick={() => onChange(preset.detector)}
+          disabled={disabled}
+          title={preset.description}
+          className={`px-3 py-1 rounded-lg text-sm transition-colors disabled:cursor-not-allowed ${
+            isSameDetector(detector, preset.detector)
+              ? 'bg-purple-600 text-white'
+              : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+          }`}
+        >
+          {preset.label}
+        </button>
+      ))}
+      <label
+        className="ml-2 flex items-center gap-1 text-sm text-gray-600"
+        title="원본 해상도에서 겹치는 타일로 나눠 검출합니다. 작은 얼굴을 더 찾지만 느려집니다."
+      >
+        <input
+          type="checkbox"
+          checked={tiled}
+          onChange={(e) => onTiledChange(e.target.checked)}
+          disabled={disabled}
+        />
+        고해상도 분할 검출 (작은 얼굴)
+      </label>
+      <label className="flex items-center gap-1 text-sm text-gray-600">
+        <input
+          type="checkbox"
+          checked={withExpressions}
+          onChange={(e) => onWithExpressionsChange(e.target.checked)}
+          disabled={disabled}
+        />
+        표정 분석
+      </label>
+      <label className="flex items-center gap-1 text-sm text-gray-600">
+        <input
+          type="checkbox"
+          checked={withAgeGender}
+          onChange={(e) => onWithAgeGenderChange(e.target.checked)}
+          disabled={disabled}
+        />
+        나이/성별 추정
+      </label>
+      <label
+        className="flex items-center gap-1 text-sm text-gray-600"
+        title="고개가 기울어진 얼굴을 두 눈이 수평이 되도록 돌린 뒤 비교합니다. 바꾸면 기준 사진과 대회 사진을 다시 분석합니다."
+      >
+        <input
+          type="checkbox"
+          checked={alignFaces}
+          onChange={(e) => onAlignFacesChange(e.target.checked)}
+          disabled={disabled}
+        />
+        얼굴 정렬 (기울어진 얼굴 보정)
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+/**
+ * 얼굴 자동 분류 결과 컴포넌트
+ * - 같은 사람으로 추정되는 얼굴 묶음을 대표 얼굴과 함께 표시
+ * - 묶음 이름 붙이기, 여러 묶음 합치기, 잘못 묶인 얼굴 분리
+ * - "이게 나예요" / "새 인물로 등록"으로 기준 사진 없이 인물 등록
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { FaceCluster, MarathonPhoto } from '@/lib/types';
+import { getFaceByRef } from '@/lib/clustering';
+import FaceThumbnail from './FaceThumbnail';
+
+interface FaceClustersProps {
+  clusters: FaceCluster[];
+  photos: MarathonPhoto[];
+  activePersonName: string;
+  onRename: (clusterId: string, name: string) => void;
+  onMerge: (clusterIds: string[]) => void;
+  onSplit: (clusterId: string, photoId: string, faceIndex: number) => void;
+  onAssignToActivePerson: (clusterId: string) => void;
+  onCreatePerson: (clusterId: string) => void;
+}
+
+export default function FaceClusters({
+  clusters,
+  photos,
+  activePersonName,
+  onRename,
+  onMerge,
+  onSplit,
+  onAssignToActivePerson,
+  onCreatePerson,
+}: FaceClustersProps) {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [showSingletons, setShowSingletons] = useState(false);
+
+  const visibleClusters = showSingletons
+    ? clusters
+    : clusters.filter((cluster) => cluster.faces.length > 1);
+  const singletonCount = clusters.length - clusters.filter((c) => c.faces.length > 1).length;
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]
+    );
+  };
+
+  const handleMerge = () => {
+    onMerge(selectedIds);
+    setSelectedIds([]);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <p className="text-gray-700">
+          <span className="font-semibold">{clusters.length}</span>개의 얼굴 묶음
+        </p>
+
+        {singletonCount > 0 && (
+          <label className="flex items-center gap-1 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={showSingletons}
+              onChange={(e) => setShowSingletons(e.target.checked)}
+            />
+            얼굴 1개짜리 묶음 {singletonCount}개도 보기
+          </label>
+        )}
+
+        {selectedIds.length >= 2 && (
+          <button
+            onClick={handleMerge}
+            className="px-4 py-2 bg-purple-600 text-white rounded-lg text-sm hover:bg-purple-700 transition-colors"
+          >
+            선택한 {selectedIds.length}개 묶음 합치기
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {visibleClusters.map((cluster) => {
+          const representativePhoto = photos.find(
+            (photo) => photo.id === cluster.representative.photoId
+          );
+          const representativeFace = getFaceByRef(photos, cluster.representative);
+          const photoIds = Array.from(new Set(cluster.faces.map((ref) => ref.photoId)));
+          const isExpanded = expandedId === cluster.id;
+
+          return (
+            <div
+              key={cluster.id}
+              className={`border rounded-lg p-3 ${
+                selectedIds.includes(cluster.id) ? 'border-purple-500 bg-purple-50' : 'border-gray-200'
+              }`}
+            >
+              <div className="flex gap-3">
+                {representativePhoto && representativeFace && (
+                  <FaceThumbnail
+                    imageUrl={representativePhoto.imageUrl}
+                    face={representativeFace}
+                    size={80}
+                    className="rounded-lg flex-shrink-0"
+                  />
+                )}
+
+                <div className="flex-1 min-w-0 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(cluster.id)}
+                      onChange={() => toggleSelected(cluster.id)}
+                      title="합칠 묶음으로 선택"
+                    />
+                    <input
+                      value={cluster.name}
+                      placeholder="이름 붙이기"
+                      onChange={(e) => onRename(cluster.id, e.target.value)}
+                      className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded text-sm text-black"
+                    />
+                  </div>
+                  <p className="text-xs text-gray-600">
+                    얼굴 {cluster.faces.length}개 · 사진 {photoIds.length}장
+                  </p>
+                  <div className="flex flex-wrap gap-1">
+                    <button
+                      onClick={() => onAssignToActivePerson(cluster.id)}
+                      className="px-2 py-1 bg-green-600 text-white rounded text-xs hover:bg-green-700 transition-colors"
+                      title={`${activePersonName || '이름 없음'}의 기준 사진으로 추가`}
+                    >
+                      이게 {activePersonName || '이름 없음'}예요
+                    </button>
+                    <button
+                      onClick={() => onCreatePerson(cluster.id)}
+                      className="px-2 py-1 bg-gray-100 text-gray-700 rounded text-xs hover:bg-gray-200 transition-colors"
+                    >
+                      새 인물로 등록
+                    </button>
+                    <button
+                      onClick={() => setExpandedId(isExpanded ? null : cluster.id)}
+                      className="px-2 py-1 bg-gray-100 text-gray-700 rounded text-xs hover:bg-gray-200 transition-colors"
+                    >
+                      {isExpanded ? '접기' : '얼굴 보기'}
+                    </button>
+                  </div>
+                </div>
+              </div>
+
+              {/* 묶음에 속한 얼굴들 (잘못 묶인 얼굴 분리) */}
+              {isExpanded && (
+                <div className="mt-3 flex flex-wrap gap-2">
+                  {cluster.faces.map((ref) => {
+                    const photo = photos.find((p) => p.id === ref.photoId);
+                    const face = getFaceByRef(photos, ref);
+                    if (!photo || !face) return null;
+
+                    return (
+                      <div key={`${ref.photoId}-${ref.faceIndex}`} className="relative group">
+                        <FaceThumbnail
+                          imageUrl={photo.imageUrl}
+                          face={face}
+                          size={56}
+                          className="rounded"
+                        />
+                        {cluster.faces.length > 1 && (
+                          <button
+                            onClick={() => onSplit(cluster.id, ref.photoId, ref.faceIndex)}
+                            className="absolute -top-1 -right-1 bg-red-500 text-white rounded-full w-5 h-5 text-xs flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
+                            title="이 묶음에서 분리"
+                          >
+                            ×
+                          </button>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              {/* 이 사람이 등장하는 사진들 */}
+              {isExpanded && (
+                <div className="mt-3 flex flex-wrap gap-1">
+                  {photoIds.map((photoId) => {
+                    const photo = photos.find((p) => p.id === photoId);
+                    if (!photo) return null;
+
+                    return (
+                      <img
+                        key={photoId}
+                        src={photo.imageUrl}
+                        alt="등장 사진"
+                        className="w-12 h-12 object-cover rounded"
+                      />
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+/**
+ * 얼굴 box가 표시된 확대/이동 가능한 이미지 컴포넌트
+ * - photo.faces의 모든 얼굴 box를 표시된 이미지 크기에 맞춰 그림
+ * - 매칭된 얼굴은 초록색, 선택한 얼굴은 파란색으로 강조
+ * - 마우스 휠 / 버튼으로 확대, 확대한 상태에서 드래그로 이동
+ * - 얼굴에 마우스를 올리거나 누르면 그 얼굴 정보 표시, box마다 다운로드 버튼
+ */
+
+'use client';
+
+import { useRef, useState } from 'react';
+import { getFaceBoxIn } from '@/lib/coordinates';
+import { MarathonPhoto } from '@/lib/types';
+
+interface FaceOverlayImageProps {
+  photo: MarathonPhoto;
+  matchedFaceIndex: number;
+  faceDistances: number[];
+  activeFaceIndex: number;
+  onFaceHover: (faceIndex: number | null) => void;
+  onFaceSelect: (faceIndex: number) => void;
+  onFaceDownload: (faceIndex: number) => void;
+}
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 6;
+const ZOOM_STEP = 1.25;
+// 이보다 많이 움직이면 클릭이 아니라 드래그로 처리 (px)
+const DRAG_THRESHOLD = 3;
+
+// box를 퍼센트 좌표로 표시하기 위한 기준 크기
+const PERCENT_SIZE = { width: 100, height: 100 };
+
+export default function FaceOverlayImage({
+  photo,
+  matchedFaceIndex,
+  faceDistances,
+  activeFaceIndex,
+  onFaceHover,
+  onFaceSelect,
+  onFaceDownload,
+}: FaceOverlayImageProps) {
+  const [zoom, setZoom] = useState(1);
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+  // 드래그 시작 위치 (포인터 위치 - 이동량)
+  const dragRef = useRef<{ x: number; y: number; moved: boolean } | null>(
+    null
+  );
+  const movedRef = useRef(false);
+
+  const changeZoom = (next: number) => {
+    const value = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, next));
+    setZoom(value);
+    // 원래 크기로 돌아오면 이동도 초기화
+    if (value === MIN_ZOOM) {
+      setOffset({ x: 0, y: 0 });
+    }
+  };
+
+  const handleWheel = (e: React.WheelEvent) => {
+    changeZoom(e.deltaY < 0 ? zoom * ZOOM_STEP : zoom / ZOOM_STEP);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    movedRef.current = false;
+    if (zoom === MIN_ZOOM) return;
+    dragRef.current = {
+      x: e.clientX - offset.x,
+      y: e.clientY - offset.y,
+      moved: false,
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    const next = { x: e.clientX - drag.x, y: e.clientY - drag.y };
+    if (
+      Math.abs(next.x - offset.x) > DRAG_THRESHOLD ||
+      Math.abs(next.y - offset.y) > DRAG_THRESHOLD
+    ) {
+      drag.moved = true;
+    }
+    if (drag.moved) {
+      setOffset(next);
+    }
+  };
+
+  const handlePointerUp = () => {
+    // 드래그가 끝난 직후의 클릭으로 얼굴이 선택되지 않도록 기록
+    movedRef.current = dragRef.current?.moved ?? false;
+    dragRef.current = null;
+  };
+
+  return (
+    <div className="relative">
+      <div
+        className={`overflow-hidden rounded-lg flex justify-center bg-black/40 select-none ${
+          zoom > MIN_ZOOM ? 'cursor-grab active:cursor-grabbing' : ''
+        }`}
+        onWheel={handleWheel}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+      >
+        <div
+          className="relative"
+          style={{
+            transform: `translate(${offset.x}px, ${offset.y}px) scale(${zoom})`,
+          }}
+        >
+          <img
+            src={photo.imageUrl}
+            alt="확대된 이미지"
+            className="block max-w-full max-h-[70vh]"
+            draggable={false}
+          />
+
+          {/* 얼굴 box (퍼센트 좌표라 이미지 표시 크기와 관계없이 맞음) */}
+          {photo.faces.map((face, index) => {
+            const box = getFaceBoxIn(face, PERCENT_SIZE);
+            const isMatched = index === matchedFaceIndex;
+            const isActive = index === activeFaceIndex;
+            const distance = faceDistances[index];
+
+            return (
+              <div
+                key={index}
+                className={`group absolute cursor-pointer ${
+                  isActive
+                    ? 'border-blue-400'
+                    : isMatched
+                    ? 'border-green-500'
+                    : 'border-white/70'
+                }`}
+                style={{
+                  left: `${box.x}%`,
+                  top: `${box.y}%`,
+                  width: `${box.width}%`,
+                  height: `${box.height}%`,
+                  // 확대해도 테두리 두께는 그대로 보이도록
+                  borderWidth: `${(isActive || isMatched ? 3 : 2) / zoom}px`,
+                }}
+                onMouseEnter={() => onFaceHover(index)}
+                onMouseLeave={() => onFaceHover(null)}
+                onClick={() => {
+                  if (!movedRef.current) onFaceSelect(index);
+                }}
+              >
+                {/* 얼굴 번호와 거리 */}
+                <span
+                  className={`absolute bottom-full left-0 mb-0.5 px-1 rounded text-xs text-white whitespace-nowrap origin-bottom-left ${
+                    isMatched ? 'bg-green-500' : 'bg-black/60'
+                  }`}
+                  style={{ transform: `scale(${1 / zoom})` }}
+                >
+                  #{index + 1}
+                  {distance !== undefined && Number.isFinite(distance)
+                    ? ` · ${distance.toFixed(3)}`
+                    : ''}
+                </span>
+
+                {/* 이 얼굴 다운로드 */}
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onFaceDownload(index);
+                  }}
+                  className={`absolute top-0 left-full ml-0.5 bg-blue-500 text-white rounded px-1 text-xs origin-top-left hover:bg-blue-600 ${
+                    isActive ? 'block' : 'hidden group-hover:block'
+                  }`}
+                  style={{ transform: `scale(${1 / zoom})` }}
+                  title="이 얼굴 다운로드"
+                >
+                  ⬇
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* 확대 버튼 */}
+      <div className="absolute bottom-2 right-2 flex items-center gap-1 bg-black/60 rounded-full px-2 py-1 text-white text-sm">
+        <button
+          onClick={() => changeZoom(zoom / ZOOM_STEP)}
+          disabled={zoom === MIN_ZOOM}
+          className="w-6 h-6 rounded-full hover:bg-white/20 disabled:opacity-40"
+          title="축소"
+        >
+          −
+        </button>
+        <button
+          onClick={() => changeZoom(MIN_ZOOM)}
+          className="px-1 font-mono hover:underline"
+          title="원래 크기"
+        >
+          {Math.round(zoom * 100)}%
+        </button>
+        <button
+          onClick={() => changeZoom(zoom * ZOOM_STEP)}
+          disabled={zoom === MAX_ZOOM}
+          className="w-6 h-6 rounded-full hover:bg-white/20 disabled:opacity-40"
+          title="확대"
+        >
+          +
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,91 +1,302 @@
 /**
- * 기준 얼굴 사진 미리보기 컴포넌트
- * - 단일 파일 업로드
- * - 업로드된 사진 미리보기
+ * 기준 얼굴 사진(인물 프로필) 미리보기 컴포넌트
+ * - 여러 장의 기준 사진 업로드 (웹캠 캡처 포함)
+ * - 업로드된 사진 미리보기 및 개별 삭제
+ * - 기준 사진 확인 (얼굴 수, 크기, 선명도, 정면, 눈) 결과와 개선 안내 표시
+ * - 여러 얼굴이 있는 사진에서는 이 사람의 얼굴을 직접 선택
+ * - 여러 기준 사진을 매칭에 사용하는 방식 선택
  */
 
 "use client";
 
-import { useRef } from "react";
+import { useRef, useState } from "react";
+import { checkReference, ReferenceCheck } from "@/lib/referenceCheck";
+import { MatchStrategy, ReferencePhoto } from "@/lib/types";
 
 interface FacePreviewProps {
-  referencePhoto: { imageUrl: string; file: File } | null;
-  onPhotoChange: (file: File | null) => void;
+  personName: string;
+  references: ReferencePhoto[];
+  onReferencesAdd: (files: File[]) => void;
+  onReferenceRemove: (id: string) => void;
+  onReferenceFaceSelect: (id: string, faceIndex: number) => void;
+  strategy: MatchStrategy;
+  onStrategyChange: (strategy: MatchStrategy) => void;
 }
 
+// 확인 결과별 테두리 색과 표시
+const CHECK_STYLES: Record<
+  ReferenceCheck["status"],
+  { border: string; badge: string; label: string }
+> = {
+  checking: { border: "border-gray-300", badge: "bg-gray-500", label: "확인 중" },
+  error: { border: "border-red-500", badge: "bg-red-500", label: "얼굴 없음" },
+  warning: { border: "border-yellow-500", badge: "bg-yellow-500", label: "확인 필요" },
+  ok: { border: "border-green-500", badge: "bg-green-500", label: "좋음" },
+};
+
+const STRATEGY_OPTIONS: Array<{
+  value: MatchStrategy;
+  label: string;
+  description: string;
+}> = [
+  {
+    value: "min",
+    label: "가장 가까운 사진",
+    description: "기준 사진 중 하나라도 비슷하면 매칭합니다.",
+  },
+  {
+    value: "mean",
+    label: "평균 얼굴",
+    description: "기준 사진들의 평균 얼굴과 비교합니다.",
+  },
+  {
+    value: "knn",
+    label: "다수결 (k=3)",
+    description: "가장 가까운 3장 중 과반이 비슷해야 매칭합니다.",
+  },
+];
+
 export default function FacePreview({
-  referencePhoto,
-  onPhotoChange,
+  personName,
+  references,
+  onReferencesAdd,
+  onReferenceRemove,
+  onReferenceFaceSelect,
+  strategy,
+  onStrategyChange,
 }: FacePreviewProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // 확인 결과를 자세히 보고 있는 기준 사진
+  const [openReferenceId, setOpenReferenceId] = useState<string | null>(null);
+  const openReference = references.find((r) => r.id === openReferenceId);
+  const openCheck = openReference ? checkReference(openReference) : null;
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      onPhotoChange(file);
+    const files = Array.from(e.target.files || []);
+    if (files.length > 0) {
+      onReferencesAdd(files);
     }
-  };
-
-  const handleClick = () => {
-    fileInputRef.current?.click();
-  };
 
-  const handleRemove = () => {
-    onPhotoChange(null);
+    // input 초기화 (같은 파일 다시 선택 가능하도록)
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
     }
   };
 
+  const handleClick = () => {
+    fileInputRef.current?.click();
+  };
+
   return (
     <div className="space-y-4">
       <div>
-        <h2 className="text-xl font-semibold mb-2 text-black">
-          2. 본인의 얼굴이 잘 나온 기준 사진 1장을 업로드 해 주세요
-        </h2>
+        <h3 className="text-lg font-semibold mb-2 text-black">
+          {personName || "이름 없음"}의 얼굴이 잘 나온 기준 사진
+        </h3>
         <p className="text-gray-600 text-sm mb-4 text-black">
-          얼굴이 정면으로 잘 나온 사진을 사용하면 더 정확한 결과를 얻을 수
-          있습니다.
+          조명, 각도가 다른 사진을 여러 장 등록하면 더 정확한 결과를 얻을 수
+          있습니다. 실시간 추적 탭에서 웹캠으로 캡처한 얼굴도 추가됩니다.
         </p>
 
         <button
           onClick={handleClick}
           className="px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
         >
-          내 얼굴 사진 선택
+          기준 사진 추가
         </button>
 
         <input
           ref={fileInputRef}
           type="file"
+          multiple
           accept="image/*"
           onChange={handleFileChange}
           className="hidden"
         />
       </div>
 
-      {referencePhoto && (
-        <div className="inline-block">
-          <div className="relative group">
-            <div className="w-48 h-48 bg-gray-100 rounded-lg overflow-hidden border-2 border-green-500">
-              <img
-                src={referencePhoto.imageUrl}
-                alt="기준 얼굴 사진"
-                className="w-full h-full object-cover"
-              />
-            </div>
+      {references.length > 0 && (
+        <div>
+          <p className="text-gray-700 mb-3">
+            기준 사진 <span className="font-semibold">{references.length}</span>
+            장
+          </p>
 
-            {/* 삭제 버튼 */}
-            <button
-              onClick={handleRemove}
-              className="absolute top-2 right-2 bg-red-500 text-white rounded-full w-8 h-8 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity hover:bg-red-600"
-              title="삭제"
-            >
-              ×
-            </button>
+          <div className="flex flex-wrap gap-4">
+            {references.map((reference, index) => {
+              const check = checkReference(reference);
+              const style = check ? CHECK_STYLES[check.status] : null;
+
+              return (
+                <div key={reference.id} className="relative group">
+                  <button
+                    onClick={() =>
+                      setOpenReferenceId(
+                        openReferenceId === reference.id ? null : reference.id
+                      )
+                    }
+                    className={`block w-32 h-32 bg-gray-100 rounded-lg overflow-hidden border-2 ${
+                      style?.border ?? "border-green-500"
+                    } ${openReferenceId === reference.id ? "ring-2 ring-offset-2 ring-blue-500" : ""}`}
+                    title="확인 결과 보기"
+                  >
+                    <img
+                      src={reference.imageUrl}
+                      alt="기준 얼굴 사진"
+                      className="w-full h-full object-cover"
+                    />
+                  </button>
+
+                  {/* 확인 결과 */}
+                  {check && style && (
+                    <span
+                      className={`absolute bottom-7 left-1 px-2 py-0.5 rounded-full text-xs text-white ${style.badge}`}
+                    >
+                      {check.status === "warning"
+                        ? `⚠ ${check.messages.length}`
+                        : style.label}
+                    </span>
+                  )}
+
+                  {/* 삭제 버튼 */}
+                  <button
+                    onClick={() => onReferenceRemove(reference.id)}
+                    className="absolute top-2 right-2 bg-red-500 text-white rounded-full w-6 h-6 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity hover:bg-red-600"
+                    title="삭제"
+                  >
+                    ×
+                  </button>
+
+                  <p className="text-xs text-gray-600 mt-1">
+                    #{index + 1}{" "}
+                    {reference.source === "webcam"
+                      ? "📷 웹캠"
+                      : reference.source === "confirmed"
+                      ? "✓ 결과에서 확인"
+                      : "업로드"}
+                  </p>
+                </div>
+              );
+            })}
           </div>
 
-          <p className="text-sm text-gray-600 mt-2">기준 사진</p>
+          {/* 기준 사진 확인 결과 자세히 보기 */}
+          {openReference && openCheck && (
+            <div className="mt-4 p-4 bg-gray-50 rounded-lg flex flex-col md:flex-row gap-4">
+              {/* 검출된 얼굴 (여러 개면 눌러서 선택) */}
+              <div className="relative self-start max-w-xs">
+                <img
+                  src={openReference.imageUrl}
+                  alt="기준 사진 확인"
+                  className="block w-full h-auto rounded"
+                />
+                {openReference.faces?.map((face, faceIndex) => {
+                  const isSelected =
+                    faceIndex === (openReference.selectedFaceIndex ?? 0);
+                  const { box, sourceSize } = face;
+
+                  return (
+                    <button
+                      key={faceIndex}
+                      onClick={() =>
+                        onReferenceFaceSelect(openReference.id, faceIndex)
+                      }
+                      disabled={openReference.faces!.length === 1}
+                      className={`absolute border-2 ${
+                        isSelected
+                          ? "border-green-500"
+                          : "border-white/80 border-dashed hover:border-green-300"
+                      }`}
+                      style={{
+                        left: `${(box.x / sourceSize.width) * 100}%`,
+                        top: `${(box.y / sourceSize.height) * 100}%`,
+                        width: `${(box.width / sourceSize.width) * 100}%`,
+                        height: `${(box.height / sourceSize.height) * 100}%`,
+                      }}
+                      title={isSelected ? "사용 중인 얼굴" : "이 얼굴 사용"}
+                    >
+                      <span
+                        className={`absolute -top-5 left-0 px-1 text-xs text-white rounded ${
+                          isSelected ? "bg-green-500" : "bg-black/60"
+                        }`}
+                      >
+                        {faceIndex + 1}
+                      </span>
+                    </button>
+                  );
+                })}
+              </div>
+
+              <div className="flex-1 space-y-3">
+                {openCheck.status === "checking" ? (
+                  <p className="text-gray-600 text-sm">기준 사진을 확인하는 중...</p>
+                ) : (
+                  <>
+                    {openCheck.items.length > 0 && (
+                      <ul className="flex flex-wrap gap-2">
+                        {openCheck.items.map((item) => (
+                          <li
+                            key={item.label}
+                            className={`px-2 py-1 rounded text-sm ${
+                              item.passed
+                                ? "bg-green-100 text-green-700"
+                                : "bg-yellow-100 text-yellow-800"
+                            }`}
+                          >
+                            {item.passed ? "✓" : "⚠"} {item.label}
+                            {item.value && (
+                              <span className="ml-1 text-xs opacity-70">
+                                {item.value}
+                              </span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+
+                    {openCheck.messages.length > 0 ? (
+                      <ul className="list-disc pl-5 space-y-1 text-sm text-gray-700">
+                        {openCheck.messages.map((message) => (
+                          <li key={message}>{message}</li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="text-sm text-green-700">
+                        매칭에 사용하기 좋은 기준 사진입니다.
+                      </p>
+                    )}
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* 여러 기준 사진 매칭 방식 */}
+      {references.length > 1 && (
+        <div>
+          <p className="text-gray-700 mb-2 font-semibold">매칭 방식</p>
+          <div className="flex flex-wrap gap-2">
+            {STRATEGY_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => onStrategyChange(option.value)}
+                title={option.description}
+                className={`px-4 py-2 rounded-lg text-sm transition-colors ${
+                  strategy === option.value
+                    ? "bg-green-600 text-white"
+                    : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-gray-500 text-xs mt-2">
+            {STRATEGY_OPTIONS.find((option) => option.value === strategy)
+              ?.description}
+          </p>
         </div>
       )}
     </div>
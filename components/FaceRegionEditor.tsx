@@ -0,0 +1,233 @@
+/**
+ * 놓친 얼굴 직접 추가 모달 컴포넌트
+ * - 사진 위에 이미 찾은 얼굴 box 표시
+ * - 드래그로 검출기가 놓친 얼굴 영역 지정
+ * - 지정한 영역에서만 descriptor를 추출해서 사진의 얼굴로 추가
+ * - 누구의 얼굴인지 고르면 그 사람으로 확인 (기준 사진에도 추가)
+ * - backdrop 클릭 or ESC 키로 닫기
+ */
+
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { getFaceBoxIn } from '@/lib/coordinates';
+import { BoundingBox, MarathonPhoto, PersonProfile } from '@/lib/types';
+
+interface FaceRegionEditorProps {
+  photo: MarathonPhoto;
+  people: PersonProfile[];
+  defaultPersonId: string;
+  onAdd: (region: BoundingBox, personId: string | null) => Promise<void>;
+  onClose: () => void;
+}
+
+// 이보다 작은 영역은 얼굴로 추출하지 않음 (원본 픽셀)
+const MIN_REGION_SIZE = 20;
+
+// box를 퍼센트 좌표로 표시하기 위한 기준 크기
+const PERCENT_SIZE = { width: 100, height: 100 };
+
+export default function FaceRegionEditor({
+  photo,
+  people,
+  defaultPersonId,
+  onAdd,
+  onClose,
+}: FaceRegionEditorProps) {
+  const imageRef = useRef<HTMLImageElement>(null);
+  // 드래그 시작 위치 (퍼센트 좌표)
+  const dragStartRef = useRef<{ x: number; y: number } | null>(null);
+  // 지정한 영역 (퍼센트 좌표)
+  const [region, setRegion] = useState<BoundingBox | null>(null);
+  const [personId, setPersonId] = useState(defaultPersonId);
+  const [isAdding, setIsAdding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // ESC 키로 모달 닫기
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    // 모달이 열릴 때 body 스크롤 방지
+    document.body.style.overflow = 'hidden';
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      document.body.style.overflow = 'unset';
+    };
+  }, [onClose]);
+
+  // 포인터 위치를 이미지 기준 퍼센트 좌표로 변환 (이미지 밖은 가장자리로)
+  const toPercent = (e: React.PointerEvent) => {
+    const rect = imageRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(100, Math.max(0, ((e.clientX - rect.left) / rect.width) * 100)),
+      y: Math.min(100, Math.max(0, ((e.clientY - rect.top) / rect.height) * 100)),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (isAdding) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStartRef.current = toPercent(e);
+    setRegion(null);
+    setError(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const start = dragStartRef.current;
+    if (!start) return;
+
+    const point = toPercent(e);
+    setRegion({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragStartRef.current = null;
+  };
+
+  // 퍼센트 영역을 원본 픽셀 좌표로 바꿔서 추가
+  const handleAdd = async () => {
+    const image = imageRef.current;
+    if (!region || !image) return;
+
+    const scaleX = image.naturalWidth / 100;
+    const scaleY = image.naturalHeight / 100;
+    const sourceRegion = {
+      x: Math.round(region.x * scaleX),
+      y: Math.round(region.y * scaleY),
+      width: Math.round(region.width * scaleX),
+      height: Math.round(region.height * scaleY),
+    };
+
+    if (
+      sourceRegion.width < MIN_REGION_SIZE ||
+      sourceRegion.height < MIN_REGION_SIZE
+    ) {
+      setError(`얼굴 영역이 너무 작습니다. ${MIN_REGION_SIZE}px 이상으로 지정해 주세요.`);
+      return;
+    }
+
+    setIsAdding(true);
+    setError(null);
+    try {
+      await onAdd(sourceRegion, personId || null);
+      onClose();
+    } catch (addError) {
+      console.error('얼굴 추가 실패:', addError);
+      setError('이 영역에서 얼굴을 추출하지 못했습니다. 얼굴이 가운데에 오도록 다시 지정해 주세요.');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-75 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="relative max-w-5xl w-full bg-white rounded-lg p-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="font-semibold text-black">놓친 얼굴 추가</h3>
+          <button
+            onClick={onClose}
+            className="text-gray-500 text-2xl hover:text-gray-800"
+            title="닫기 (ESC)"
+          >
+            ×
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-3">
+          찾지 못한 얼굴을 드래그해서 지정해 주세요. 이미 찾은 얼굴은 흰색 box로 표시됩니다.
+        </p>
+
+        <div className="flex justify-center bg-gray-900 rounded-lg overflow-hidden">
+          <div
+            className="relative select-none cursor-crosshair touch-none"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+          >
+            <img
+              ref={imageRef}
+              src={photo.imageUrl}
+              alt="얼굴을 추가할 사진"
+              className="block max-w-full max-h-[65vh]"
+              draggable={false}
+            />
+
+            {/* 이미 찾은 얼굴 */}
+            {photo.faces.map((face, index) => {
+              const box = getFaceBoxIn(face, PERCENT_SIZE);
+              return (
+                <div
+                  key={index}
+                  className="absolute border-2 border-white/70 pointer-events-none"
+                  style={{
+                    left: `${box.x}%`,
+                    top: `${box.y}%`,
+                    width: `${box.width}%`,
+                    height: `${box.height}%`,
+                  }}
+                />
+              );
+            })}
+
+            {/* 지정한 영역 */}
+            {region && (
+              <div
+                className="absolute border-2 border-blue-400 bg-blue-400/20 pointer-events-none"
+                style={{
+                  left: `${region.x}%`,
+                  top: `${region.y}%`,
+                  width: `${region.width}%`,
+                  height: `${region.height}%`,
+                }}
+              />
+            )}
+          </div>
+        </div>
+
+        <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+          <label className="flex items-center gap-2 text-gray-700">
+            누구의 얼굴인가요?
+            <select
+              value={personId}
+              onChange={(e) => setPersonId(e.target.value)}
+              className="border border-gray-300 rounded px-2 py-1 text-black"
+            >
+              {people.map((person) => (
+                <option key={person.id} value={person.id}>
+                  {person.name || '이름 없음'}
+                </option>
+              ))}
+              <option value="">모름 (자동 매칭)</option>
+            </select>
+          </label>
+
+          <button
+            onClick={handleAdd}
+            disabled={!region || isAdding}
+            className="ml-auto px-4 py-2 rounded-lg font-semibold text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            {isAdding ? '추출 중...' : '얼굴 추가'}
+          </button>
+        </div>
+
+        {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+/**
+ * 얼굴 썸네일 컴포넌트
+ * - 원본 사진에서 얼굴 영역만 잘라서 정사각형으로 표시
+ * - 캔버스 크롭 없이 CSS background로 표시하므로 많은 얼굴도 가볍게 렌더링
+ */
+
+'use client';
+
+import { DetectedFace } from '@/lib/types';
+import { mapBox, padBox } from '@/lib/coordinates';
+
+interface FaceThumbnailProps {
+  imageUrl: string;
+  face: Pick<DetectedFace, 'box' | 'sourceSize'>;
+  size?: number;
+  padding?: number;
+  className?: string;
+}
+
+export default function FaceThumbnail({
+  imageUrl,
+  face,
+  size = 96,
+  padding = 0.2,
+  className = '',
+}: FaceThumbnailProps) {
+  // 여백을 포함한 얼굴 영역이 썸네일을 가득 채우도록 배율 계산
+  const cropBox = padBox(face.box, padding, face.sourceSize);
+  const scale = size / Math.max(cropBox.width, cropBox.height, 1);
+  const scaledSize = {
+    width: face.sourceSize.width * scale,
+    height: face.sourceSize.height * scale,
+  };
+  const scaledBox = mapBox(cropBox, face.sourceSize, scaledSize);
+
+  return (
+    <div
+      className={`bg-gray-100 bg-no-repeat ${className}`}
+      style={{
+        width: size,
+        height: size,
+        backgroundImage: `url(${imageUrl})`,
+        backgroundSize: `${scaledSize.width}px ${scaledSize.height}px`,
+        backgroundPosition: `${-scaledBox.x}px ${-scaledBox.y}px`,
+      }}
+    />
+  );
+}
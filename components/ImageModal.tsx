@@ -1,49 +1,115 @@
 /**
  * 이미지 확대 모달 컴포넌트
- * - 클릭한 이미지를 크게 표시
+ * - 클릭한 매칭 결과의 이미지를 크게 표시
+ * - 사진 속 모든 얼굴 box 표시 (매칭된 얼굴 강조, 얼굴별 거리)
+ * - 얼굴에 마우스를 올리거나 누르면 표정, 나이, 성별, 품질 표시 및 크롭 다운로드
+ * - 확대/이동, 이전/다음 결과로 이동 (← → 키)
+ * - 디버그: descriptor 추출에 쓰는 정렬된 얼굴 chip 보기
  * - backdrop 클릭 or ESC 키로 닫기
  */
 
 'use client';
 
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
+import AlignedFaceChips from '@/components/AlignedFaceChips';
+import FaceOverlayImage from '@/components/FaceOverlayImage';
+import { QUALITY_BADGES } from '@/components/ResultGallery';
+import { MatchResult } from '@/lib/types';
+import {
+  downloadCroppedFaces,
+  getDominantExpression,
+  getExpressionEmoji,
+  getExpressionLabel,
+} from '@/lib/faceRecognition';
+import { getQualityIssue, getQualityLevel } from '@/lib/faceQuality';
 
 interface ImageModalProps {
-  imageUrl: string | null;
+  result: MatchResult | null;
+  results: MatchResult[];
+  onNavigate: (result: MatchResult) => void;
   onClose: () => void;
 }
 
-export default function ImageModal({ imageUrl, onClose }: ImageModalProps) {
-  // ESC 키로 모달 닫기
+export default function ImageModal({
+  result,
+  results,
+  onNavigate,
+  onClose,
+}: ImageModalProps) {
+  // 정렬된 얼굴 chip 표시 여부 (다른 결과를 열어도 유지)
+  const [showAligned, setShowAligned] = useState(false);
+  // 마우스를 올린 얼굴, 누른 얼굴 (누른 얼굴은 그 결과를 보는 동안만 유지)
+  const [hoveredFaceIndex, setHoveredFaceIndex] = useState<number | null>(
+    null
+  );
+  const [selection, setSelection] = useState<{
+    result: MatchResult;
+    faceIndex: number;
+  } | null>(null);
+
+  const currentIndex = result ? results.indexOf(result) : -1;
+  const previous = currentIndex > 0 ? results[currentIndex - 1] : null;
+  const next =
+    currentIndex >= 0 && currentIndex < results.length - 1
+      ? results[currentIndex + 1]
+      : null;
+
+  // ESC 키로 모달 닫기, ← → 키로 이전/다음 결과
   useEffect(() => {
-    const handleEscape = (e: KeyboardEvent) => {
+    const handleKeyDown = (e: KeyboardEvent) => {
       if (e.key === 'Escape') {
         onClose();
+      } else if (e.key === 'ArrowLeft' && previous) {
+        onNavigate(previous);
+      } else if (e.key === 'ArrowRight' && next) {
+        onNavigate(next);
       }
     };
 
-    if (imageUrl) {
-      document.addEventListener('keydown', handleEscape);
+    if (result) {
+      document.addEventListener('keydown', handleKeyDown);
       // 모달이 열릴 때 body 스크롤 방지
       document.body.style.overflow = 'hidden';
     }
 
     return () => {
-      document.removeEventListener('keydown', handleEscape);
+      document.removeEventListener('keydown', handleKeyDown);
       document.body.style.overflow = 'unset';
     };
-  }, [imageUrl, onClose]);
+  }, [result, previous, next, onNavigate, onClose]);
 
-  if (!imageUrl) {
+  if (!result) {
     return null;
   }
 
+  // 정보를 표시할 얼굴: 마우스를 올린 얼굴 > 누른 얼굴 > 매칭된 얼굴
+  const activeFaceIndex =
+    hoveredFaceIndex ??
+    (selection?.result === result
+      ? selection.faceIndex
+      : result.matchedFaceIndex);
+  const activeFace = result.photo.faces[activeFaceIndex] ?? null;
+  const isMatchedFace = activeFaceIndex === result.matchedFaceIndex;
+  const activeDistance = result.faceDistances[activeFaceIndex];
+  const dominantExpression = activeFace?.expressions
+    ? getDominantExpression(activeFace.expressions)
+    : null;
+  const qualityLevel = activeFace?.quality
+    ? getQualityLevel(activeFace.quality)
+    : null;
+  const qualityIssue = activeFace?.quality
+    ? getQualityIssue(activeFace.quality)
+    : null;
+
   return (
     <div
       className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-75 p-4"
       onClick={onClose}
     >
-      <div className="relative max-w-5xl max-h-[90vh] w-full">
+      <div
+        className="relative max-w-5xl max-h-[90vh] w-full"
+        onClick={(e) => e.stopPropagation()}
+      >
         {/* 닫기 버튼 */}
         <button
           onClick={onClose}
@@ -53,15 +119,128 @@ export default function ImageModal({ imageUrl, onClose }: ImageModalProps) {
           ×
         </button>
 
-        {/* 이미지 */}
-        <img
-          src={imageUrl}
-          alt="확대된 이미지"
-          className="w-full h-full object-contain rounded-lg"
-          onClick={(e) => e.stopPropagation()}
+        {/* 결과 위치 */}
+        {results.length > 1 && currentIndex >= 0 && (
+          <p className="absolute -top-9 left-0 text-white text-sm">
+            {currentIndex + 1} / {results.length}
+          </p>
+        )}
+
+        {/* 이미지 + 얼굴 box (결과가 바뀌면 확대 상태 초기화) */}
+        <FaceOverlayImage
+          key={`${result.photo.id}-${result.matchedFaceIndex}`}
+          photo={result.photo}
+          matchedFaceIndex={result.matchedFaceIndex}
+          faceDistances={result.faceDistances}
+          activeFaceIndex={activeFaceIndex}
+          onFaceHover={setHoveredFaceIndex}
+          onFaceSelect={(faceIndex) => setSelection({ result, faceIndex })}
+          onFaceDownload={(faceIndex) =>
+            downloadCroppedFaces(result.photo, faceIndex)
+          }
         />
+
+        {/* 이전 / 다음 결과 */}
+        {previous && (
+          <button
+            onClick={() => onNavigate(previous)}
+            className="absolute left-2 top-1/2 -translate-y-1/2 bg-black/50 text-white w-10 h-10 rounded-full text-2xl hover:bg-black/70"
+            title="이전 결과 (←)"
+          >
+            ‹
+          </button>
+        )}
+        {next && (
+          <button
+            onClick={() => onNavigate(next)}
+            className="absolute right-2 top-1/2 -translate-y-1/2 bg-black/50 text-white w-10 h-10 rounded-full text-2xl hover:bg-black/70"
+            title="다음 결과 (→)"
+          >
+            ›
+          </button>
+        )}
+
+        {/* 선택한 얼굴 정보 */}
+        {activeFace && (
+          <div className="mt-3 flex items-center gap-2 flex-wrap text-white text-sm">
+            {isMatchedFace ? (
+              <span className="bg-green-500 px-3 py-1 rounded-full font-semibold">
+                {Math.round(result.score * 100)}% (거리 {result.distance.toFixed(3)})
+              </span>
+            ) : (
+              activeDistance !== undefined &&
+              Number.isFinite(activeDistance) && (
+                <span className="bg-white/20 px-3 py-1 rounded-full">
+                  거리 {activeDistance.toFixed(3)}
+                </span>
+              )
+            )}
+
+            {result.photo.faces.length > 1 && (
+              <span className="bg-white/20 px-3 py-1 rounded-full">
+                {result.photo.faces.length}명 중 {activeFaceIndex + 1}번째 얼굴
+                {isMatchedFace && ' (매칭)'}
+              </span>
+            )}
+
+            {dominantExpression && activeFace.expressions && (
+              <span className="bg-white/20 px-3 py-1 rounded-full">
+                {getExpressionEmoji(dominantExpression)}{' '}
+                {getExpressionLabel(dominantExpression)}{' '}
+                {Math.round(activeFace.expressions[dominantExpression] * 100)}%
+              </span>
+            )}
+
+            {activeFace.age !== undefined && (
+              <span className="bg-white/20 px-3 py-1 rounded-full">
+                약 {Math.round(activeFace.age)}세
+              </span>
+            )}
+
+            {activeFace.gender && (
+              <span className="bg-white/20 px-3 py-1 rounded-full">
+                {activeFace.gender === 'male' ? '👨 남성' : '👩 여성'}
+              </span>
+            )}
+
+            {qualityLevel && activeFace.quality && (
+              <span
+                className={`${QUALITY_BADGES[qualityLevel].className} px-3 py-1 rounded-full`}
+              >
+                {QUALITY_BADGES[qualityLevel].label} (
+                {Math.round(activeFace.quality.score * 100)}점)
+                {qualityIssue && qualityLevel !== 'good' && ` · ${qualityIssue}`}
+              </span>
+            )}
+
+            <button
+              onClick={() => setShowAligned((prev) => !prev)}
+              className="ml-auto bg-white/20 px-4 py-1 rounded-full hover:bg-white/30 transition-colors"
+            >
+              {showAligned ? '정렬된 얼굴 숨기기' : '정렬된 얼굴 보기'}
+            </button>
+
+            <button
+              onClick={() =>
+                downloadCroppedFaces(result.photo, activeFaceIndex)
+              }
+              className="bg-blue-500 px-4 py-1 rounded-full hover:bg-blue-600 transition-colors"
+            >
+              이 얼굴 다운로드
+            </button>
+          </div>
+        )}
+
+        {/* 디버그: 정렬된 얼굴 chip */}
+        {showAligned && (
+          <div className="mt-3">
+            <AlignedFaceChips
+              photo={result.photo}
+              highlightIndex={activeFaceIndex}
+            />
+          </div>
+        )}
       </div>
     </div>
   );
 }
-
@@ -2,61 +2,290 @@
  * 실시간 얼굴 추적 컴포넌트
  * - 웹캠을 통한 실시간 얼굴 인식
  * - 표정, 나이, 성별 실시간 표시
+ * - 여러 얼굴을 프레임에 걸쳐 추적해서 고정 번호 부여 (얼굴별 정보 패널)
+ * - 표정, 나이, 성별을 여러 프레임에 걸쳐 평활화하고 신뢰구간으로 표시 (필터 설정 가능)
+ * - 검출 시간을 재서 목표 FPS에 맞게 입력 크기와 간격 조절 (탭이 숨겨지면 일시 정지, FPS/지연 표시)
+ * - 카메라 선택, 해상도/프레임레이트 프리셋, 좌우 반전 미리보기 (카메라 연결/분리, 권한 해제 처리)
  * - 얼굴 랜드마크 및 bounding box 시각화
- * - 현재 얼굴로 기준 사진 등록 기능
+ * - 등록된 사람 인식 (이름과 거리 표시, 여러 프레임 다수결로 안정화)
+ * - 현재 얼굴을 기준 사진으로 추가하는 기능
  */
 
 'use client';
 
 import { useEffect, useRef, useState } from 'react';
 import * as faceapi from 'face-api.js';
-import { getDominantExpression, getExpressionEmoji, getExpressionLabel } from '@/lib/faceRecognition';
+import {
+  computeDescriptors,
+  getExpressionEmoji,
+  getExpressionLabel,
+} from '@/lib/faceRecognition';
+import { loadModelsByName } from '@/lib/modelRegistry';
+import {
+  buildVideoConstraints,
+  CameraDevice,
+  CameraSettings,
+  DEFAULT_CAMERA_SETTINGS,
+  FRAME_RATE_PRESETS,
+  getCameraErrorMessage,
+  listCameras,
+  RESOLUTION_PRESETS,
+  ResolutionPreset,
+} from '@/lib/camera';
+import { mirrorBox } from '@/lib/coordinates';
+import { identifyFace } from '@/lib/liveRecognition';
+import {
+  createTrackerState,
+  FrameFace,
+  getVisibleTracks,
+  TrackedFace,
+  updateTracker,
+} from '@/lib/faceTracker';
+import {
+  createSchedulerState,
+  isFrameDue,
+  recordFrame,
+  resumeScheduler,
+  SchedulerState,
+  TARGET_FPS_OPTIONS,
+} from '@/lib/frameScheduler';
+import {
+  AgeFilter,
+  ConfidenceInterval,
+  DEFAULT_SMOOTHING_OPTIONS,
+  SmoothingOptions,
+} from '@/lib/temporalSmoothing';
+import { LabeledReferences, MatchStrategy, PersonProfile } from '@/lib/types';
 
 interface LiveFaceTrackerProps {
   isModelsLoaded: boolean;
   onCaptureFace: (file: File) => void;
+  // 인식에 사용할 등록된 사람들 (이름 표시용)과 기준 descriptor
+  people: PersonProfile[];
+  references: LabeledReferences[];
+  threshold: number;
+  strategy: MatchStrategy;
+  // 기준 사진과 같은 방식으로 descriptor를 추출하도록 매칭 탭의 얼굴 정렬 설정을 그대로 사용
+  alignFaces: boolean;
 }
 
+// 인식된 사람의 이름 (null = 미확인)
+const getPersonName = (people: PersonProfile[], personId: string | null) =>
+  personId
+    ? people.find((person) => person.id === personId)?.name || '이름 없음'
+    : null;
+
+// 신뢰구간을 "low~high" 형식으로 표시
+const formatInterval = (
+  interval: ConfidenceInterval | undefined,
+  format: (value: number) => number,
+  unit: string
+) =>
+  interval ? ` (${format(interval.low)}~${format(interval.high)}${unit})` : '';
+
+const toPercent = (value: number) => Math.round(value * 100);
+
 export default function LiveFaceTracker({
   isModelsLoaded,
   onCaptureFace,
+  people,
+  references,
+  threshold,
+  strategy,
+  alignFaces,
 }: LiveFaceTrackerProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
-  const animationFrameRef = useRef<number | null>(null);
+  // 현재 스트림의 카메라 권한 변경 리스너 해제 함수 (웹캠을 중지하거나 다시 시작할 때 해제)
+  const removePermissionListenerRef = useRef<(() => void) | null>(null);
+  // 검출 루프는 시작할 때의 함수로 계속 돌기 때문에 인식 설정은 ref로 최신 값을 읽음
+  const recognitionRef = useRef({
+    enabled: false,
+    people,
+    references,
+    threshold,
+    strategy,
+    alignFaces,
+  });
+  // 이전 프레임까지의 얼굴 추적 상태
+  const trackerRef = useRef(createTrackerState());
+  // 표정, 나이, 성별 평활화 설정 (검출 루프에서 최신 값을 읽도록 ref에도 보관)
+  const [smoothing, setSmoothing] = useState<SmoothingOptions>(
+    DEFAULT_SMOOTHING_OPTIONS
+  );
+  const smoothingRef = useRef(smoothing);
+  // 목표 FPS (검출 루프에서 최신 값을 읽도록 ref에도 보관)
+  const [targetFps, setTargetFps] = useState(10);
+  const targetFpsRef = useRef(targetFps);
+  // 카메라 설정 (좌우 반전은 검출 루프에서 그릴 때 쓰므로 ref에도 보관)
+  const [camera, setCamera] = useState<CameraSettings>(DEFAULT_CAMERA_SETTINGS);
+  const mirroredRef = useRef(camera.mirrored);
+  // 연결된 카메라 목록
+  const [cameras, setCameras] = useState<CameraDevice[]>([]);
   
   const [isStreaming, setIsStreaming] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [detectionInfo, setDetectionInfo] = useState<{
-    faceCount: number;
-    expression?: string;
-    expressionEmoji?: string;
-    expressionProb?: number;
-    age?: number;
-    gender?: string;
-  } | null>(null);
-
-  // 웹캠 시작
-  const startWebcam = async () => {
+  // 등록된 사람 인식 사용 여부
+  const [recognize, setRecognize] = useState(false);
+  // 이번 프레임에 보이는 얼굴들 (추적 번호순)
+  const [trackedFaces, setTrackedFaces] = useState<TrackedFace[] | null>(null);
+  // 검출 FPS, 지연 시간, 입력 크기 (마지막 프레임 기준)
+  const [stats, setStats] = useState<SchedulerState | null>(null);
+  // 탭이 숨겨져서 검출을 멈췄는지
+  const [isPaused, setIsPaused] = useState(false);
+
+  // 기준 descriptor가 있는 사람이 있어야 인식 가능
+  const canRecognize = references.some(
+    (person) => person.references.length > 0
+  );
+
+  useEffect(() => {
+    recognitionRef.current = {
+      enabled: recognize && canRecognize,
+      people,
+      references,
+      threshold,
+      strategy,
+      alignFaces,
+    };
+  }, [
+    recognize,
+    canRecognize,
+    people,
+    references,
+    threshold,
+    strategy,
+    alignFaces,
+  ]);
+
+  useEffect(() => {
+    smoothingRef.current = smoothing;
+  }, [smoothing]);
+
+  useEffect(() => {
+    targetFpsRef.current = targetFps;
+  }, [targetFps]);
+
+  useEffect(() => {
+    mirroredRef.current = camera.mirrored;
+  }, [camera.mirrored]);
+
+  // 카메라 목록 조회 (카메라를 연결하거나 분리할 때마다 다시 조회)
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices) return;
+
+    const refreshCameras = () => {
+      listCameras()
+        .then((devices) => {
+          setCameras(devices);
+          // 선택한 카메라가 분리되었으면 기본 카메라로
+          setCamera((prev) =>
+            !prev.deviceId ||
+            devices.some((device) => device.deviceId === prev.deviceId)
+              ? prev
+              : { ...prev, deviceId: '' }
+          );
+        })
+        .catch((err) => console.error('카메라 목록 조회 실패:', err));
+    };
+
+    refreshCameras();
+    mediaDevices.addEventListener('devicechange', refreshCameras);
+    return () => {
+      mediaDevices.removeEventListener('devicechange', refreshCameras);
+    };
+  }, []);
+
+  const updateSmoothing = (changes: Partial<SmoothingOptions>) =>
+    setSmoothing((prev) => ({ ...prev, ...changes }));
+
+  // 인식을 켜면 얼굴 특징 모델 로드 (사진 매칭에서 이미 로드했으면 바로 사용)
+  const handleRecognizeChange = async (enabled: boolean) => {
+    if (!enabled) {
+      setRecognize(false);
+      return;
+    }
+
+    try {
+      await loadModelsByName(['faceRecognitionNet']);
+      setRecognize(true);
+    } catch (err) {
+      console.error('얼굴 특징 모델 로드 실패:', err);
+      setError('얼굴 인식 모델을 불러오지 못했습니다. 다시 시도해 주세요.');
+    }
+  };
+
+  // 웹캠 시작 (스트리밍 중이면 새 설정으로 다시 시작)
+  const startWebcam = async (settings: CameraSettings = camera) => {
     try {
       setError(null);
+      streamRef.current?.getTracks().forEach((track) => track.stop());
+      removePermissionListenerRef.current?.();
+      removePermissionListenerRef.current = null;
       const stream = await navigator.mediaDevices.getUserMedia({
-        video: {
-          width: { ideal: 1280 },
-          height: { ideal: 720 },
-          facingMode: 'user',
-        },
+        video: buildVideoConstraints(settings),
       });
+      const [videoTrack] = stream.getVideoTracks();
 
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        streamRef.current = stream;
-        setIsStreaming(true);
+      // 카메라를 분리하거나 권한을 해제해서 스트림이 끊기면 중지
+      const handleDisconnect = (message: string) => {
+        if (streamRef.current !== stream) return;
+        stopWebcam();
+        setError(message);
+      };
+      videoTrack.addEventListener('ended', () =>
+        handleDisconnect('카메라 연결이 끊어졌습니다. 카메라를 확인한 뒤 다시 시작해 주세요.')
+      );
+      navigator.permissions
+        ?.query({ name: 'camera' as PermissionName })
+        .then((status) => {
+          // 조회하는 사이에 웹캠을 중지했거나 다시 시작했으면 등록하지 않음
+          if (streamRef.current !== stream) return;
+
+          const handleChange = () => {
+            if (status.state === 'denied') {
+              handleDisconnect('카메라 권한이 해제되어 웹캠을 중지했습니다. 권한을 다시 허용한 뒤 시작해 주세요.');
+            }
+          };
+          status.addEventListener('change', handleChange);
+          removePermissionListenerRef.current = () =>
+            status.removeEventListener('change', handleChange);
+        })
+        .catch(() => {
+          // 카메라 권한 조회를 지원하지 않는 브라우저는 ended 이벤트로만 감지
+        });
+
+      // 그사이 화면에서 사라졌으면 카메라가 켜진 채로 남지 않도록 바로 중지
+      if (!videoRef.current) {
+        stream.getTracks().forEach((track) => track.stop());
+        return;
+      }
+      videoRef.current.srcObject = stream;
+      streamRef.current = stream;
+      trackerRef.current = createTrackerState();
+      setIsStreaming(true);
+
+      // 권한을 허용한 뒤에야 카메라 이름을 알 수 있으므로 목록을 다시 조회하고, 실제로 열린 카메라 선택
+      setCameras(await listCameras());
+      const deviceId = videoTrack.getSettings().deviceId;
+      if (deviceId) {
+        setCamera((prev) => ({ ...prev, deviceId }));
       }
     } catch (err) {
       console.error('웹캠 접근 실패:', err);
-      setError('웹캠에 접근할 수 없습니다. 카메라 권한을 확인해 주세요.');
+      stopWebcam();
+      setError(getCameraErrorMessage(err));
+    }
+  };
+
+  // 카메라 설정 변경 (스트리밍 중에 카메라, 해상도, 프레임레이트를 바꾸면 다시 시작)
+  const updateCamera = (changes: Partial<CameraSettings>) => {
+    const next = { ...camera, ...changes };
+    setCamera(next);
+    if (isStreaming && changes.mirrored === undefined) {
+      startWebcam(next);
     }
   };
 
@@ -66,127 +295,222 @@ export default function LiveFaceTracker({
       streamRef.current.getTracks().forEach((track) => track.stop());
       streamRef.current = null;
     }
-    if (animationFrameRef.current) {
-      cancelAnimationFrame(animationFrameRef.current);
-      animationFrameRef.current = null;
-    }
+    removePermissionListenerRef.current?.();
+    removePermissionListenerRef.current = null;
     setIsStreaming(false);
-    setDetectionInfo(null);
+    setTrackedFaces(null);
+    setStats(null);
+    trackerRef.current = createTrackerState();
   };
 
-  // 실시간 얼굴 검출 루프
-  const detectFaces = async () => {
-    if (!videoRef.current || !canvasRef.current || !isModelsLoaded || !isStreaming) {
-      return;
-    }
+  // 현재 프레임 캡처하여 기준 사진으로 등록
+  const captureCurrentFace = () => {
+    if (!videoRef.current || !canvasRef.current) return;
 
     const video = videoRef.current;
-    const canvas = canvasRef.current;
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
 
-    // 비디오가 준비되지 않았으면 대기
-    if (video.readyState !== 4) {
-      animationFrameRef.current = requestAnimationFrame(detectFaces);
-      return;
+    const ctx = canvas.getContext('2d');
+    if (ctx) {
+      ctx.drawImage(video, 0, 0);
+      canvas.toBlob((blob) => {
+        if (blob) {
+          const file = new File([blob], 'webcam-capture.jpg', { type: 'image/jpeg' });
+          onCaptureFace(file);
+        }
+      }, 'image/jpeg', 0.95);
     }
+  };
 
-    const displaySize = {
-      width: video.videoWidth,
-      height: video.videoHeight,
-    };
+  // 스트리밍 중 검출 루프 (animation frame마다 차례가 되었는지 확인해서 검출)
+  useEffect(() => {
+    if (!isStreaming || !isModelsLoaded) return;
 
-    // Canvas 크기 설정
-    if (canvas.width !== displaySize.width || canvas.height !== displaySize.height) {
-      faceapi.matchDimensions(canvas, displaySize);
-    }
+    let stopped = false;
+    let isDetecting = false;
+    let frameId: number | null = null;
+    let scheduler = createSchedulerState();
+    // 인식할 때 검출과 descriptor 추출에 함께 쓰는 현재 프레임
+    const frameCanvas = document.createElement('canvas');
+
+    // 한 프레임 검출 후 추적, 그리기
+    const detectFrame = async (
+      video: HTMLVideoElement,
+      canvas: HTMLCanvasElement,
+      inputSize: number
+    ) => {
+      const displaySize = {
+        width: video.videoWidth,
+        height: video.videoHeight,
+      };
+
+      // Canvas 크기 설정
+      if (canvas.width !== displaySize.width || canvas.height !== displaySize.height) {
+        faceapi.matchDimensions(canvas, displaySize);
+      }
+
+      const recognition = recognitionRef.current;
+
+      // 인식 중이면 현재 프레임을 canvas에 복사해서 검출
+      // (검출한 뒤 descriptor를 추출하는 사이에 영상이 다음 프레임으로 넘어가지 않도록)
+      let input: HTMLVideoElement | HTMLCanvasElement = video;
+      if (recognition.enabled) {
+        frameCanvas.width = displaySize.width;
+        frameCanvas.height = displaySize.height;
+        frameCanvas.getContext('2d')?.drawImage(video, 0, 0);
+        input = frameCanvas;
+      }
 
-    try {
       // 얼굴 검출 (모든 정보 포함)
       const detections = await faceapi
-        .detectAllFaces(video, new faceapi.TinyFaceDetectorOptions({
-          inputSize: 224,
+        .detectAllFaces(input, new faceapi.TinyFaceDetectorOptions({
+          inputSize,
           scoreThreshold: 0.5,
         }))
         .withFaceLandmarks()
         .withFaceExpressions()
         .withAgeAndGender();
+      // 인식을 켜면 기준 사진과 같은 방식(얼굴 정렬 설정 포함)으로 descriptor 추출
+      const descriptors = recognition.enabled
+        ? await computeDescriptors(
+            frameCanvas,
+            detections,
+            recognition.alignFaces
+          )
+        : null;
+      if (stopped) return;
 
       const resizedDetections = faceapi.resizeResults(detections, displaySize);
 
+      // 이전 프레임의 얼굴과 이어 붙여 추적 (인식 중이면 누구인지도 찾아서 track별로 이름 안정화)
+      const faces: FrameFace[] = resizedDetections.map((detection, index) => ({
+        box: detection.detection.box,
+        descriptor: descriptors?.[index],
+        expressions: detection.expressions,
+        age: detection.age,
+        gender: detection.gender as FrameFace['gender'],
+        genderProbability: detection.genderProbability,
+        identification: descriptors
+          ? identifyFace(
+              descriptors[index],
+              recognition.references,
+              recognition.threshold,
+              recognition.strategy
+            )
+          : undefined,
+      }));
+      // 프레임 시각은 비디오 재생 시간 사용 (화면에 보인 시간 계산용)
+      trackerRef.current = updateTracker(
+        trackerRef.current,
+        faces,
+        video.currentTime * 1000,
+        smoothingRef.current
+      );
+      const visibleTracks = getVisibleTracks(trackerRef.current);
+
       // Canvas 초기화
       const ctx = canvas.getContext('2d');
       if (ctx) {
         ctx.clearRect(0, 0, canvas.width, canvas.height);
       }
 
-      // 검출된 얼굴 그리기
-      if (resizedDetections.length > 0) {
-        // Bounding box와 랜드마크 그리기
-        faceapi.draw.drawDetections(canvas, resizedDetections);
-        faceapi.draw.drawFaceLandmarks(canvas, resizedDetections);
-
-        // 첫 번째 얼굴 정보 저장
-        const detection = resizedDetections[0];
-        const expressions = detection.expressions;
-        const dominantExpr = Object.entries(expressions).reduce((a, b) =>
-          a[1] > b[1] ? a : b
-        );
-
-        setDetectionInfo({
-          faceCount: resizedDetections.length,
-          expression: dominantExpr[0],
-          expressionEmoji: getExpressionEmoji(dominantExpr[0] as any),
-          expressionProb: dominantExpr[1],
-          age: Math.round(detection.age),
-          gender: detection.gender === 'male' ? '남성' : '여성',
-        });
-      } else {
-        setDetectionInfo({
-          faceCount: 0,
-        });
+      // 추적 번호와 랜드마크 그리기 (인식 중이면 box에 이름과 거리 표시)
+      // 좌우 반전 미리보기에서는 좌표만 반전해서 그림 (글자는 뒤집히지 않도록)
+      const mirrored = mirroredRef.current;
+      visibleTracks.forEach((track) => {
+        const name = track.identity
+          ? getPersonName(recognition.people, track.identity.personId)
+          : null;
+        const box = mirrored ? mirrorBox(track.box, canvas.width) : track.box;
+        new faceapi.draw.DrawBox(box, {
+          label: track.identity
+            ? `#${track.id} ${
+                name ? `${name} (${track.identity.distance.toFixed(2)})` : '미확인'
+              }`
+            : `#${track.id}`,
+          boxColor: !track.identity
+            ? 'rgba(0, 0, 255, 1)'
+            : name
+              ? 'rgba(34, 197, 94, 1)'
+              : 'rgba(156, 163, 175, 1)',
+        }).draw(canvas);
+      });
+      ctx?.save();
+      if (mirrored) {
+        ctx?.setTransform(-1, 0, 0, 1, canvas.width, 0);
       }
-    } catch (err) {
-      console.error('얼굴 검출 오류:', err);
-    }
+      faceapi.draw.drawFaceLandmarks(canvas, resizedDetections);
+      ctx?.restore();
 
-    // 다음 프레임 (약 10fps)
-    setTimeout(() => {
-      animationFrameRef.current = requestAnimationFrame(detectFaces);
-    }, 100);
-  };
+      setTrackedFaces(visibleTracks);
+    };
 
-  // 현재 프레임 캡처하여 기준 사진으로 등록
-  const captureCurrentFace = () => {
-    if (!videoRef.current || !canvasRef.current) return;
+    const tick = async (now: number) => {
+      frameId = null;
+      if (stopped || document.hidden) return;
 
-    const video = videoRef.current;
-    const canvas = document.createElement('canvas');
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      // 비디오가 준비되지 않았거나 이전 검출이 끝나지 않았거나 아직 차례가 아니면 다음 frame에 다시 확인
+      if (
+        !video ||
+        !canvas ||
+        video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA ||
+        isDetecting ||
+        !isFrameDue(scheduler, now)
+      ) {
+        frameId = requestAnimationFrame(tick);
+        return;
+      }
 
-    const ctx = canvas.getContext('2d');
-    if (ctx) {
-      ctx.drawImage(video, 0, 0);
-      canvas.toBlob((blob) => {
-        if (blob) {
-          const file = new File([blob], 'webcam-capture.jpg', { type: 'image/jpeg' });
-          onCaptureFace(file);
+      isDetecting = true;
+      const startedAt = performance.now();
+      try {
+        await detectFrame(video, canvas, scheduler.inputSize);
+      } catch (err) {
+        console.error('얼굴 검출 오류:', err);
+      }
+      isDetecting = false;
+      if (stopped) return;
+
+      scheduler = recordFrame(
+        scheduler,
+        startedAt,
+        performance.now(),
+        targetFpsRef.current
+      );
+      setStats(scheduler);
+      // 검출 중에 탭이 숨겨졌으면 다시 보일 때 이어서 검출
+      if (!document.hidden) {
+        frameId = requestAnimationFrame(tick);
+      }
+    };
+
+    // 탭이 숨겨지면 멈추고 다시 보이면 이어서 검출
+    const handleVisibilityChange = () => {
+      setIsPaused(document.hidden);
+      if (document.hidden) {
+        if (frameId !== null) {
+          cancelAnimationFrame(frameId);
+          frameId = null;
         }
-      }, 'image/jpeg', 0.95);
-    }
-  };
+      } else if (frameId === null && !isDetecting) {
+        scheduler = resumeScheduler(scheduler);
+        frameId = requestAnimationFrame(tick);
+      }
+    };
 
-  // 비디오 로드 완료 시 검출 시작
-  useEffect(() => {
-    if (isStreaming && isModelsLoaded && videoRef.current) {
-      videoRef.current.addEventListener('loadeddata', () => {
-        detectFaces();
-      });
-    }
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    frameId = requestAnimationFrame(tick);
 
     return () => {
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
+      stopped = true;
+      if (frameId !== null) {
+        cancelAnimationFrame(frameId);
       }
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
     };
   }, [isStreaming, isModelsLoaded]);
 
@@ -204,7 +528,7 @@ export default function LiveFaceTracker({
         <div className="space-x-2">
           {!isStreaming ? (
             <button
-              onClick={startWebcam}
+              onClick={() => startWebcam()}
               disabled={!isModelsLoaded}
               className={`px-4 py-2 rounded-lg font-semibold text-white transition-colors ${
                 isModelsLoaded
@@ -233,72 +557,262 @@ export default function LiveFaceTracker({
         </div>
       </div>
 
+      {/* 카메라 설정 */}
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm text-gray-700">
+        <label className="flex items-center gap-2">
+          카메라
+          <select
+            value={camera.deviceId}
+            onChange={(e) => updateCamera({ deviceId: e.target.value })}
+            className="border border-gray-300 rounded px-2 py-1 text-black max-w-xs"
+          >
+            <option value="">기본 카메라</option>
+            {cameras.map((device) => (
+              <option key={device.deviceId} value={device.deviceId}>
+                {device.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          해상도
+          <select
+            value={camera.resolution}
+            onChange={(e) => updateCamera({ resolution: e.target.value as ResolutionPreset })}
+            className="border border-gray-300 rounded px-2 py-1 text-black"
+          >
+            {RESOLUTION_PRESETS.map((preset) => (
+              <option key={preset.id} value={preset.id}>
+                {preset.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          프레임레이트
+          <select
+            value={camera.frameRate}
+            onChange={(e) => updateCamera({ frameRate: Number(e.target.value) })}
+            className="border border-gray-300 rounded px-2 py-1 text-black"
+          >
+            {FRAME_RATE_PRESETS.map((frameRate) => (
+              <option key={frameRate} value={frameRate}>
+                {frameRate}fps
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={camera.mirrored}
+            onChange={(e) => updateCamera({ mirrored: e.target.checked })}
+          />
+          좌우 반전 (거울 모드)
+        </label>
+      </div>
+
+      {/* 등록된 사람 인식 */}
+      <label
+        className={`flex items-center gap-2 text-sm ${
+          canRecognize ? 'text-gray-700' : 'text-gray-400'
+        }`}
+      >
+        <input
+          type="checkbox"
+          checked={recognize && canRecognize}
+          onChange={(e) => handleRecognizeChange(e.target.checked)}
+          disabled={!canRecognize}
+        />
+        등록된 사람 인식 (기준 사진과 비교해서 이름 표시, threshold {threshold.toFixed(2)})
+        {!canRecognize && ' - 매칭 탭에서 기준 사진을 먼저 등록해 주세요'}
+      </label>
+
+      {/* 목표 FPS, 표정/나이/성별 평활화 설정 */}
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm text-gray-700">
+        <label className="flex items-center gap-2">
+          목표 FPS
+          <select
+            value={targetFps}
+            onChange={(e) => setTargetFps(Number(e.target.value))}
+            className="border border-gray-300 rounded px-2 py-1 text-black"
+          >
+            {TARGET_FPS_OPTIONS.map((fps) => (
+              <option key={fps} value={fps}>
+                {fps}fps
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          나이 필터
+          <select
+            value={smoothing.ageFilter}
+            onChange={(e) => updateSmoothing({ ageFilter: e.target.value as AgeFilter })}
+            className="border border-gray-300 rounded px-2 py-1 text-black"
+          >
+            <option value="median">중앙값</option>
+            <option value="ema">지수 이동 평균</option>
+          </select>
+        </label>
+        {smoothing.ageFilter === 'ema' && (
+          <label className="flex items-center gap-2">
+            새 프레임 비중 {smoothing.alpha.toFixed(2)}
+            <input
+              type="range"
+              min={0.05}
+              max={0.8}
+              step={0.05}
+              value={smoothing.alpha}
+              onChange={(e) => updateSmoothing({ alpha: Number(e.target.value) })}
+            />
+          </label>
+        )}
+        <label className="flex items-center gap-2">
+          최근 {smoothing.window}프레임 평균
+          <input
+            type="range"
+            min={3}
+            max={30}
+            step={1}
+            value={smoothing.window}
+            onChange={(e) => updateSmoothing({ window: Number(e.target.value) })}
+          />
+        </label>
+        <label
+          className="flex items-center gap-2"
+          title="표정/성별은 다른 값의 평균 확률이 이만큼 더 높아야 바뀝니다"
+        >
+          전환 여유 {toPercent(smoothing.hysteresis)}%p
+          <input
+            type="range"
+            min={0}
+            max={0.4}
+            step={0.05}
+            value={smoothing.hysteresis}
+            onChange={(e) => updateSmoothing({ hysteresis: Number(e.target.value) })}
+          />
+        </label>
+      </div>
+
       {error && (
         <div className="bg-red-50 border border-red-200 rounded-lg p-4">
           <p className="text-red-700">{error}</p>
         </div>
       )}
 
-      {/* 비디오 및 Canvas */}
-      <div className="relative inline-block bg-black rounded-lg overflow-hidden">
-        <video
-          ref={videoRef}
-          autoPlay
-          playsInline
-          muted
-          className="max-w-full h-auto"
-          style={{ display: isStreaming ? 'block' : 'none' }}
-        />
-        <canvas
-          ref={canvasRef}
-          className="absolute top-0 left-0"
-          style={{ display: isStreaming ? 'block' : 'none' }}
-        />
-        {!isStreaming && (
-          <div className="w-full h-64 flex items-center justify-center bg-gray-200">
-            <p className="text-gray-500">웹캠을 시작하려면 위 버튼을 클릭하세요</p>
-          </div>
-        )}
-      </div>
+      {/* 검출 성능 */}
+      {isStreaming && (
+        <p className="text-xs text-gray-600">
+          {isPaused
+            ? '⏸ 탭이 숨겨져 있어 검출을 일시 정지했습니다'
+            : stats
+              ? `검출 ${stats.fps?.toFixed(1) ?? '-'}fps · 지연 ${Math.round(
+                  stats.latencyMs ?? 0
+                )}ms · 입력 크기 ${stats.inputSize}px · 건너뛴 프레임 ${stats.skippedFrames}`
+              : '검출 준비 중...'}
+        </p>
+      )}
 
-      {/* 검출 정보 표시 */}
-      {isStreaming && detectionInfo && (
-        <div className="bg-white border border-gray-200 rounded-lg p-4">
-          <h3 className="font-semibold text-lg mb-2 text-black">검출 정보</h3>
-          {detectionInfo.faceCount > 0 ? (
-            <div className="space-y-2">
-              <p className="text-gray-700">
-                검출된 얼굴: <span className="font-semibold">{detectionInfo.faceCount}명</span>
-              </p>
-              {detectionInfo.expression && (
-                <p className="text-gray-700">
-                  표정: {detectionInfo.expressionEmoji}{' '}
-                  <span className="font-semibold">
-                    {getExpressionLabel(detectionInfo.expression as any)}
-                  </span>{' '}
-                  ({Math.round((detectionInfo.expressionProb || 0) * 100)}%)
-                </p>
-              )}
-              {detectionInfo.age && (
-                <p className="text-gray-700">
-                  나이: <span className="font-semibold">약 {detectionInfo.age}세</span>
-                </p>
-              )}
-              {detectionInfo.gender && (
-                <p className="text-gray-700">
-                  성별: <span className="font-semibold">{detectionInfo.gender}</span>
-                </p>
-              )}
+      <div className="flex flex-col lg:flex-row gap-4 items-start">
+        {/* 비디오 및 Canvas */}
+        <div className="relative inline-block bg-black rounded-lg overflow-hidden">
+          <video
+            ref={videoRef}
+            autoPlay
+            playsInline
+            muted
+            className="max-w-full h-auto"
+            style={{
+              display: isStreaming ? 'block' : 'none',
+              transform: camera.mirrored ? 'scaleX(-1)' : undefined,
+            }}
+          />
+          <canvas
+            ref={canvasRef}
+            className="absolute top-0 left-0"
+            style={{ display: isStreaming ? 'block' : 'none' }}
+          />
+          {!isStreaming && (
+            <div className="w-full h-64 flex items-center justify-center bg-gray-200">
+              <p className="text-gray-500">웹캠을 시작하려면 위 버튼을 클릭하세요</p>
             </div>
-          ) : (
-            <p className="text-gray-500">얼굴이 검출되지 않았습니다</p>
           )}
         </div>
-      )}
+
+        {/* 얼굴별 정보 */}
+        {isStreaming && trackedFaces && (
+          <div className="w-full lg:w-72 shrink-0 space-y-2">
+            <h3 className="font-semibold text-lg text-black">
+              검출된 얼굴 {trackedFaces.length}명
+            </h3>
+            <p className="text-xs text-gray-500">괄호 안은 최근 프레임 기준 95% 신뢰구간</p>
+            {trackedFaces.length === 0 && (
+              <p className="text-gray-500 text-sm">얼굴이 검출되지 않았습니다</p>
+            )}
+            {trackedFaces.map((track) => {
+              const name = track.identity
+                ? getPersonName(people, track.identity.personId)
+                : null;
+              const attributes = track.attributes;
+
+              return (
+                <div
+                  key={track.id}
+                  className="bg-white border border-gray-200 rounded-lg p-3 text-sm space-y-1"
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-semibold text-black">#{track.id}</span>
+                    <span className="text-xs text-gray-500">
+                      {Math.round(track.visibleMs / 1000)}초 동안 보임
+                    </span>
+                  </div>
+                  {track.identity && (
+                    <p className="text-gray-700">
+                      인식:{' '}
+                      <span className="font-semibold">
+                        {name
+                          ? `${name} (거리 ${track.identity.distance.toFixed(2)})`
+                          : '미확인'}
+                      </span>
+                    </p>
+                  )}
+                  {attributes?.expression && (
+                    <p className="text-gray-700">
+                      표정: {getExpressionEmoji(attributes.expression)}{' '}
+                      <span className="font-semibold">
+                        {getExpressionLabel(attributes.expression)}
+                      </span>{' '}
+                      {toPercent(attributes.expressionProbability ?? 0)}%
+                      {formatInterval(attributes.expressionInterval, toPercent, '%')}
+                    </p>
+                  )}
+                  {attributes?.age !== undefined && (
+                    <p className="text-gray-700">
+                      나이: <span className="font-semibold">약 {Math.round(attributes.age)}세</span>
+                      {formatInterval(attributes.ageInterval, Math.round, '세')}
+                    </p>
+                  )}
+                  {attributes?.gender && (
+                    <p className="text-gray-700">
+                      성별:{' '}
+                      <span className="font-semibold">
+                        {attributes.gender === 'male' ? '남성' : '여성'}
+                      </span>{' '}
+                      {toPercent(attributes.genderProbability ?? 0)}%
+                      {formatInterval(attributes.genderInterval, toPercent, '%')}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
 
       <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
         <p className="text-blue-800 text-sm">
-          💡 팁: "현재 얼굴로 등록" 버튼을 클릭하면 현재 프레임을 기준 얼굴 사진으로 사용할 수 있습니다.
+          💡 팁: &quot;현재 얼굴로 등록&quot; 버튼을 클릭하면 현재 프레임이 기준 얼굴 사진으로 추가됩니다.
         </p>
       </div>
     </div>
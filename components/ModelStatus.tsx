@@ -0,0 +1,68 @@
+/**
+ * 모델 로드 상태 표시 컴포넌트
+ * - 모델별로 로딩 중 / 완료 / 실패 표시
+ * - 실패한 모델은 다시 시도 가능
+ * - 로딩 중이거나 실패한 모델이 없으면 표시하지 않음
+ */
+
+'use client';
+
+import { ModelName, ModelState } from '@/lib/modelRegistry';
+
+interface ModelStatusProps {
+  states: ModelState[];
+  onRetry: (name: ModelName) => void;
+}
+
+export default function ModelStatus({ states, onRetry }: ModelStatusProps) {
+  const visible = states.filter((state) => state.status !== 'idle');
+  const isBusy = visible.some(
+    (state) => state.status === 'loading' || state.status === 'error'
+  );
+
+  if (!isBusy) {
+    return null;
+  }
+
+  const hasError = visible.some((state) => state.status === 'error');
+  const loadedCount = visible.filter((state) => state.status === 'loaded').length;
+
+  return (
+    <div
+      className={`rounded-lg p-4 mb-6 border ${
+        hasError ? 'bg-red-50 border-red-200' : 'bg-blue-50 border-blue-200'
+      }`}
+    >
+      <p className={`mb-2 ${hasError ? 'text-red-700' : 'text-blue-700'}`}>
+        {hasError
+          ? '일부 모델을 불러오지 못했습니다.'
+          : `얼굴 인식 모델 로딩 중... (${loadedCount} / ${visible.length})`}
+      </p>
+
+      <ul className="flex flex-wrap gap-2">
+        {visible.map((state) => (
+          <li
+            key={state.name}
+            className="flex items-center gap-1 px-2 py-1 rounded bg-white text-sm text-gray-700"
+            title={state.error}
+          >
+            {state.status === 'loading' && (
+              <span className="inline-block w-3 h-3 border-2 border-blue-600 border-t-transparent rounded-full animate-spin" />
+            )}
+            {state.status === 'loaded' && <span className="text-green-600">✓</span>}
+            {state.status === 'error' && <span className="text-red-600">✕</span>}
+            {state.label}
+            {state.status === 'error' && (
+              <button
+                onClick={() => onRetry(state.name)}
+                className="ml-1 text-xs text-red-600 underline hover:text-red-700"
+              >
+                다시 시도
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+/**
+ * 오프라인 사용 가능 여부 표시 컴포넌트
+ * - 모델과 앱 화면이 모두 캐시되면 "오프라인 사용 가능"
+ * - 캐시 중이면 캐시된 모델 수와 앱 화면 파일 수 표시
+ * - 현재 네트워크 연결 상태 표시
+ */
+
+'use client';
+
+import { isFullyOffline, OfflineStatus as OfflineStatusValue } from '@/lib/offline';
+
+interface OfflineStatusProps {
+  status: OfflineStatusValue | null;
+  isOnline: boolean;
+}
+
+export default function OfflineStatus({ status, isOnline }: OfflineStatusProps) {
+  // service worker를 사용하지 않으면 (개발 모드, 미지원 브라우저) 표시하지 않음
+  if (!status?.supported) {
+    return null;
+  }
+
+  const isReady = isFullyOffline(status);
+
+  return (
+    <div className="flex items-center justify-center gap-2 mt-3 text-sm">
+      <span
+        className={`px-2 py-1 rounded ${
+          isReady ? 'bg-green-100 text-green-700' : 'bg-yellow-100 text-yellow-700'
+        }`}
+        title={
+          isReady
+            ? '모델과 앱 화면이 저장되어 네트워크 없이 사용할 수 있습니다.'
+            : '모델과 앱 화면을 저장하는 중입니다.'
+        }
+      >
+        {isReady
+          ? '오프라인 사용 가능'
+          : `오프라인 준비 중 (모델 ${status.modelsCached} / ${status.modelsTotal}, 앱 화면 ${status.shellFilesCached} / ${status.shellFilesTotal})`}
+      </span>
+      {!isOnline && (
+        <span className="px-2 py-1 rounded bg-gray-200 text-gray-700">
+          오프라인 상태
+        </span>
+      )}
+    </div>
+  );
+}
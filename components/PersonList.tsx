@@ -0,0 +1,82 @@
+/**
+ * 등록된 인물 목록 컴포넌트
+ * - 여러 사람을 이름과 함께 등록 (클럽 회원 등)
+ * - 선택한 사람의 이름 변경 및 삭제
+ * - 선택한 사람의 기준 사진은 FacePreview에서 편집
+ */
+
+"use client";
+
+import { PersonProfile } from "@/lib/types";
+
+interface PersonListProps {
+  people: PersonProfile[];
+  activePersonId: string;
+  onSelect: (id: string) => void;
+  onAdd: () => void;
+  onRename: (id: string, name: string) => void;
+  onRemove: (id: string) => void;
+}
+
+export default function PersonList({
+  people,
+  activePersonId,
+  onSelect,
+  onAdd,
+  onRename,
+  onRemove,
+}: PersonListProps) {
+  const activePerson = people.find((person) => person.id === activePersonId);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {people.map((person) => (
+          <button
+            key={person.id}
+            onClick={() => onSelect(person.id)}
+            className={`px-4 py-2 rounded-lg text-sm font-semibold transition-colors ${
+              person.id === activePersonId
+                ? "bg-green-600 text-white"
+                : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+            }`}
+          >
+            {person.name || "이름 없음"}
+            <span className="ml-1 font-normal opacity-75">
+              ({person.references.length})
+            </span>
+          </button>
+        ))}
+
+        <button
+          onClick={onAdd}
+          className="px-4 py-2 rounded-lg text-sm border-2 border-dashed border-gray-300 text-gray-600 hover:border-green-500 hover:text-green-600 transition-colors"
+        >
+          + 사람 추가
+        </button>
+      </div>
+
+      {activePerson && (
+        <div className="flex items-center gap-2">
+          <label className="text-sm text-gray-700" htmlFor="person-name">
+            이름
+          </label>
+          <input
+            id="person-name"
+            value={activePerson.name}
+            onChange={(e) => onRename(activePerson.id, e.target.value)}
+            className="px-3 py-1 border border-gray-300 rounded-lg text-black text-sm"
+          />
+          {people.length > 1 && (
+            <button
+              onClick={() => onRemove(activePerson.id)}
+              className="px-3 py-1 text-sm text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+            >
+              이 사람 삭제
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,23 +3,37 @@
  * - 다중 파일 업로드
  * - 썸네일 그리드 표시
  * - 최대 50장 제한
+ * - 사진별 얼굴 검출 상태 표시 (대기/분석 중/완료/실패)
+ * - 같은 파일을 다시 올리면 중복으로 표시 (검출하지 않음)
+ * - 분석을 마친 사진에 검출기가 놓친 얼굴 직접 추가
  */
 
 "use client";
 
 import { useRef } from "react";
+import { MarathonPhoto, PhotoStatus } from "@/lib/types";
 
 interface PhotoUploaderProps {
-  photos: Array<{ id: string; imageUrl: string; file: File }>;
+  photos: MarathonPhoto[];
   onPhotosAdd: (files: File[]) => void;
   onPhotoRemove: (id: string) => void;
+  onFaceAdd: (id: string) => void;
   maxPhotos?: number;
 }
 
+// 상태별 배지 문구와 색상
+const STATUS_BADGES: Record<PhotoStatus, { label: string; className: string }> = {
+  pending: { label: "대기", className: "bg-gray-500/80" },
+  processing: { label: "분석 중", className: "bg-purple-600/90" },
+  done: { label: "완료", className: "bg-green-600/90" },
+  failed: { label: "실패", className: "bg-red-600/90" },
+};
+
 export default function PhotoUploader({
   photos,
   onPhotosAdd,
   onPhotoRemove,
+  onFaceAdd,
   maxPhotos = 50,
 }: PhotoUploaderProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -49,6 +63,20 @@ export default function PhotoUploader({
     onPhotoRemove(id);
   };
 
+  const statusCounts = photos.reduce(
+    (counts, photo) => {
+      // 분석 중인 사진은 대기로 셈
+      const key = photo.duplicateOf
+        ? "duplicate"
+        : photo.status === "processing"
+        ? "pending"
+        : photo.status;
+      counts[key]++;
+      return counts;
+    },
+    { pending: 0, done: 0, failed: 0, duplicate: 0 }
+  );
+
   return (
     <div className="space-y-4">
       <div>
@@ -81,6 +109,14 @@ export default function PhotoUploader({
           <p className="text-gray-700 mb-3">
             업로드된 사진 <span className="font-semibold">{photos.length}</span>
             장
+            <span className="ml-2 text-sm text-gray-500">
+              (분석 완료 {statusCounts.done}장
+              {statusCounts.failed > 0 && `, 실패 ${statusCounts.failed}장`}
+              {statusCounts.pending > 0 && `, 대기 ${statusCounts.pending}장`}
+              {statusCounts.duplicate > 0 &&
+                `, 중복 ${statusCounts.duplicate}장`}
+              )
+            </span>
           </p>
 
           <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
@@ -94,6 +130,47 @@ export default function PhotoUploader({
                   />
                 </div>
 
+                {/* 검출 상태 */}
+                {photo.duplicateOf ? (
+                  <span
+                    className="absolute bottom-2 left-2 px-2 py-0.5 rounded text-xs text-white bg-yellow-600/90"
+                    title="같은 사진이 이미 업로드되어 있어 분석하지 않습니다."
+                  >
+                    중복
+                  </span>
+                ) : (
+                  <span
+                    className={`absolute bottom-2 left-2 flex items-center gap-1 px-2 py-0.5 rounded text-xs text-white ${
+                      STATUS_BADGES[photo.status].className
+                    }`}
+                    title={photo.error}
+                  >
+                    {photo.status === "processing" && (
+                      <span className="inline-block w-3 h-3 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                    )}
+                    {STATUS_BADGES[photo.status].label}
+                    {photo.status === "done" && ` · 얼굴 ${photo.faces.length}`}
+                  </span>
+                )}
+
+                {/* 실패 이유 */}
+                {photo.status === "failed" && photo.error && (
+                  <p className="mt-1 text-xs text-red-600 line-clamp-2">
+                    {photo.error}
+                  </p>
+                )}
+
+                {/* 놓친 얼굴 추가 버튼 (분석을 마친 사진만) */}
+                {photo.status === "done" && !photo.duplicateOf && (
+                  <button
+                    onClick={() => onFaceAdd(photo.id)}
+                    className="absolute top-2 left-2 bg-blue-500 text-white rounded-full px-2 h-6 text-xs flex items-center opacity-0 group-hover:opacity-100 transition-opacity hover:bg-blue-600"
+                    title="찾지 못한 얼굴 직접 추가"
+                  >
+                    + 얼굴
+                  </button>
+                )}
+
                 {/* 삭제 버튼 */}
                 <button
                   onClick={() => handleRemovePhoto(photo.id)}
@@ -0,0 +1,140 @@
+/**
+ * 프로젝트(대회/이벤트) 관리 컴포넌트
+ * - 저장된 프로젝트 선택, 새 프로젝트 생성, 이름 변경
+ * - 브라우저 저장 공간 사용량 표시
+ * - 지난 분석 기록 표시
+ * - 프로젝트 삭제 / 전체 데이터 삭제
+ */
+
+'use client';
+
+import { MatchRun, PersonProfile, Project } from '@/lib/types';
+
+interface ProjectPanelProps {
+  projects: Project[];
+  currentProjectId: string | null;
+  runs: MatchRun[];
+  people: PersonProfile[];
+  storageEstimate: { usage: number; quota: number } | null;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+  onClearRuns: () => void;
+  onPurgeAll: () => void;
+}
+
+// 바이트를 MB 단위 문자열로 변환
+const formatMegabytes = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+
+export default function ProjectPanel({
+  projects,
+  currentProjectId,
+  runs,
+  people,
+  storageEstimate,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  onClearRuns,
+  onPurgeAll,
+}: ProjectPanelProps) {
+  const currentProject = projects.find((project) => project.id === currentProjectId);
+
+  const handleDelete = () => {
+    if (confirm(`"${currentProject?.name}" 프로젝트의 사진과 분석 결과를 모두 삭제할까요?`)) {
+      onDelete();
+    }
+  };
+
+  const handlePurgeAll = () => {
+    if (confirm('저장된 모든 프로젝트와 사진을 삭제할까요? 되돌릴 수 없습니다.')) {
+      onPurgeAll();
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-gray-700 font-semibold">프로젝트</span>
+        <select
+          value={currentProjectId ?? ''}
+          onChange={(e) => onSelect(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-black text-sm"
+        >
+          {projects.map((project) => (
+            <option key={project.id} value={project.id}>
+              {project.name}
+            </option>
+          ))}
+        </select>
+        {currentProject && (
+          <input
+            value={currentProject.name}
+            onChange={(e) => onRename(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-black text-sm"
+            title="프로젝트 이름"
+          />
+        )}
+        <button
+          onClick={onCreate}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition-colors"
+        >
+          + 새 프로젝트
+        </button>
+      </div>
+
+      {/* 지난 분석 기록 */}
+      {runs.length > 0 && (
+        <div>
+          <div className="flex items-center gap-2 mb-2">
+            <p className="text-gray-700 text-sm font-semibold">지난 분석 기록</p>
+            <button
+              onClick={onClearRuns}
+              className="text-xs text-gray-500 hover:text-red-600 transition-colors"
+            >
+              기록 지우기
+            </button>
+          </div>
+          <ul className="text-sm text-gray-600 space-y-1 max-h-32 overflow-y-auto">
+            {runs.map((run) => (
+              <li key={run.id}>
+                {new Date(run.createdAt).toLocaleString()} · 기준 {run.threshold.toFixed(2)} ·{' '}
+                {Object.entries(run.matches)
+                  .map(([personId, matches]) => {
+                    const name = people.find((person) => person.id === personId)?.name ?? '삭제된 인물';
+                    return `${name} ${matches.length}장`;
+                  })
+                  .join(', ')}
+                {run.unknownCount > 0 && ` · 미확인 ${run.unknownCount}명`}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        {storageEstimate && (
+          <span className="text-gray-600">
+            저장 공간: {formatMegabytes(storageEstimate.usage)} /{' '}
+            {formatMegabytes(storageEstimate.quota)} 사용 중
+          </span>
+        )}
+        <button
+          onClick={handleDelete}
+          disabled={!currentProject}
+          className="px-3 py-1 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+        >
+          이 프로젝트 삭제
+        </button>
+        <button
+          onClick={handlePurgeAll}
+          className="px-3 py-1 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+        >
+          모든 데이터 삭제
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,78 +1,195 @@
 /**
  * 결과 사진 갤러리 컴포넌트
+ * - 등록된 사람별 탭 + 미확인 얼굴 탭
  * - 매칭된 사진들을 그리드로 표시
  * - 각 사진에 유사도 퍼센트 표시
+ * - 매칭된 얼굴의 품질 배지 표시 (품질이 낮은 결과는 흐리게 표시)
  * - 클릭 시 모달로 큰 이미지 표시
+ * - 결과마다 "맞아요" / "아니에요" 수동 보정 (미확인 얼굴은 누구인지 선택)
  */
 
 'use client';
 
-import { MatchResult } from '@/lib/types';
-import { getDominantExpression, getExpressionEmoji, getExpressionLabel, downloadCroppedFaces } from '@/lib/faceRecognition';
+import { useState } from 'react';
+import { GalleryMatchResult, MatchResult, PersonProfile } from '@/lib/types';
+import { getDominantExpression, getExpressionEmoji, getExpressionLabel, downloadCroppedFaces, getMatchedFace } from '@/lib/faceRecognition';
+import { getQualityIssue, getQualityLevel, QualityLevel } from '@/lib/faceQuality';
+import { getConfirmedPersonId, getRejectingPersonIds } from '@/lib/corrections';
+
+const UNKNOWN_TAB = 'unknown';
+
+export const QUALITY_BADGES: Record<QualityLevel, { label: string; className: string }> = {
+  good: { label: '품질 좋음', className: 'bg-green-500/80' },
+  fair: { label: '품질 보통', className: 'bg-yellow-500/80' },
+  poor: { label: '품질 낮음', className: 'bg-red-500/80' },
+};
 
 interface ResultGalleryProps {
-  results: MatchResult[];
-  onImageClick: (imageUrl: string) => void;
+  gallery: GalleryMatchResult | null;
+  people: PersonProfile[];
+  // 결과 목록도 함께 넘겨서 확대 화면에서 이전/다음으로 이동
+  onResultClick: (result: MatchResult, results: MatchResult[]) => void;
+  // 수동 보정: 매칭된 얼굴이 이 사람이 맞다 / 아니다 / 확인 취소
+  onConfirm: (result: MatchResult, personId: string) => void;
+  onReject: (result: MatchResult, personId: string) => void;
+  onUndoCorrection: (result: MatchResult, personId: string) => void;
 }
 
 export default function ResultGallery({
-  results,
-  onImageClick,
+  gallery,
+  people,
+  onResultClick,
+  onConfirm,
+  onReject,
+  onUndoCorrection,
 }: ResultGalleryProps) {
+  const [activeTab, setActiveTab] = useState<string>('');
+
+  // 선택된 탭이 없거나 사라졌으면 첫 번째 사람으로 대체
+  const isUnknownTab =
+    activeTab === UNKNOWN_TAB && gallery !== null && gallery.unknown.length > 0;
+  const activePerson = isUnknownTab
+    ? null
+    : people.find((person) => person.id === activeTab) ?? people[0];
+  const results = !gallery
+    ? []
+    : isUnknownTab
+    ? gallery.unknown
+    : gallery.byPerson[activePerson?.id ?? ''] ?? [];
+  const references = activePerson?.references ?? [];
+
+  // 사람별 탭 (결과가 있을 때만)
+  const tabs = gallery && (
+    <div className="flex flex-wrap gap-2 mb-4">
+      {people.map((person) => (
+        <button
+          key={person.id}
+          onClick={() => setActiveTab(person.id)}
+          className={`px-4 py-2 rounded-lg text-sm font-semibold transition-colors ${
+            activePerson?.id === person.id
+              ? 'bg-green-600 text-white'
+              : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+          }`}
+        >
+          {person.name || '이름 없음'} ({gallery.byPerson[person.id]?.length ?? 0})
+        </button>
+      ))}
+      {gallery.unknown.length > 0 && (
+        <button
+          onClick={() => setActiveTab(UNKNOWN_TAB)}
+          className={`px-4 py-2 rounded-lg text-sm font-semibold transition-colors ${
+            isUnknownTab
+              ? 'bg-gray-700 text-white'
+              : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+          }`}
+        >
+          ❓ 미확인 ({gallery.unknown.length})
+        </button>
+      )}
+    </div>
+  );
+
   if (results.length === 0) {
     return (
-      <div className="text-center py-12">
-        <p className="text-gray-500 text-lg">
-          일치하는 얼굴을 찾지 못했습니다.
-        </p>
-        <p className="text-gray-400 text-sm mt-2">
-          다른 사진을 사용하거나 기준 사진을 변경해 보세요.
-        </p>
+      <div>
+        {tabs}
+        <div className="text-center py-12">
+          <p className="text-gray-500 text-lg">
+            일치하는 얼굴을 찾지 못했습니다.
+          </p>
+          <p className="text-gray-400 text-sm mt-2">
+            다른 사진을 사용하거나 기준 사진을 변경해 보세요.
+          </p>
+        </div>
       </div>
     );
   }
 
   return (
     <div>
+      {tabs}
+
       <p className="text-gray-700 mb-4">
-        총 <span className="font-semibold text-green-600">{results.length}</span>장의 사진에서 내 얼굴을 찾았습니다.
+        {activePerson ? (
+          <>
+            총 <span className="font-semibold text-green-600">{results.length}</span>장의 사진에서 {activePerson.name || '이름 없음'}의 얼굴을 찾았습니다.
+          </>
+        ) : (
+          <>
+            등록된 사람과 일치하지 않는 얼굴 <span className="font-semibold">{results.length}</span>개입니다.
+          </>
+        )}
       </p>
       
       <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
         {results.map((result) => {
           // 매칭된 얼굴 정보 가져오기 (가장 유사한 얼굴)
-          const matchedFace = result.photo.faces.length > 0 ? result.photo.faces[0] : null;
+          const matchedFace = getMatchedFace(result);
           const dominantExpression = matchedFace?.expressions 
             ? getDominantExpression(matchedFace.expressions) 
             : null;
+          // 이 매칭에 가장 크게 기여한 기준 사진
+          const referenceIndex = references.findIndex(
+            (reference) => reference.id === result.matchedReferenceId
+          );
+          const matchedReference = referenceIndex >= 0 ? references[referenceIndex] : null;
+          // 매칭된 얼굴의 품질 (품질 측정 이전 결과에는 없음)
+          const qualityLevel = matchedFace?.quality ? getQualityLevel(matchedFace.quality) : null;
+          const qualityIssue = matchedFace?.quality ? getQualityIssue(matchedFace.quality) : null;
+          // 이 얼굴의 수동 보정 기록
+          const faceRef = { photoId: result.photo.id, faceIndex: result.matchedFaceIndex };
+          const confirmedPersonId = getConfirmedPersonId(people, faceRef);
+          const rejectingPersonIds = getRejectingPersonIds(people, faceRef);
+          const rejectingPeople = people.filter((person) =>
+            rejectingPersonIds.includes(person.id)
+          );
           
           return (
             <div
-              key={result.photo.id}
+              key={`${result.photo.id}-${result.matchedFaceIndex}`}
               className="group"
             >
-              <div className="relative aspect-square bg-gray-100 rounded-lg overflow-hidden shadow-md hover:shadow-xl transition-shadow">
+              <div
+                className={`relative aspect-square bg-gray-100 rounded-lg overflow-hidden shadow-md hover:shadow-xl transition-shadow ${
+                  qualityLevel === 'poor' ? 'ring-2 ring-red-400 ring-offset-2' : ''
+                }`}
+              >
                 <img
                   src={result.photo.imageUrl}
                   alt="매칭된 사진"
-                  onClick={() => onImageClick(result.photo.imageUrl)}
-                  className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300 cursor-pointer"
+                  onClick={() => onResultClick(result, results)}
+                  className={`w-full h-full object-cover group-hover:scale-105 transition-transform duration-300 cursor-pointer ${
+                    qualityLevel === 'poor' ? 'opacity-60 group-hover:opacity-100' : ''
+                  }`}
                 />
                 
-                {/* 유사도 배지 */}
-                <div className="absolute top-2 right-2 bg-green-500 text-white px-3 py-1 rounded-full text-sm font-semibold shadow-lg">
-                  {Math.round(result.score * 100)}%
-                </div>
+                {/* 유사도 배지 (미확인 얼굴은 미확인 표시) */}
+                {activePerson ? (
+                  <div className="absolute top-2 right-2 bg-green-500 text-white px-3 py-1 rounded-full text-sm font-semibold shadow-lg">
+                    {Math.round(result.score * 100)}%
+                  </div>
+                ) : (
+                  <div className="absolute top-2 right-2 bg-gray-600 text-white px-3 py-1 rounded-full text-sm font-semibold shadow-lg">
+                    미확인
+                  </div>
+                )}
+
+                {/* 여러 얼굴 중 몇 번째 얼굴이 매칭되었는지 표시 */}
+                {result.photo.faces.length > 1 && (
+                  <div className="absolute top-11 right-2 bg-black/60 text-white px-2 py-0.5 rounded-full text-xs">
+                    {result.photo.faces.length}명 중 {result.matchedFaceIndex + 1}번째
+                  </div>
+                )}
                 
                 {/* 얼굴 크롭 다운로드 버튼 */}
                 {matchedFace && (
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
-                      downloadCroppedFaces(result.photo);
+                      downloadCroppedFaces(result.photo, result.matchedFaceIndex);
                     }}
                     className="absolute top-2 left-2 bg-blue-500 text-white p-2 rounded-full shadow-lg hover:bg-blue-600 transition-colors opacity-0 group-hover:opacity-100"
-                    title="얼굴만 다운로드"
+                    title="매칭된 얼굴만 다운로드"
                   >
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
                       <path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm3.293-7.707a1 1 0 011.414 0L9 10.586V3a1 1 0 112 0v7.586l1.293-1.293a1 1 0 111.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" />
@@ -80,10 +197,35 @@ export default function ResultGallery({
                   </button>
                 )}
                 
+                {/* 매칭에 사용된 기준 사진 (기준 사진이 여러 장일 때) */}
+                {matchedReference && references.length > 1 && (
+                  <div
+                    className="absolute top-14 left-2 w-10 h-10 rounded-full overflow-hidden border-2 border-green-500 shadow-lg"
+                    title={`기준 사진 #${referenceIndex + 1}과 가장 유사`}
+                  >
+                    <img
+                      src={matchedReference.imageUrl}
+                      alt="매칭에 사용된 기준 사진"
+                      className="w-full h-full object-cover"
+                    />
+                  </div>
+                )}
+
                 {/* 표정, 나이, 성별 정보 */}
                 {matchedFace && (
                   <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent p-3 text-white text-xs">
                     <div className="flex items-center gap-2 flex-wrap">
+                      {/* 얼굴 품질 (낮으면 주된 이유 함께 표시) */}
+                      {qualityLevel && matchedFace.quality && (
+                        <span
+                          className={`${QUALITY_BADGES[qualityLevel].className} px-2 py-1 rounded-full`}
+                          title={`품질 ${Math.round(matchedFace.quality.score * 100)}점 · 얼굴 ${Math.round(matchedFace.quality.faceSize)}px · 선명도 ${Math.round(matchedFace.quality.sharpness)} · 밝기 ${Math.round(matchedFace.quality.brightness)} · 좌우 ${Math.round(matchedFace.quality.yaw)}° · 상하 ${Math.round(matchedFace.quality.pitch)}°`}
+                        >
+                          {QUALITY_BADGES[qualityLevel].label}
+                          {qualityIssue && qualityLevel !== 'good' && ` · ${qualityIssue}`}
+                        </span>
+                      )}
+
                       {/* 표정 */}
                       {dominantExpression && matchedFace.expressions && (
                         <span className="bg-white/20 backdrop-blur-sm px-2 py-1 rounded-full flex items-center gap-1">
@@ -112,6 +254,68 @@ export default function ResultGallery({
                   </div>
                 )}
               </div>
+
+              {/* 수동 보정 */}
+              <div className="mt-2 flex items-center gap-1 flex-wrap text-xs">
+                {activePerson ? (
+                  confirmedPersonId === activePerson.id ? (
+                    <span className="bg-green-100 text-green-700 px-2 py-1 rounded-full flex items-center gap-1">
+                      ✓ 확인함
+                      <button
+                        onClick={() => onUndoCorrection(result, activePerson.id)}
+                        className="text-green-900 hover:underline"
+                        title="확인 취소"
+                      >
+                        취소
+                      </button>
+                    </span>
+                  ) : (
+                    <>
+                      <button
+                        onClick={() => onConfirm(result, activePerson.id)}
+                        className="px-2 py-1 rounded-full bg-green-50 text-green-700 border border-green-200 hover:bg-green-100"
+                        title="이 얼굴을 기준 사진에 추가합니다"
+                      >
+                        👍 맞아요
+                      </button>
+                      <button
+                        onClick={() => onReject(result, activePerson.id)}
+                        className="px-2 py-1 rounded-full bg-red-50 text-red-700 border border-red-200 hover:bg-red-100"
+                        title="이 얼굴과 비슷한 얼굴을 이 사람으로 찾지 않습니다"
+                      >
+                        👎 아니에요
+                      </button>
+                    </>
+                  )
+                ) : (
+                  <select
+                    value=""
+                    onChange={(e) => {
+                      if (e.target.value) onConfirm(result, e.target.value);
+                    }}
+                    className="border border-gray-300 rounded px-2 py-1 text-black"
+                  >
+                    <option value="">누구인지 선택...</option>
+                    {people.map((person) => (
+                      <option key={person.id} value={person.id}>
+                        {person.name || '이름 없음'}
+                      </option>
+                    ))}
+                  </select>
+                )}
+
+                {/* 아니라고 확인한 사람 (누르면 취소) */}
+                {rejectingPeople.map((person) => (
+                  <button
+                    key={person.id}
+                    onClick={() => onUndoCorrection(result, person.id)}
+                    className="bg-gray-100 text-gray-600 px-2 py-1 rounded-full hover:bg-gray-200"
+                    title="확인 취소"
+                  >
+                    {person.name || '이름 없음'} 아님 ×
+                  </button>
+                ))}
+              </div>
             </div>
           );
         })}
@@ -0,0 +1,148 @@
+/**
+ * 매칭 threshold 조절 컴포넌트
+ * - 엄격/균형/느슨 프리셋과 슬라이더로 threshold 변경
+ * - 모든 얼굴의 최소 거리 히스토그램으로 "나 / 남" 경계 확인
+ * - 최소 얼굴 품질 프리셋으로 흐리거나 작은 얼굴을 매칭에서 제외
+ * - 이미 계산된 거리로 다시 필터링하므로 얼굴 검출을 다시 하지 않음
+ */
+
+'use client';
+
+interface ThresholdControlProps {
+  threshold: number;
+  onChange: (threshold: number) => void;
+  distances: number[];
+  minQuality: number;
+  onMinQualityChange: (minQuality: number) => void;
+  excludedCount: number;
+}
+
+export const THRESHOLD_PRESETS: Array<{ label: string; value: number }> = [
+  { label: '엄격', value: 0.45 },
+  { label: '균형', value: 0.6 },
+  { label: '느슨', value: 0.7 },
+];
+
+export const QUALITY_PRESETS: Array<{ label: string; value: number }> = [
+  { label: '모든 얼굴', value: 0 },
+  { label: '보통 이상', value: 0.4 },
+  { label: '좋음만', value: 0.7 },
+];
+
+const MIN_THRESHOLD = 0.3;
+const MAX_THRESHOLD = 0.8;
+
+// 히스토그램 구간 (0 ~ 1, 0.05 간격)
+const BIN_SIZE = 0.05;
+const BIN_COUNT = 20;
+
+export default function ThresholdControl({
+  threshold,
+  onChange,
+  distances,
+  minQuality,
+  onMinQualityChange,
+  excludedCount,
+}: ThresholdControlProps) {
+  const bins = new Array<number>(BIN_COUNT).fill(0);
+  for (const distance of distances) {
+    const index = Math.min(BIN_COUNT - 1, Math.floor(distance / BIN_SIZE));
+    bins[index]++;
+  }
+  const maxCount = Math.max(1, ...bins);
+  const matchedCount = distances.filter((d) => d <= threshold).length;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-gray-700 font-semibold">매칭 기준</span>
+        {THRESHOLD_PRESETS.map((preset) => (
+          <button
+            key={preset.label}
+            onClick={() => onChange(preset.value)}
+            className={`px-3 py-1 rounded-lg text-sm transition-colors ${
+              Math.abs(threshold - preset.value) < 0.001
+                ? 'bg-purple-600 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {preset.label} ({preset.value})
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-3">
+        <input
+          type="range"
+          min={MIN_THRESHOLD}
+          max={MAX_THRESHOLD}
+          step={0.01}
+          value={threshold}
+          onChange={(e) => onChange(Number(e.target.value))}
+          className="flex-1"
+        />
+        <span className="text-gray-700 font-mono w-12 text-right">
+          {threshold.toFixed(2)}
+        </span>
+      </div>
+
+      {/* 최소 얼굴 품질 */}
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-gray-700 font-semibold">얼굴 품질</span>
+        {QUALITY_PRESETS.map((preset) => (
+          <button
+            key={preset.label}
+            onClick={() => onMinQualityChange(preset.value)}
+            className={`px-3 py-1 rounded-lg text-sm transition-colors ${
+              Math.abs(minQuality - preset.value) < 0.001
+                ? 'bg-purple-600 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {preset.label}
+          </button>
+        ))}
+        {excludedCount > 0 && (
+          <span className="text-xs text-gray-500">
+            흐리거나 작은 얼굴 {excludedCount}개 제외
+          </span>
+        )}
+      </div>
+
+      {/* 최소 거리 히스토그램 */}
+      {distances.length > 0 && (
+        <div>
+          <div className="relative flex items-end gap-px h-24 border-b border-gray-300">
+            {bins.map((count, i) => (
+              <div
+                key={i}
+                className={`flex-1 rounded-t ${
+                  (i + 1) * BIN_SIZE <= threshold + 1e-9
+                    ? 'bg-green-500'
+                    : 'bg-gray-300'
+                }`}
+                style={{ height: `${(count / maxCount) * 100}%` }}
+                title={`${(i * BIN_SIZE).toFixed(2)} ~ ${((i + 1) * BIN_SIZE).toFixed(2)}: ${count}개`}
+              />
+            ))}
+
+            {/* 현재 threshold 위치 */}
+            <div
+              className="absolute top-0 bottom-0 w-0.5 bg-purple-600"
+              style={{ left: `${Math.min(1, threshold) * 100}%` }}
+            />
+          </div>
+          <div className="flex justify-between text-xs text-gray-500 mt-1">
+            <span>0 (유사)</span>
+            <span>0.5</span>
+            <span>1 (다름)</span>
+          </div>
+          <p className="text-xs text-gray-600 mt-2">
+            전체 얼굴 {distances.length}개 중 {matchedCount}개가 기준 이하입니다.
+            두 봉우리 사이의 빈 구간에 기준을 맞추면 가장 잘 구분됩니다.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
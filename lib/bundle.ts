@@ -0,0 +1,516 @@
+/**
+ * 분석 결과 내보내기/가져오기 유틸리티
+ *
+ * 주요 기능:
+ * 1. 내보내기: 버전이 있는 JSON manifest (파일명, 해시, box, descriptor, 표정, 나이/성별, 매칭 점수)
+ * 2. ZIP 내보내기: manifest + 원본 사진 + 기준 사진 + 매칭된 얼굴 크롭
+ * 3. 가져오기: ZIP 또는 manifest.json + 원본 사진 파일들로 얼굴 검출 없이 상태 복원
+ *
+ * descriptor는 JSON에서 number[]로 저장된다. float32 값은 double로 정확히 표현되므로
+ * 다시 Float32Array로 바꾸면 원래 값과 동일하다.
+ *
+ * 가져온 사진과 기준 사진에는 새 id를 붙인다. (IndexedDB는 프로젝트와 무관하게 id로 저장하므로
+ * 내보낸 프로젝트가 남아 있는 브라우저에서 가져와도 원래 프로젝트의 사진을 덮어쓰지 않도록)
+ * 해시를 계산할 수 없는 환경(HTTP로 연 LAN 주소 등)에서는 해시 없이 내보내고, 파일명으로 연결한다.
+ */
+
+import JSZip from "jszip";
+import { v4 as uuidv4 } from "uuid";
+import { cropFaceFromImage } from "./faceRecognition";
+import { computeFileHash, isFileHashSupported } from "./fileHash";
+import {
+  BoundingBox,
+  DetectedFace,
+  FaceRef,
+  GalleryMatchResult,
+  MarathonPhoto,
+  MatchStrategy,
+  PersonProfile,
+  PhotoStatus,
+  ReferencePhoto,
+} from "./types";
+
+export const BUNDLE_SCHEMA = "detectvision-bundle";
+export const BUNDLE_SCHEMA_VERSION = 1;
+
+const MANIFEST_FILE = "manifest.json";
+
+/**
+ * 가져오기 실패 (사용자에게 그대로 보여줄 수 있는 메시지)
+ */
+export class BundleImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BundleImportError";
+  }
+}
+
+/**
+ * JSON으로 저장되는 얼굴 정보 (descriptor만 number[])
+ */
+type SerializedFace = Omit<DetectedFace, "descriptor"> & { descriptor: number[] };
+
+/**
+ * 내보내기 manifest (schema + version으로 호환성 확인)
+ */
+interface BundleManifest {
+  schema: typeof BUNDLE_SCHEMA;
+  version: number;
+  exportedAt: string;
+  settings: {
+    threshold: number;
+    matchStrategy: MatchStrategy;
+  };
+  photos: Array<{
+    id: string;
+    fileName: string;
+    mimeType: string;
+    size: number;
+    // 해시를 계산할 수 없는 환경에서 내보냈으면 없음
+    sha256?: string;
+    archivePath?: string;
+    faces: SerializedFace[];
+    // 상태 기록 이전에 내보낸 파일에는 없음 (검출 완료로 처리)
+    status?: PhotoStatus;
+    error?: string;
+    duplicateOf?: string;
+  }>;
+  people: Array<{
+    id: string;
+    name: string;
+    references: Array<{
+      id: string;
+      fileName: string;
+      mimeType: string;
+      sha256?: string;
+      source: ReferencePhoto["source"];
+      archivePath?: string;
+      descriptor?: number[];
+      confirmedFace?: FaceRef;
+      sourceFace?: { photoId: string; box: BoundingBox };
+    }>;
+    rejectedFaces?: Array<
+      FaceRef & { descriptor: number[]; box?: BoundingBox }
+    >;
+  }>;
+  matches: Record<
+    string,
+    Array<{
+      photoId: string;
+      faceIndex: number;
+      distance: number;
+      score: number;
+      matchedReferenceId: string;
+      cropPath?: string;
+    }>
+  >;
+  unknown: Array<{ photoId: string; faceIndex: number; distance: number }>;
+}
+
+/**
+ * 내보낼 상태
+ */
+export interface BundleState {
+  photos: MarathonPhoto[];
+  people: PersonProfile[];
+  matchResults: GalleryMatchResult | null;
+  threshold: number;
+  matchStrategy: MatchStrategy;
+}
+
+/**
+ * 가져온 상태 (Object URL은 새로 생성됨)
+ * - missingPhotos: 원본 이미지를 찾지 못해 복원하지 못한 사진 파일명
+ */
+export interface ImportedBundle {
+  photos: MarathonPhoto[];
+  people: PersonProfile[];
+  threshold: number;
+  matchStrategy: MatchStrategy;
+  missingPhotos: string[];
+}
+
+// ZIP 내부 경로에 쓸 수 없는 문자 제거
+const safeName = (name: string) => name.replace(/[\\/:*?"<>|]/g, "_");
+
+// 파일 해시 (이미 계산한 해시가 있으면 재사용, 계산할 수 없는 환경이면 undefined)
+const getFileHash = async (file: File, hash?: string) =>
+  hash ?? (isFileHashSupported() ? await computeFileHash(file) : undefined);
+
+/**
+ * 브라우저에서 Blob 다운로드
+ */
+function triggerDownload(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * 현재 상태로 manifest 생성
+ *
+ * @param state - 내보낼 상태
+ * @param includePhoto - 이 사진의 원본을 ZIP에 포함할지 여부 (JSON만 내보낼 때는 항상 false)
+ * @param withArchive - ZIP 경로(archivePath, cropPath)를 기록할지 여부
+ */
+async function buildManifest(
+  state: BundleState,
+  includePhoto: (photo: MarathonPhoto) => boolean,
+  withArchive: boolean
+): Promise<BundleManifest> {
+  const photos: BundleManifest["photos"] = [];
+  for (let i = 0; i < state.photos.length; i++) {
+    const photo = state.photos[i];
+    photos.push({
+      id: photo.id,
+      fileName: photo.file.name,
+      mimeType: photo.file.type,
+      size: photo.file.size,
+      sha256: await getFileHash(photo.file, photo.hash),
+      archivePath:
+        withArchive && includePhoto(photo)
+          ? `photos/${i + 1}_${safeName(photo.file.name)}`
+          : undefined,
+      faces: photo.faces.map((face) => ({
+        ...face,
+        descriptor: Array.from(face.descriptor),
+      })),
+      status: photo.status,
+      error: photo.error,
+      duplicateOf: photo.duplicateOf,
+    });
+  }
+
+  const people: BundleManifest["people"] = [];
+  for (let p = 0; p < state.people.length; p++) {
+    const person = state.people[p];
+    const references: BundleManifest["people"][number]["references"] = [];
+
+    for (let r = 0; r < person.references.length; r++) {
+      const reference = person.references[r];
+      references.push({
+        id: reference.id,
+        fileName: reference.file.name,
+        mimeType: reference.file.type,
+        sha256: await getFileHash(reference.file),
+        source: reference.source,
+        archivePath: withArchive
+          ? `references/${p + 1}_${r + 1}_${safeName(reference.file.name)}`
+          : undefined,
+        descriptor: reference.descriptor
+          ? Array.from(reference.descriptor)
+          : undefined,
+        confirmedFace: reference.confirmedFace,
+        sourceFace: reference.sourceFace,
+      });
+    }
+
+    people.push({
+      id: person.id,
+      name: person.name,
+      references,
+      rejectedFaces: person.rejectedFaces?.map((rejected) => ({
+        ...rejected,
+        descriptor: Array.from(rejected.descriptor),
+      })),
+    });
+  }
+
+  // 크롭 파일 이름에도 사진 번호를 붙여서 이름이 같은 사진끼리 덮어쓰지 않도록
+  const photoNumbers = new Map(
+    state.photos.map((photo, i) => [photo.id, `${i + 1}`])
+  );
+  const matches: BundleManifest["matches"] = {};
+  for (const [personId, results] of Object.entries(
+    state.matchResults?.byPerson ?? {}
+  )) {
+    const personName =
+      state.people.find((person) => person.id === personId)?.name ?? personId;
+
+    matches[personId] = results.map((result) => ({
+      photoId: result.photo.id,
+      faceIndex: result.matchedFaceIndex,
+      distance: result.distance,
+      score: result.score,
+      matchedReferenceId: result.matchedReferenceId,
+      cropPath: withArchive
+        ? `crops/${safeName(personName)}/${
+            photoNumbers.get(result.photo.id) ?? safeName(result.photo.id)
+          }_${safeName(
+            result.photo.file.name.replace(/\.[^/.]+$/, "")
+          )}_${result.matchedFaceIndex + 1}.jpg`
+        : undefined,
+    }));
+  }
+
+  return {
+    schema: BUNDLE_SCHEMA,
+    version: BUNDLE_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    settings: {
+      threshold: state.threshold,
+      matchStrategy: state.matchStrategy,
+    },
+    photos,
+    people,
+    matches,
+    unknown: (state.matchResults?.unknown ?? []).map((result) => ({
+      photoId: result.photo.id,
+      faceIndex: result.matchedFaceIndex,
+      distance: result.distance,
+    })),
+  };
+}
+
+/**
+ * 분석 결과를 JSON manifest로 내보내기 (이미지 미포함)
+ *
+ * @param state - 내보낼 상태
+ */
+export async function exportJsonBundle(state: BundleState): Promise<void> {
+  const manifest = await buildManifest(state, () => false, false);
+  const blob = new Blob([JSON.stringify(manifest, null, 2)], {
+    type: "application/json",
+  });
+  triggerDownload(blob, `detectvision_${Date.now()}.json`);
+}
+
+/**
+ * 분석 결과를 ZIP으로 내보내기
+ * manifest.json + 원본 사진(photos/) + 기준 사진(references/) + 매칭된 얼굴 크롭(crops/)
+ *
+ * @param state - 내보낼 상태
+ * @param includeAllOriginals - 매칭되지 않은 사진 원본도 포함할지 여부 (false면 매칭된 사진만)
+ */
+export async function exportZipBundle(
+  state: BundleState,
+  includeAllOriginals: boolean
+): Promise<void> {
+  const matchedPhotoIds = new Set(
+    Object.values(state.matchResults?.byPerson ?? {}).flatMap((results) =>
+      results.map((result) => result.photo.id)
+    )
+  );
+  const includePhoto = (photo: MarathonPhoto) =>
+    includeAllOriginals || matchedPhotoIds.has(photo.id);
+
+  const manifest = await buildManifest(state, includePhoto, true);
+  const zip = new JSZip();
+  zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+
+  manifest.photos.forEach((entry, i) => {
+    if (entry.archivePath) {
+      zip.file(entry.archivePath, state.photos[i].file);
+    }
+  });
+
+  manifest.people.forEach((entry, p) => {
+    entry.references.forEach((reference, r) => {
+      if (reference.archivePath) {
+        zip.file(reference.archivePath, state.people[p].references[r].file);
+      }
+    });
+  });
+
+  for (const [personId, entries] of Object.entries(manifest.matches)) {
+    const results = state.matchResults?.byPerson[personId] ?? [];
+
+    for (let i = 0; i < entries.length; i++) {
+      const result = results[i];
+      const face = result?.photo.faces[result.matchedFaceIndex];
+      const cropPath = entries[i].cropPath;
+      if (!face || !cropPath) continue;
+
+      zip.file(cropPath, await cropFaceFromImage(result.photo.imageUrl, face));
+    }
+  }
+
+  const blob = await zip.generateAsync({ type: "blob" });
+  triggerDownload(blob, `detectvision_${Date.now()}.zip`);
+}
+
+/**
+ * manifest 형식과 버전 확인
+ */
+function parseManifest(text: string): BundleManifest {
+  let manifest: Partial<BundleManifest>;
+  try {
+    manifest = JSON.parse(text);
+  } catch {
+    throw new BundleImportError("manifest.json을 읽을 수 없습니다. 파일이 손상되었는지 확인해 주세요.");
+  }
+
+  if (manifest.schema !== BUNDLE_SCHEMA) {
+    throw new BundleImportError("detectvision에서 내보낸 파일이 아닙니다.");
+  }
+
+  if (manifest.version !== BUNDLE_SCHEMA_VERSION) {
+    throw new BundleImportError(
+      `지원하지 않는 파일 버전입니다 (파일 v${manifest.version}, 앱 v${BUNDLE_SCHEMA_VERSION}). ` +
+        (Number(manifest.version) > BUNDLE_SCHEMA_VERSION
+          ? "앱을 최신 버전으로 업데이트해 주세요."
+          : "이 버전의 파일은 더 이상 가져올 수 없습니다.")
+    );
+  }
+
+  return manifest as BundleManifest;
+}
+
+/**
+ * 내보낸 파일 가져오기
+ * - ZIP: 내부의 manifest.json과 이미지들을 사용
+ * - JSON: 함께 선택한 이미지 파일들을 SHA-256 해시로 manifest와 연결
+ *   (manifest에 해시가 없거나 해시를 계산할 수 없는 환경이면 파일명으로 연결)
+ *
+ * @param files - 선택한 파일들 (ZIP 1개, 또는 manifest JSON 1개 + 원본 이미지들)
+ * @returns Promise<ImportedBundle> - 복원된 상태
+ */
+export async function importBundle(files: File[]): Promise<ImportedBundle> {
+  const zipFile = files.find((file) => file.name.toLowerCase().endsWith(".zip"));
+  const jsonFile = files.find((file) => file.name.toLowerCase().endsWith(".json"));
+
+  let manifest: BundleManifest;
+  // 경로, 해시 또는 파일명으로 원본 파일 찾기
+  let findBlob: (entry: {
+    archivePath?: string;
+    sha256?: string;
+    fileName: string;
+  }) => Promise<Blob | null>;
+
+  if (zipFile) {
+    const zip = await JSZip.loadAsync(zipFile).catch(() => {
+      throw new BundleImportError("ZIP 파일을 열 수 없습니다.");
+    });
+    const manifestEntry = zip.file(MANIFEST_FILE);
+    if (!manifestEntry) {
+      throw new BundleImportError("ZIP 안에 manifest.json이 없습니다.");
+    }
+
+    manifest = parseManifest(await manifestEntry.async("string"));
+    findBlob = async (entry) => {
+      const file = entry.archivePath ? zip.file(entry.archivePath) : null;
+      return file ? file.async("blob") : null;
+    };
+  } else if (jsonFile) {
+    manifest = parseManifest(await jsonFile.text());
+
+    const imagesByHash = new Map<string, File>();
+    const imagesByName = new Map<string, File>();
+    for (const file of files) {
+      if (file === jsonFile) continue;
+
+      imagesByName.set(file.name, file);
+      const hash = await getFileHash(file);
+      if (hash) {
+        imagesByHash.set(hash, file);
+      }
+    }
+    findBlob = async (entry) =>
+      (entry.sha256 ? imagesByHash.get(entry.sha256) : undefined) ??
+      imagesByName.get(entry.fileName) ??
+      null;
+  } else {
+    throw new BundleImportError("ZIP 파일 또는 manifest JSON 파일을 선택해 주세요.");
+  }
+
+  const photos: MarathonPhoto[] = [];
+  const missingPhotos: string[] = [];
+  // 내보낸 사진 id → 새 사진 id
+  const photoIds = new Map<string, string>();
+
+  for (const entry of manifest.photos) {
+    const blob = await findBlob(entry);
+    if (!blob) {
+      missingPhotos.push(entry.fileName);
+      continue;
+    }
+
+    const file = new File([blob], entry.fileName, { type: entry.mimeType });
+    const id = uuidv4();
+    photoIds.set(entry.id, id);
+    photos.push({
+      id,
+      file,
+      imageUrl: URL.createObjectURL(file),
+      faces: entry.faces.map((face) => ({
+        ...face,
+        descriptor: Float32Array.from(face.descriptor),
+      })),
+      // 검출 중에 내보낸 사진은 다시 검출
+      status:
+        entry.status === "processing" ? "pending" : entry.status ?? "done",
+      error: entry.error,
+      hash: entry.sha256,
+      duplicateOf: entry.duplicateOf,
+    });
+  }
+
+  // 사진을 가리키는 참조를 새 id로 변경
+  // (원본을 찾지 못한 사진은 이 프로젝트에 없으므로 예전 id를 그대로 두어도 어떤 사진도 가리키지 않음)
+  const toPhotoId = (id: string) => photoIds.get(id) ?? id;
+  for (let i = 0; i < photos.length; i++) {
+    const { duplicateOf } = photos[i];
+    if (!duplicateOf) continue;
+
+    // 원본 사진을 가져오지 못한 중복 사진은 직접 검출
+    photos[i] = photoIds.has(duplicateOf)
+      ? { ...photos[i], duplicateOf: toPhotoId(duplicateOf) }
+      : { ...photos[i], duplicateOf: undefined, status: "pending" };
+  }
+
+  const people: PersonProfile[] = [];
+  for (const person of manifest.people) {
+    const references: ReferencePhoto[] = [];
+
+    for (const reference of person.references) {
+      const blob = await findBlob(reference);
+      // 기준 사진 이미지가 없어도 descriptor만 있으면 매칭에는 사용할 수 있음
+      if (!blob && !reference.descriptor) continue;
+
+      const file = new File([blob ?? new Blob()], reference.fileName, {
+        type: reference.mimeType,
+      });
+      references.push({
+        id: uuidv4(),
+        file,
+        imageUrl: URL.createObjectURL(file),
+        source: reference.source,
+        descriptor: reference.descriptor
+          ? Float32Array.from(reference.descriptor)
+          : undefined,
+        confirmedFace: reference.confirmedFace && {
+          ...reference.confirmedFace,
+          photoId: toPhotoId(reference.confirmedFace.photoId),
+        },
+        sourceFace: reference.sourceFace && {
+          ...reference.sourceFace,
+          photoId: toPhotoId(reference.sourceFace.photoId),
+        },
+      });
+    }
+
+    people.push({
+      id: person.id,
+      name: person.name,
+      references,
+      rejectedFaces: person.rejectedFaces?.map((rejected) => ({
+        ...rejected,
+        photoId: toPhotoId(rejected.photoId),
+        descriptor: Float32Array.from(rejected.descriptor),
+      })),
+    });
+  }
+
+  return {
+    photos,
+    people,
+    threshold: manifest.settings.threshold,
+    matchStrategy: manifest.settings.matchStrategy,
+    missingPhotos,
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * 실시간 추적 화면의 카메라 설정
+ *
+ * - enumerateDevices로 연결된 카메라 목록 조회
+ * - 카메라, 해상도, 프레임레이트 설정을 getUserMedia 제약 조건으로 변환
+ * - getUserMedia 실패 원인(권한 거부, 카메라 없음, 지원하지 않는 설정 등)별 안내 메시지
+ */
+
+/**
+ * 연결된 카메라
+ * - label: 카메라 이름 (권한을 허용하기 전에는 비어 있어서 "카메라 N"으로 표시)
+ */
+export interface CameraDevice {
+  deviceId: string;
+  label: string;
+}
+
+/**
+ * 해상도 프리셋
+ */
+export const RESOLUTION_PRESETS = [
+  { id: "vga", label: "640×480", width: 640, height: 480 },
+  { id: "hd", label: "1280×720 (HD)", width: 1280, height: 720 },
+  { id: "fhd", label: "1920×1080 (Full HD)", width: 1920, height: 1080 },
+] as const;
+
+export type ResolutionPreset = (typeof RESOLUTION_PRESETS)[number]["id"];
+
+/**
+ * 카메라 프레임레이트 프리셋 (검출 FPS와 별개로 카메라가 영상을 보내는 속도)
+ */
+export const FRAME_RATE_PRESETS = [15, 30, 60];
+
+/**
+ * 카메라 설정
+ * - deviceId: 사용할 카메라 (빈 문자열이면 브라우저 기본 전면 카메라)
+ * - resolution / frameRate: 요청할 해상도와 프레임레이트 (카메라가 지원하는 가장 가까운 값으로 열림)
+ * - mirrored: 미리보기를 좌우 반전 (거울처럼 보이게, 검출과 캡처에는 영향 없음)
+ */
+export interface CameraSettings {
+  deviceId: string;
+  resolution: ResolutionPreset;
+  frameRate: number;
+  mirrored: boolean;
+}
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+  deviceId: "",
+  resolution: "hd",
+  frameRate: 30,
+  mirrored: true,
+};
+
+/**
+ * 연결된 카메라 목록 조회
+ *
+ * @returns Promise<CameraDevice[]> - 카메라 목록 (mediaDevices를 지원하지 않으면 빈 배열)
+ */
+export async function listCameras(): Promise<CameraDevice[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) {
+    return [];
+  }
+
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter((device) => device.kind === "videoinput")
+    .map((device, index) => ({
+      deviceId: device.deviceId,
+      label: device.label || `카메라 ${index + 1}`,
+    }));
+}
+
+/**
+ * 카메라 설정을 getUserMedia video 제약 조건으로 변환
+ * 카메라를 고른 경우에만 exact로 요청하고, 해상도와 프레임레이트는 ideal로 요청
+ *
+ * @param settings - 카메라 설정
+ * @returns MediaTrackConstraints - video 제약 조건
+ */
+export function buildVideoConstraints(
+  settings: CameraSettings
+): MediaTrackConstraints {
+  const resolution =
+    RESOLUTION_PRESETS.find((preset) => preset.id === settings.resolution) ??
+    RESOLUTION_PRESETS[1];
+
+  return {
+    ...(settings.deviceId
+      ? { deviceId: { exact: settings.deviceId } }
+      : { facingMode: "user" }),
+    width: { ideal: resolution.width },
+    height: { ideal: resolution.height },
+    frameRate: { ideal: settings.frameRate },
+  };
+}
+
+/**
+ * getUserMedia 실패 원인별 안내 메시지
+ *
+ * @param error - getUserMedia에서 발생한 오류
+ * @returns string - 사용자에게 보여 줄 메시지
+ */
+export function getCameraErrorMessage(error: unknown): string {
+  // OverconstrainedError는 브라우저에 따라 Error를 상속하지 않으므로 name만 확인
+  const name =
+    typeof error === "object" && error !== null && "name" in error
+      ? String(error.name)
+      : "";
+
+  switch (name) {
+    case "NotAllowedError":
+    case "SecurityError":
+      return "카메라 권한이 거부되었습니다. 브라우저 주소창의 사이트 설정에서 카메라를 허용한 뒤 다시 시도해 주세요.";
+    case "NotFoundError":
+      return "연결된 카메라를 찾을 수 없습니다. 카메라가 연결되어 있는지 확인해 주세요.";
+    case "OverconstrainedError": {
+      const constraint = (error as { constraint?: string }).constraint;
+      return `선택한 카메라가 요청한 설정${
+        constraint ? `(${constraint})` : ""
+      }을 지원하지 않습니다. 다른 카메라나 해상도를 선택해 주세요.`;
+    }
+    case "NotReadableError":
+    case "AbortError":
+      return "카메라를 시작할 수 없습니다. 다른 프로그램이 카메라를 사용 중인지 확인해 주세요.";
+    default:
+      return "웹캠에 접근할 수 없습니다. 카메라 권한을 확인해 주세요.";
+  }
+}
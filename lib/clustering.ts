@@ -0,0 +1,275 @@
+/**
+ * 기준 사진 없이 사진 속 얼굴들을 사람별로 자동 분류하는 유틸리티
+ *
+ * 주요 기능:
+ * 1. 분류: 모든 얼굴 descriptor를 DBSCAN 방식으로 묶기
+ * 2. 대표 얼굴: 묶음 안에서 다른 얼굴들과 가장 가까운 얼굴 선택
+ * 3. 편집: 묶음 합치기, 얼굴 분리, 이름 붙이기
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import { calculateDistance } from "./faceRecognition";
+import { DetectedFace, FaceCluster, FaceRef, MarathonPhoto } from "./types";
+
+/**
+ * FaceRef가 가리키는 얼굴 정보 반환
+ *
+ * @param photos - 대회 사진들
+ * @param ref - 얼굴 참조
+ * @returns DetectedFace | null - 얼굴 정보 (사진이나 얼굴이 없으면 null)
+ */
+export function getFaceByRef(
+  photos: MarathonPhoto[],
+  ref: FaceRef
+): DetectedFace | null {
+  const photo = photos.find((p) => p.id === ref.photoId);
+  return photo?.faces[ref.faceIndex] ?? null;
+}
+
+/**
+ * 묶음의 대표 얼굴 선택 (다른 얼굴들과의 거리 합이 가장 작은 얼굴)
+ *
+ * @param faces - 묶음에 속한 얼굴 참조들 (1개 이상)
+ * @param photos - 대회 사진들
+ * @returns FaceRef - 대표 얼굴
+ */
+function pickRepresentative(faces: FaceRef[], photos: MarathonPhoto[]): FaceRef {
+  const descriptors = faces.map(
+    (ref) => getFaceByRef(photos, ref)?.descriptor ?? null
+  );
+
+  let best = 0;
+  let bestSum = Infinity;
+
+  for (let i = 0; i < faces.length; i++) {
+    const a = descriptors[i];
+    if (!a) continue;
+
+    let sum = 0;
+    for (let j = 0; j < faces.length; j++) {
+      const b = descriptors[j];
+      if (i !== j && b) {
+        sum += calculateDistance(a, b);
+      }
+    }
+
+    if (sum < bestSum) {
+      bestSum = sum;
+      best = i;
+    }
+  }
+
+  return faces[best];
+}
+
+/**
+ * 얼굴 참조들로 새 묶음 생성
+ */
+function createCluster(
+  faces: FaceRef[],
+  photos: MarathonPhoto[],
+  name: string = ""
+): FaceCluster {
+  return {
+    id: uuidv4(),
+    name,
+    faces,
+    representative: pickRepresentative(faces, photos),
+  };
+}
+
+/**
+ * 묶음 정렬 (얼굴이 많은 묶음이 먼저)
+ */
+function sortClusters(clusters: FaceCluster[]): FaceCluster[] {
+  return [...clusters].sort((a, b) => b.faces.length - a.faces.length);
+}
+
+/**
+ * 모든 사진의 얼굴들을 같은 사람끼리 묶기 (DBSCAN 방식)
+ *
+ * 처리 과정:
+ * 1. 모든 얼굴 쌍의 유클리드 거리 계산
+ * 2. 거리가 eps 이하인 이웃이 (자신 포함) minPoints개 이상이면 핵심 얼굴로 보고 묶음 확장
+ * 3. 어느 묶음에도 속하지 않은 얼굴은 얼굴 1개짜리 묶음으로 분리
+ * 4. 얼굴이 많은 묶음부터 정렬
+ *
+ * @param photos - 대회 사진들 (얼굴 검출 완료된 상태)
+ * @param eps - 같은 사람으로 볼 최대 거리 (기본 0.5, 매칭 threshold보다 엄격하게)
+ * @param minPoints - 핵심 얼굴로 보기 위한 최소 이웃 수 (기본 2)
+ * @returns FaceCluster[] - 얼굴 묶음들 (얼굴 수 내림차순)
+ */
+export function clusterFaces(
+  photos: MarathonPhoto[],
+  eps: number = 0.5,
+  minPoints: number = 2
+): FaceCluster[] {
+  const refs: FaceRef[] = [];
+  const descriptors: Float32Array[] = [];
+
+  for (const photo of photos) {
+    photo.faces.forEach((face, faceIndex) => {
+      refs.push({ photoId: photo.id, faceIndex });
+      descriptors.push(face.descriptor);
+    });
+  }
+
+  const n = refs.length;
+
+  // 거리 행렬 (대칭이므로 절반만 계산)
+  const distances = new Float32Array(n * n);
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const d = calculateDistance(descriptors[i], descriptors[j]);
+      distances[i * n + j] = d;
+      distances[j * n + i] = d;
+    }
+  }
+
+  const neighborsOf = (i: number): number[] => {
+    const neighbors: number[] = [];
+    for (let j = 0; j < n; j++) {
+      if (i !== j && distances[i * n + j] <= eps) {
+        neighbors.push(j);
+      }
+    }
+    return neighbors;
+  };
+
+  const NOISE = -2;
+  const UNVISITED = -1;
+  const labels = new Array<number>(n).fill(UNVISITED);
+  let clusterCount = 0;
+
+  for (let i = 0; i < n; i++) {
+    if (labels[i] !== UNVISITED) continue;
+
+    const neighbors = neighborsOf(i);
+    if (neighbors.length + 1 < minPoints) {
+      labels[i] = NOISE;
+      continue;
+    }
+
+    const label = clusterCount++;
+    labels[i] = label;
+    const queue = [...neighbors];
+
+    while (queue.length > 0) {
+      const j = queue.shift()!;
+
+      // 경계 얼굴: 묶음에는 포함하지만 확장하지 않음
+      if (labels[j] === NOISE) {
+        labels[j] = label;
+        continue;
+      }
+      if (labels[j] !== UNVISITED) continue;
+
+      labels[j] = label;
+      const next = neighborsOf(j);
+      if (next.length + 1 >= minPoints) {
+        queue.push(...next);
+      }
+    }
+  }
+
+  const grouped: FaceRef[][] = Array.from({ length: clusterCount }, () => []);
+  const clusters: FaceCluster[] = [];
+
+  labels.forEach((label, i) => {
+    if (label >= 0) {
+      grouped[label].push(refs[i]);
+    } else {
+      clusters.push(createCluster([refs[i]], photos));
+    }
+  });
+
+  for (const faces of grouped) {
+    clusters.push(createCluster(faces, photos));
+  }
+
+  return sortClusters(clusters);
+}
+
+/**
+ * 여러 묶음을 하나로 합치기
+ * 이름은 합치는 묶음 중 처음으로 이름이 있는 묶음의 이름을 사용
+ *
+ * @param clusters - 현재 묶음들
+ * @param ids - 합칠 묶음 id들 (2개 이상)
+ * @param photos - 대회 사진들
+ * @returns FaceCluster[] - 합친 결과
+ */
+export function mergeClusters(
+  clusters: FaceCluster[],
+  ids: string[],
+  photos: MarathonPhoto[]
+): FaceCluster[] {
+  const targets = clusters.filter((cluster) => ids.includes(cluster.id));
+  if (targets.length < 2) {
+    return clusters;
+  }
+
+  const merged = createCluster(
+    targets.flatMap((cluster) => cluster.faces),
+    photos,
+    targets.find((cluster) => cluster.name)?.name ?? ""
+  );
+
+  return sortClusters([
+    ...clusters.filter((cluster) => !ids.includes(cluster.id)),
+    merged,
+  ]);
+}
+
+/**
+ * 묶음에서 얼굴 하나를 떼어 새 묶음으로 분리
+ *
+ * @param clusters - 현재 묶음들
+ * @param clusterId - 얼굴이 속한 묶음 id
+ * @param face - 분리할 얼굴
+ * @param photos - 대회 사진들
+ * @returns FaceCluster[] - 분리한 결과
+ */
+export function splitFaceFromCluster(
+  clusters: FaceCluster[],
+  clusterId: string,
+  face: FaceRef,
+  photos: MarathonPhoto[]
+): FaceCluster[] {
+  const source = clusters.find((cluster) => cluster.id === clusterId);
+  if (!source || source.faces.length < 2) {
+    return clusters;
+  }
+
+  const isSameFace = (ref: FaceRef) =>
+    ref.photoId === face.photoId && ref.faceIndex === face.faceIndex;
+  const remaining = source.faces.filter((ref) => !isSameFace(ref));
+
+  return sortClusters([
+    ...clusters.filter((cluster) => cluster.id !== clusterId),
+    {
+      ...source,
+      faces: remaining,
+      representative: pickRepresentative(remaining, photos),
+    },
+    createCluster([face], photos),
+  ]);
+}
+
+/**
+ * 묶음 이름 변경
+ *
+ * @param clusters - 현재 묶음들
+ * @param clusterId - 이름을 바꿀 묶음 id
+ * @param name - 새 이름
+ * @returns FaceCluster[] - 변경 결과
+ */
+export function renameCluster(
+  clusters: FaceCluster[],
+  clusterId: string,
+  name: string
+): FaceCluster[] {
+  return clusters.map((cluster) =>
+    cluster.id === clusterId ? { ...cluster, name } : cluster
+  );
+}
@@ -0,0 +1,133 @@
+/**
+ * 얼굴 bounding box 좌표 변환 유틸리티
+ *
+ * DetectedFace.box는 항상 원본 이미지 픽셀 좌표로 저장된다.
+ * 검출(리사이즈된 canvas), 크롭(원본 이미지), 오버레이(화면에 표시된 크기) 등
+ * 서로 다른 좌표계 사이의 변환은 모두 이 모듈을 거친다.
+ */
+
+import { BoundingBox, DetectedFace, ImageSize } from "./types";
+
+/**
+ * 한 좌표계의 box를 다른 크기의 좌표계로 변환
+ *
+ * @param box - 변환할 box
+ * @param from - box가 속한 좌표계의 크기
+ * @param to - 변환할 대상 좌표계의 크기
+ * @returns BoundingBox - 대상 좌표계 기준 box
+ */
+export function mapBox(
+  box: BoundingBox,
+  from: ImageSize,
+  to: ImageSize
+): BoundingBox {
+  const scaleX = to.width / from.width;
+  const scaleY = to.height / from.height;
+
+  return {
+    x: box.x * scaleX,
+    y: box.y * scaleY,
+    width: box.width * scaleX,
+    height: box.height * scaleY,
+  };
+}
+
+/**
+ * 얼굴 box를 원하는 크기의 좌표계로 변환
+ * (예: 화면에 표시된 이미지 크기, 다시 로드한 원본 이미지 크기)
+ *
+ * @param face - 검출된 얼굴 (원본 픽셀 좌표 box + 원본 크기)
+ * @param target - 대상 좌표계의 크기
+ * @returns BoundingBox - 대상 좌표계 기준 box
+ */
+export function getFaceBoxIn(
+  face: Pick<DetectedFace, "box" | "sourceSize">,
+  target: ImageSize
+): BoundingBox {
+  return mapBox(face.box, face.sourceSize, target);
+}
+
+/**
+ * box가 이미지 경계를 넘지 않도록 잘라냄
+ *
+ * @param box - 원본 box
+ * @param bounds - 이미지 크기
+ * @returns BoundingBox - 경계 안으로 잘린 box
+ */
+export function clampBox(box: BoundingBox, bounds: ImageSize): BoundingBox {
+  const x = Math.max(0, box.x);
+  const y = Math.max(0, box.y);
+  const right = Math.min(bounds.width, box.x + box.width);
+  const bottom = Math.min(bounds.height, box.y + box.height);
+
+  return {
+    x,
+    y,
+    width: Math.max(0, right - x),
+    height: Math.max(0, bottom - y),
+  };
+}
+
+/**
+ * box 주변에 여백을 추가하고 이미지 경계 안으로 제한
+ *
+ * @param box - 원본 box
+ * @param padding - 여백 비율 (0.2 = box 크기의 20%)
+ * @param bounds - 이미지 크기
+ * @returns BoundingBox - 여백이 포함된 box
+ */
+export function padBox(
+  box: BoundingBox,
+  padding: number,
+  bounds: ImageSize
+): BoundingBox {
+  const paddingX = box.width * padding;
+  const paddingY = box.height * padding;
+
+  return clampBox(
+    {
+      x: box.x - paddingX,
+      y: box.y - paddingY,
+      width: box.width + paddingX * 2,
+      height: box.height + paddingY * 2,
+    },
+    bounds
+  );
+}
+
+/**
+ * 두 box의 IoU (겹친 넓이 / 합친 넓이)
+ *
+ * @param a - 첫 번째 box
+ * @param b - 두 번째 box
+ * @returns number - 0 (겹치지 않음) ~ 1 (완전히 같음)
+ */
+export function getIoU(a: BoundingBox, b: BoundingBox): number {
+  const overlapWidth = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const overlapHeight =
+    Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+
+  if (overlapWidth <= 0 || overlapHeight <= 0) {
+    return 0;
+  }
+
+  const intersection = overlapWidth * overlapHeight;
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+}
+
+/**
+ * box를 좌표계 안에서 좌우 반전 (좌우 반전된 미리보기 위에 그릴 때)
+ *
+ * @param box - 원본 box
+ * @param width - 좌표계의 너비
+ * @returns BoundingBox - 좌우 반전된 box
+ */
+export function mirrorBox(box: BoundingBox, width: number): BoundingBox {
+  return {
+    x: width - box.x - box.width,
+    y: box.y,
+    width: box.width,
+    height: box.height,
+  };
+}
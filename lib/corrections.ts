@@ -0,0 +1,321 @@
+/**
+ * 매칭 결과 수동 보정
+ *
+ * 자동 매칭이 틀렸을 때 사용자가 고친 내용을 인물 프로필에 반영한다.
+ * - 맞아요(confirm): 그 얼굴을 잘라 기준 사진으로 추가 (비슷한 얼굴도 더 잘 찾게 됨)
+ * - 아니에요(reject): 그 얼굴의 descriptor를 negative로 저장
+ *   (다시 매칭할 때 기준 사진보다 negative에 더 가까운 얼굴은 그 사람으로 배정하지 않음)
+ *
+ * 한 얼굴은 한 사람으로만 확인할 수 있으므로, 다른 사람으로 확인하면 이전 확인은 취소된다.
+ * 확인 기록은 얼굴 번호(faceIndex)로 얼굴을 가리키므로, 검출 설정이 바뀌어 사진을 다시 검출하면
+ * 저장해 둔 얼굴 영역과 가장 많이 겹치는 새 얼굴로 옮긴다.
+ * 모든 함수는 people 배열을 직접 바꾸지 않고 새 배열을 반환한다.
+ */
+
+import { getIoU } from "./coordinates";
+import {
+  BoundingBox,
+  DetectedFace,
+  FaceRef,
+  MarathonPhoto,
+  PersonProfile,
+  ReferencePhoto,
+  RejectedFace,
+} from "./types";
+
+// 다시 검출한 얼굴을 이전 얼굴과 같은 얼굴로 볼 최소 IoU
+const MIN_REANCHOR_IOU = 0.5;
+
+/**
+ * 두 얼굴 참조가 같은 얼굴을 가리키는지 확인
+ */
+export function isSameFace(a: FaceRef, b: FaceRef): boolean {
+  return a.photoId === b.photoId && a.faceIndex === b.faceIndex;
+}
+
+/**
+ * 이 얼굴을 "맞아요"로 확인한 사람의 id
+ *
+ * @param people - 인물 프로필들
+ * @param face - 얼굴 참조
+ * @returns string | null - 확인한 사람이 없으면 null
+ */
+export function getConfirmedPersonId(
+  people: PersonProfile[],
+  face: FaceRef
+): string | null {
+  const person = people.find((p) =>
+    p.references.some(
+      (reference) =>
+        reference.confirmedFace && isSameFace(reference.confirmedFace, face)
+    )
+  );
+  return person?.id ?? null;
+}
+
+/**
+ * 이 얼굴을 "아니에요"로 확인한 사람들의 id
+ *
+ * @param people - 인물 프로필들
+ * @param face - 얼굴 참조
+ * @returns string[] - 확인한 사람들의 id
+ */
+export function getRejectingPersonIds(
+  people: PersonProfile[],
+  face: FaceRef
+): string[] {
+  return people
+    .filter((person) =>
+      (person.rejectedFaces ?? []).some((rejected) =>
+        isSameFace(rejected, face)
+      )
+    )
+    .map((person) => person.id);
+}
+
+/**
+ * 이 얼굴에서 만든 기준 사진들 (확인을 취소할 때 Object URL 해제용)
+ *
+ * @param people - 인물 프로필들
+ * @param face - 얼굴 참조
+ * @param personId - 지정하면 그 사람의 기준 사진만
+ */
+export function getConfirmedReferences(
+  people: PersonProfile[],
+  face: FaceRef,
+  personId?: string
+): ReferencePhoto[] {
+  return people
+    .filter((person) => personId === undefined || person.id === personId)
+    .flatMap((person) =>
+      person.references.filter(
+        (reference) =>
+          reference.confirmedFace && isSameFace(reference.confirmedFace, face)
+      )
+    );
+}
+
+/**
+ * 기준 사진을 잘라 온 대회 사진의 얼굴 영역
+ * 원래 영역을 저장하기 전에 확인한 기준 사진은 지금 검출 결과에서 확인한 얼굴의 영역을 사용
+ *
+ * @param reference - 기준 사진
+ * @param photos - 대회 사진들
+ * @returns 원래 사진과 얼굴 영역 (업로드한 사진이거나 찾을 수 없으면 undefined)
+ */
+export function getReferenceSourceFace(
+  reference: ReferencePhoto,
+  photos: MarathonPhoto[]
+): ReferencePhoto["sourceFace"] {
+  if (reference.sourceFace || !reference.confirmedFace) {
+    return reference.sourceFace;
+  }
+
+  const { photoId, faceIndex } = reference.confirmedFace;
+  const face = photos.find((photo) => photo.id === photoId)?.faces[faceIndex];
+  return face ? { photoId, box: face.box } : undefined;
+}
+
+/**
+ * 검출 결과를 지우기 전에 확인 기록에 얼굴 영역 저장 (영역 없이 저장된 예전 기록용)
+ *
+ * @param people - 인물 프로필들
+ * @param photos - 지우기 전의 대회 사진들
+ * @returns PersonProfile[] - 갱신된 인물 프로필들
+ */
+export function recordCorrectionBoxes(
+  people: PersonProfile[],
+  photos: MarathonPhoto[]
+): PersonProfile[] {
+  const getBox = (face: FaceRef) =>
+    photos.find((photo) => photo.id === face.photoId)?.faces[face.faceIndex]
+      ?.box;
+
+  return people.map((person) => ({
+    ...person,
+    references: person.references.map((reference) =>
+      reference.confirmedFace && !reference.sourceFace
+        ? { ...reference, sourceFace: getReferenceSourceFace(reference, photos) }
+        : reference
+    ),
+    rejectedFaces: person.rejectedFaces?.map((rejected) =>
+      rejected.box ? rejected : { ...rejected, box: getBox(rejected) }
+    ),
+  }));
+}
+
+/**
+ * 사진을 다시 검출한 뒤 그 사진의 확인 기록을 새 얼굴 번호로 옮김
+ * 저장해 둔 얼굴 영역과 가장 많이 겹치는 얼굴을 찾고, 겹치는 얼굴이 없으면 확인 기록을 지움
+ * (맞아요로 만든 기준 사진은 남겨 두고 어느 얼굴에서 만들었는지만 지움)
+ * 아니에요 기록의 descriptor는 옮긴 얼굴의 새 descriptor로 바꿈 (얼굴 정렬 설정이 바뀌어도 비교 가능)
+ *
+ * @param people - 인물 프로필들
+ * @param photoId - 다시 검출한 사진
+ * @param faces - 다시 검출한 얼굴들
+ * @returns PersonProfile[] - 갱신된 인물 프로필들
+ */
+export function reanchorCorrections(
+  people: PersonProfile[],
+  photoId: string,
+  faces: DetectedFace[]
+): PersonProfile[] {
+  const findFaceIndex = (box: BoundingBox | undefined) => {
+    if (!box) return -1;
+
+    let bestIndex = -1;
+    let bestIoU = MIN_REANCHOR_IOU;
+    faces.forEach((face, index) => {
+      const iou = getIoU(face.box, box);
+      if (iou >= bestIoU) {
+        bestIndex = index;
+        bestIoU = iou;
+      }
+    });
+    return bestIndex;
+  };
+
+  return people.map((person) => ({
+    ...person,
+    references: person.references.map((reference) => {
+      if (reference.confirmedFace?.photoId !== photoId) {
+        return reference;
+      }
+
+      const faceIndex = findFaceIndex(reference.sourceFace?.box);
+      return faceIndex >= 0
+        ? { ...reference, confirmedFace: { photoId, faceIndex } }
+        : { ...reference, confirmedFace: undefined };
+    }),
+    rejectedFaces: person.rejectedFaces?.flatMap((rejected) => {
+      if (rejected.photoId !== photoId) {
+        return [rejected];
+      }
+
+      // 검출 설정이 바뀌었을 수 있으므로 negative도 새 얼굴의 descriptor로 교체
+      const faceIndex = findFaceIndex(rejected.box);
+      return faceIndex >= 0
+        ? [
+            {
+              ...rejected,
+              faceIndex,
+              descriptor: faces[faceIndex].descriptor,
+              box: faces[faceIndex].box,
+            },
+          ]
+        : [];
+    }),
+  }));
+}
+
+/**
+ * 다시 검출한 뒤에도 유지할 직접 추가한 얼굴
+ * 검출기가 같은 자리에서 얼굴을 새로 찾았으면 검출된 얼굴을 쓰므로 제외
+ *
+ * @param previous - 다시 검출하기 전의 얼굴들
+ * @param detected - 다시 검출한 얼굴들
+ * @returns DetectedFace[] - 유지할 직접 추가한 얼굴들
+ */
+export function getMissedManualFaces(
+  previous: DetectedFace[],
+  detected: DetectedFace[]
+): DetectedFace[] {
+  return previous.filter(
+    (face) =>
+      face.manual &&
+      detected.every(
+        (detectedFace) => getIoU(detectedFace.box, face.box) < MIN_REANCHOR_IOU
+      )
+  );
+}
+
+// 한 사람의 보정 기록에서 이 얼굴 제거
+const removeCorrection = (
+  person: PersonProfile,
+  face: FaceRef
+): PersonProfile => ({
+  ...person,
+  references: person.references.filter(
+    (reference) =>
+      !reference.confirmedFace || !isSameFace(reference.confirmedFace, face)
+  ),
+  rejectedFaces: (person.rejectedFaces ?? []).filter(
+    (rejected) => !isSameFace(rejected, face)
+  ),
+});
+
+/**
+ * 얼굴을 이 사람으로 확인 (기준 사진으로 추가)
+ * 다른 사람으로 확인했던 기록과 이 사람의 "아니에요" 기록은 취소
+ *
+ * @param people - 인물 프로필들
+ * @param personId - 확인할 사람
+ * @param reference - 얼굴을 잘라 만든 기준 사진 (confirmedFace 포함)
+ * @returns PersonProfile[] - 갱신된 인물 프로필들
+ */
+export function confirmFace(
+  people: PersonProfile[],
+  personId: string,
+  reference: ReferencePhoto & { confirmedFace: FaceRef }
+): PersonProfile[] {
+  const face = reference.confirmedFace;
+
+  return people.map((person) => {
+    if (person.id !== personId) {
+      return {
+        ...person,
+        references: person.references.filter(
+          (r) => !r.confirmedFace || !isSameFace(r.confirmedFace, face)
+        ),
+      };
+    }
+
+    const cleared = removeCorrection(person, face);
+    return { ...cleared, references: [...cleared.references, reference] };
+  });
+}
+
+/**
+ * 얼굴이 이 사람이 아니라고 확인 (negative로 저장)
+ * 이 사람으로 확인했던 기록은 취소
+ *
+ * @param people - 인물 프로필들
+ * @param personId - 아니라고 확인할 사람
+ * @param rejected - 얼굴 참조와 descriptor
+ * @returns PersonProfile[] - 갱신된 인물 프로필들
+ */
+export function rejectFace(
+  people: PersonProfile[],
+  personId: string,
+  rejected: RejectedFace
+): PersonProfile[] {
+  return people.map((person) => {
+    if (person.id !== personId) {
+      return person;
+    }
+
+    const cleared = removeCorrection(person, rejected);
+    return {
+      ...cleared,
+      rejectedFaces: [...(cleared.rejectedFaces ?? []), rejected],
+    };
+  });
+}
+
+/**
+ * 이 사람에 대한 얼굴 확인 기록 취소 (맞아요 / 아니에요 모두)
+ *
+ * @param people - 인물 프로필들
+ * @param personId - 취소할 사람
+ * @param face - 얼굴 참조
+ * @returns PersonProfile[] - 갱신된 인물 프로필들
+ */
+export function undoCorrection(
+  people: PersonProfile[],
+  personId: string,
+  face: FaceRef
+): PersonProfile[] {
+  return people.map((person) =>
+    person.id === personId ? removeCorrection(person, face) : person
+  );
+}
@@ -0,0 +1,148 @@
+/**
+ * 얼굴 검출 Web Worker
+ *
+ * 메인 스레드를 막지 않도록 face-api.js 검출을 Worker에서 실행
+ * - DOM이 없으므로 face-api.js 환경을 OffscreenCanvas 기반으로 설정
+ * - 이미지는 createImageBitmap으로 디코딩 후 OffscreenCanvas에 축소해서 그림
+ *   (검출 과정은 메인 스레드와 같은 detectFacesInSource 사용)
+ * - 결과 descriptor 버퍼는 transfer로 복사 없이 전달
+ *
+ * 메시지 형식은 detectionProtocol.ts 참고
+ */
+
+import * as faceapi from "face-api.js";
+import { detectFacesInSource, loadModels } from "./faceRecognition";
+import {
+  DetectionBackend,
+  DetectionWorkerRequest,
+  DetectionWorkerResponse,
+} from "./detectionProtocol";
+import { DetectionConfig } from "./types";
+
+// DOM 요소가 없는 Worker에서는 사용하지 않는 타입의 자리표시자
+class Unsupported {
+  constructor() {
+    throw new Error("Worker에서는 지원하지 않는 요소입니다.");
+  }
+}
+
+faceapi.env.setEnv({
+  Canvas: OffscreenCanvas as unknown as typeof HTMLCanvasElement,
+  CanvasRenderingContext2D:
+    OffscreenCanvasRenderingContext2D as unknown as typeof CanvasRenderingContext2D,
+  Image: Unsupported as unknown as typeof HTMLImageElement,
+  ImageData,
+  Video: Unsupported as unknown as typeof HTMLVideoElement,
+  createCanvasElement: () =>
+    new OffscreenCanvas(1, 1) as unknown as HTMLCanvasElement,
+  createImageElement: () => new Unsupported() as unknown as HTMLImageElement,
+  fetch: (url: string, init?: RequestInit) => fetch(url, init),
+  readFile: () => {
+    throw new Error("Worker에서는 파일 시스템을 사용할 수 없습니다.");
+  },
+});
+
+let modelsReady: Promise<void> | null = null;
+const cancelledRequests = new Set<number>();
+
+function reply(message: DetectionWorkerResponse, transfer: Transferable[] = []) {
+  self.postMessage(message, { transfer });
+}
+
+/**
+ * tfjs 백엔드 설정 (webgl을 사용할 수 없으면 cpu로 대체)
+ */
+async function setupBackend(backend: DetectionBackend): Promise<string> {
+  if (backend === "webgl") {
+    try {
+      if (await faceapi.tf.setBackend("webgl")) {
+        await faceapi.tf.ready();
+        return "webgl";
+      }
+    } catch {
+      // OffscreenCanvas WebGL을 지원하지 않는 브라우저
+    }
+  }
+
+  await faceapi.tf.setBackend("cpu");
+  await faceapi.tf.ready();
+  return "cpu";
+}
+
+/**
+ * 이미지 1장 검출 (원본 크기 기준 box 반환)
+ */
+async function detect(file: Blob, config: DetectionConfig) {
+  const bitmap = await createImageBitmap(file);
+
+  try {
+    return await detectFacesInSource(
+      bitmap,
+      { width: bitmap.width, height: bitmap.height },
+      config
+    );
+  } finally {
+    bitmap.close();
+  }
+}
+
+self.onmessage = async (event: MessageEvent<DetectionWorkerRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case "load-models": {
+      modelsReady = (async () => {
+        const backend = await setupBackend(request.backend);
+        await loadModels(request.modelUrl);
+        reply({ type: "models-loaded", backend });
+      })();
+
+      modelsReady.catch((error) => {
+        reply({
+          type: "error",
+          message: error instanceof Error ? error.message : String(error),
+        });
+      });
+      break;
+    }
+
+    case "detect": {
+      try {
+        if (!modelsReady) {
+          throw new Error("모델이 로드되지 않았습니다.");
+        }
+        await modelsReady;
+
+        const faces = await detect(request.file, request.config);
+
+        if (cancelledRequests.delete(request.requestId)) {
+          reply({ type: "cancelled", requestId: request.requestId });
+          return;
+        }
+
+        // descriptor는 독립된 버퍼로 복사한 뒤 transfer
+        const transferable = faces.map((face) => ({
+          ...face,
+          descriptor: new Float32Array(face.descriptor),
+        }));
+        reply(
+          { type: "detected", requestId: request.requestId, faces: transferable },
+          transferable.map((face) => face.descriptor.buffer)
+        );
+      } catch (error) {
+        cancelledRequests.delete(request.requestId);
+        reply({
+          type: "error",
+          requestId: request.requestId,
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+      break;
+    }
+
+    case "cancel": {
+      cancelledRequests.add(request.requestId);
+      break;
+    }
+  }
+};
@@ -0,0 +1,39 @@
+/**
+ * 얼굴 검출 Web Worker와 메인 스레드 사이의 메시지 형식
+ *
+ * 메인 → Worker
+ * - load-models: 모델 로드 (tfjs 백엔드 선택 포함)
+ * - detect: 이미지 1장 검출 요청
+ * - cancel: 진행 중인 검출 요청 취소 (결과를 버리고 cancelled로 응답)
+ *
+ * Worker → 메인
+ * - models-loaded: 모델 로드 완료 (실제로 사용 중인 백엔드)
+ * - detected: 검출 결과 (descriptor 버퍼는 transfer로 전달)
+ * - cancelled: 취소된 요청
+ * - error: 실패 (requestId가 없으면 모델 로드 실패)
+ */
+
+import { DetectedFace, DetectionConfig } from "./types";
+
+/**
+ * Worker에서 사용할 tfjs 백엔드
+ * - webgl: OffscreenCanvas WebGL (지원하지 않으면 cpu로 대체)
+ * - cpu: 순수 JavaScript 연산 (느리지만 어디서나 동작)
+ */
+export type DetectionBackend = "webgl" | "cpu";
+
+export type DetectionWorkerRequest =
+  | { type: "load-models"; modelUrl: string; backend: DetectionBackend }
+  | {
+      type: "detect";
+      requestId: number;
+      file: Blob;
+      config: DetectionConfig;
+    }
+  | { type: "cancel"; requestId: number };
+
+export type DetectionWorkerResponse =
+  | { type: "models-loaded"; backend: string }
+  | { type: "detected"; requestId: number; faces: DetectedFace[] }
+  | { type: "cancelled"; requestId: number }
+  | { type: "error"; requestId?: number; message: string };
@@ -0,0 +1,245 @@
+/**
+ * 얼굴 검출 Worker 풀
+ *
+ * detection.worker.ts를 여러 개 띄워 사진을 동시에 검출
+ * - 대기열은 메인 스레드에서 관리하고, 쉬고 있는 Worker에 1장씩 배정
+ * - AbortSignal로 대기 중이거나 진행 중인 요청을 취소 가능
+ *   - 대기 중인 요청은 바로 취소
+ *   - 진행 중인 요청은 Worker에 취소를 알려 결과를 버림. 이미 시작한 검출은 중간에 멈출 수 없으므로
+ *     (모델을 다시 로드해야 하는 Worker 재시작 대신) 그 Worker는 검출이 끝난 뒤에 다음 사진을 받음
+ */
+
+import { DetectedFace, DetectionConfig } from "./types";
+import {
+  DetectionBackend,
+  DetectionWorkerRequest,
+  DetectionWorkerResponse,
+} from "./detectionProtocol";
+
+export interface DetectionWorkerPool {
+  // Worker 수
+  size: number;
+  // 모든 Worker의 모델 로드 완료 (실제 사용 중인 백엔드 목록)
+  ready: Promise<string[]>;
+  // 사진 1장 검출 (signal로 취소하면 AbortError, 진행 중인 검출은 끝날 때까지 Worker를 사용)
+  detect: (
+    file: Blob,
+    config: DetectionConfig,
+    signal?: AbortSignal
+  ) => Promise<DetectedFace[]>;
+  terminate: () => void;
+}
+
+interface DetectionJob {
+  requestId: number;
+  file: Blob;
+  config: DetectionConfig;
+  signal?: AbortSignal;
+  resolve: (faces: DetectedFace[]) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  job: DetectionJob | null;
+}
+
+/**
+ * 현재 브라우저에서 Worker 검출을 사용할 수 있는지 확인
+ */
+export function isWorkerDetectionSupported(): boolean {
+  return (
+    typeof window !== "undefined" &&
+    typeof Worker !== "undefined" &&
+    typeof OffscreenCanvas !== "undefined" &&
+    typeof createImageBitmap !== "undefined"
+  );
+}
+
+/**
+ * 기본 Worker 수 (CPU 코어 수 - 1, 최대 4개)
+ */
+export function getDefaultWorkerCount(): number {
+  const cores =
+    typeof navigator !== "undefined" ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(4, cores - 1));
+}
+
+function createAbortError(): Error {
+  return new DOMException("검출이 취소되었습니다.", "AbortError");
+}
+
+/**
+ * 얼굴 검출 Worker 풀 생성
+ *
+ * @param size - 동시에 실행할 Worker 수
+ * @param backend - Worker에서 사용할 tfjs 백엔드
+ * @param modelUrl - 모델 파일 경로 (Worker 기준으로 절대 경로로 변환)
+ */
+export function createDetectionWorkerPool(
+  size: number,
+  backend: DetectionBackend = "webgl",
+  modelUrl: string = "/models"
+): DetectionWorkerPool {
+  const absoluteModelUrl = new URL(modelUrl, window.location.origin).href;
+  const queue: DetectionJob[] = [];
+  let nextRequestId = 1;
+  let isTerminated = false;
+
+  const post = (poolWorker: PoolWorker, message: DetectionWorkerRequest) => {
+    poolWorker.worker.postMessage(message);
+  };
+
+  // 쉬고 있는 Worker에 대기 중인 요청 배정
+  const dispatch = () => {
+    for (const poolWorker of workers) {
+      if (poolWorker.job) continue;
+
+      const job = queue.shift();
+      if (!job) return;
+
+      poolWorker.job = job;
+      post(poolWorker, {
+        type: "detect",
+        requestId: job.requestId,
+        file: job.file,
+        config: job.config,
+      });
+    }
+  };
+
+  const finishJob = (poolWorker: PoolWorker) => {
+    const job = poolWorker.job;
+    poolWorker.job = null;
+    dispatch();
+    return job;
+  };
+
+  const readyPromises: Promise<string>[] = [];
+
+  const workers: PoolWorker[] = Array.from({ length: size }, () => {
+    const poolWorker: PoolWorker = {
+      worker: new Worker(new URL("./detection.worker.ts", import.meta.url), {
+        type: "module",
+      }),
+      job: null,
+    };
+
+    readyPromises.push(
+      new Promise<string>((resolve, reject) => {
+        poolWorker.worker.onmessage = (
+          event: MessageEvent<DetectionWorkerResponse>
+        ) => {
+          const response = event.data;
+
+          switch (response.type) {
+            case "models-loaded":
+              resolve(response.backend);
+              break;
+
+            case "detected":
+              finishJob(poolWorker)?.resolve(response.faces);
+              break;
+
+            case "cancelled":
+              finishJob(poolWorker)?.reject(createAbortError());
+              break;
+
+            case "error":
+              if (response.requestId === undefined) {
+                reject(new Error(response.message));
+              } else {
+                finishJob(poolWorker)?.reject(new Error(response.message));
+              }
+              break;
+          }
+        };
+
+        poolWorker.worker.onerror = (event) => {
+          const error = new Error(event.message || "Worker 실행 실패");
+          reject(error);
+          finishJob(poolWorker)?.reject(error);
+        };
+      })
+    );
+
+    post(poolWorker, {
+      type: "load-models",
+      modelUrl: absoluteModelUrl,
+      backend,
+    });
+
+    return poolWorker;
+  });
+
+  const detect = (
+    file: Blob,
+    config: DetectionConfig,
+    signal?: AbortSignal
+  ) =>
+    new Promise<DetectedFace[]>((resolve, reject) => {
+      if (isTerminated) {
+        reject(new Error("종료된 Worker 풀입니다."));
+        return;
+      }
+      if (signal?.aborted) {
+        reject(createAbortError());
+        return;
+      }
+
+      // 아직 대기 중이면 바로 제거, 진행 중이면 Worker에 취소 요청
+      const handleAbort = () => {
+        const queueIndex = queue.indexOf(job);
+        if (queueIndex !== -1) {
+          queue.splice(queueIndex, 1);
+          job.reject(createAbortError());
+          return;
+        }
+
+        const owner = workers.find((poolWorker) => poolWorker.job === job);
+        if (owner) {
+          post(owner, { type: "cancel", requestId: job.requestId });
+        }
+      };
+
+      // 요청이 끝나면 abort 리스너 제거 (분석 전체에 쓰는 signal에 리스너가 쌓이지 않도록)
+      const job: DetectionJob = {
+        requestId: nextRequestId++,
+        file,
+        config,
+        signal,
+        resolve: (faces) => {
+          signal?.removeEventListener("abort", handleAbort);
+          resolve(faces);
+        },
+        reject: (error) => {
+          signal?.removeEventListener("abort", handleAbort);
+          reject(error);
+        },
+      };
+
+      signal?.addEventListener("abort", handleAbort, { once: true });
+
+      queue.push(job);
+      dispatch();
+    });
+
+  const terminate = () => {
+    isTerminated = true;
+    const error = new Error("종료된 Worker 풀입니다.");
+
+    for (const poolWorker of workers) {
+      poolWorker.worker.terminate();
+      poolWorker.job?.reject(error);
+      poolWorker.job = null;
+    }
+    queue.splice(0).forEach((job) => job.reject(error));
+  };
+
+  return {
+    size,
+    ready: Promise.all(readyPromises),
+    detect,
+    terminate,
+  };
+}
@@ -0,0 +1,80 @@
+/**
+ * 얼굴 검출기(detector) 선택
+ *
+ * 지원하는 검출기:
+ * - TinyFaceDetector: 가볍고 빠름 (inputSize가 클수록 작은 얼굴도 찾지만 느려짐)
+ * - SSD MobileNet v1: 느리지만 멀리 있는 작은 얼굴도 잘 찾음
+ *
+ * 검출기 모델은 처음 사용할 때 로드한다.
+ */
+
+import * as faceapi from "face-api.js";
+import { loadModelsByName, ModelName } from "./modelRegistry";
+import { DetectorKind, DetectorOptions } from "./types";
+
+/**
+ * 기본 검출기 (face-api.js TinyFaceDetectorOptions 기본값과 같음)
+ */
+export const DEFAULT_DETECTOR: DetectorOptions = {
+  kind: "tiny",
+  inputSize: 416,
+  scoreThreshold: 0.5,
+};
+
+/**
+ * 검출기가 사용하는 모델 이름
+ */
+export function getDetectorModel(kind: DetectorKind): ModelName {
+  return kind === "ssd" ? "ssdMobilenetv1" : "tinyFaceDetector";
+}
+
+/**
+ * 검출기 모델 로드 (이미 로드했거나 로드 중이면 그 결과를 재사용)
+ *
+ * @param kind - 검출기 종류
+ * @param modelUrl - 모델 경로 (생략하면 레지스트리 기본 경로)
+ */
+export function loadDetector(
+  kind: DetectorKind,
+  modelUrl?: string
+): Promise<void> {
+  return loadModelsByName([getDetectorModel(kind)], modelUrl);
+}
+
+/**
+ * face-api.js 검출 옵션 객체 생성
+ *
+ * @param detector - 검출기 설정
+ */
+export function createFaceDetectorOptions(detector: DetectorOptions) {
+  return detector.kind === "ssd"
+    ? new faceapi.SsdMobilenetv1Options({
+        minConfidence: detector.minConfidence,
+      })
+    : new faceapi.TinyFaceDetectorOptions({
+        inputSize: detector.inputSize,
+        scoreThreshold: detector.scoreThreshold,
+      });
+}
+
+/**
+ * 검출기 설정을 문자열로 표현 (캐시 지문, 화면 표시용)
+ *
+ * @param detector - 검출기 설정
+ * @returns string - 예: "tiny:416:0.5", "ssd:0.5"
+ */
+export function describeDetector(detector: DetectorOptions): string {
+  return detector.kind === "ssd"
+    ? `ssd:${detector.minConfidence}`
+    : `tiny:${detector.inputSize}:${detector.scoreThreshold}`;
+}
+
+/**
+ * 두 검출기 설정이 같은지 비교
+ */
+export function isSameDetector(
+  a: DetectorOptions,
+  b: DetectorOptions
+): boolean {
+  return describeDetector(a) === describeDetector(b);
+}
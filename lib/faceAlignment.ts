@@ -0,0 +1,99 @@
+/**
+ * 얼굴 정렬 (alignment)
+ *
+ * 달리는 사진에서는 고개가 기울어진(roll) 얼굴이 많다.
+ * 68개 랜드마크에서 두 눈의 중심을 구해, 눈이 수평이 되도록 회전하고
+ * 눈 사이 거리가 일정하도록 크기를 맞춘 얼굴 이미지(chip)에서 descriptor를 추출한다.
+ *
+ * chip의 눈 위치는 face-api.js(dlib) 얼굴 인식 모델이 학습한
+ * 150px 얼굴 chip(여백 0.25)과 비슷하게 맞춘다.
+ */
+
+import { FaceAlignment } from "./types";
+
+/**
+ * 정렬된 얼굴 chip 크기 (FaceRecognitionNet 입력 크기)
+ */
+export const ALIGNED_FACE_SIZE = 150;
+
+// chip에서 두 눈 중심의 세로 위치, 눈 사이 거리 (chip 크기 대비 비율)
+const ALIGNED_EYE_Y = 0.3;
+const ALIGNED_EYE_DISTANCE = 0.3;
+
+type Point = { x: number; y: number };
+
+const getCenter = (points: Point[]): Point => ({
+  x: points.reduce((sum, point) => sum + point.x, 0) / points.length,
+  y: points.reduce((sum, point) => sum + point.y, 0) / points.length,
+});
+
+/**
+ * 68개 랜드마크로 정렬 정보 계산
+ *
+ * @param points - face-api.js 68개 랜드마크 좌표
+ * @returns FaceAlignment - 두 눈 중심, 눈 사이 거리, 기울기 (landmark와 같은 좌표계)
+ */
+export function getFaceAlignment(points: Point[]): FaceAlignment {
+  // 왼쪽 눈 36~41, 오른쪽 눈 42~47
+  const leftEye = getCenter(points.slice(36, 42));
+  const rightEye = getCenter(points.slice(42, 48));
+
+  return {
+    eyeCenter: getCenter([leftEye, rightEye]),
+    eyeDistance: Math.hypot(rightEye.x - leftEye.x, rightEye.y - leftEye.y),
+    roll:
+      (Math.atan2(rightEye.y - leftEye.y, rightEye.x - leftEye.x) * 180) /
+      Math.PI,
+  };
+}
+
+/**
+ * 정렬 정보를 다른 크기의 좌표계로 변환 (검출 canvas → 원본 이미지 등)
+ *
+ * @param alignment - 변환할 정렬 정보
+ * @param scale - 대상 좌표계 크기 / 현재 좌표계 크기 (가로세로 비율이 같아야 함)
+ * @param offset - 변환 후 더할 위치 (타일 → 전체 이미지)
+ */
+export function mapAlignment(
+  alignment: FaceAlignment,
+  scale: number,
+  offset: Point = { x: 0, y: 0 }
+): FaceAlignment {
+  return {
+    eyeCenter: {
+      x: alignment.eyeCenter.x * scale + offset.x,
+      y: alignment.eyeCenter.y * scale + offset.y,
+    },
+    eyeDistance: alignment.eyeDistance * scale,
+    roll: alignment.roll,
+  };
+}
+
+/**
+ * 정렬된 얼굴 chip 그리기
+ * 눈 중심을 chip의 정해진 위치로 옮기고, 기울기만큼 반대로 회전하고,
+ * 눈 사이 거리가 일정하도록 크기를 맞춘다.
+ *
+ * @param ctx - chip을 그릴 canvas의 2d context (size × size)
+ * @param source - 원본 이미지 또는 검출 canvas
+ * @param alignment - source 좌표계 기준 정렬 정보
+ * @param size - chip 크기 (기본 150px)
+ */
+export function drawAlignedFace(
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  source: CanvasImageSource,
+  alignment: FaceAlignment,
+  size: number = ALIGNED_FACE_SIZE
+): void {
+  const scale = (ALIGNED_EYE_DISTANCE * size) / alignment.eyeDistance;
+
+  ctx.save();
+  ctx.fillStyle = "black";
+  ctx.fillRect(0, 0, size, size);
+  ctx.translate(size / 2, ALIGNED_EYE_Y * size);
+  ctx.rotate((-alignment.roll * Math.PI) / 180);
+  ctx.scale(scale, scale);
+  ctx.translate(-alignment.eyeCenter.x, -alignment.eyeCenter.y);
+  ctx.drawImage(source, 0, 0);
+  ctx.restore();
+}
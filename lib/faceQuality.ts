@@ -0,0 +1,264 @@
+/**
+ * 얼굴 품질 측정
+ *
+ * 흐리거나, 너무 작거나, 옆을 보거나, 너무 어둡거나 밝은 얼굴은
+ * descriptor가 불안정해서 엉뚱한 사람과 매칭되기 쉽다.
+ * 검출 시 얼굴마다 품질을 기록해 두고, 매칭할 때 최소 품질 미만인 얼굴은 제외한다.
+ *
+ * 항목별로 0~1 점수를 매긴 뒤 기하 평균을 종합 품질로 사용한다.
+ * (한 항목이라도 0이면 종합 품질도 0)
+ */
+
+import { DetectedFace, FaceQuality } from "./types";
+
+/**
+ * 품질 측정용 얼굴 크롭 크기 (크기가 같아야 선명도를 비교할 수 있음)
+ */
+export const QUALITY_CROP_SIZE = 64;
+
+// 항목별 점수 기준
+const MIN_FACE_SIZE = 24; // 이보다 작으면 0점
+const GOOD_FACE_SIZE = 80; // 이보다 크면 1점
+const GOOD_SHARPNESS = 100; // Laplacian 분산이 이 이상이면 1점
+const MIN_DETECTION_SCORE = 0.3;
+const GOOD_DETECTION_SCORE = 0.9;
+const DARK_LIMIT = 20; // 평균 밝기가 이하이면 0점
+const DARK_GOOD = 60;
+const BRIGHT_GOOD = 200;
+const BRIGHT_LIMIT = 240; // 평균 밝기가 이상이면 0점
+const MAX_YAW = 60; // 좌우로 이 각도 이상 돌아가면 0점
+const MAX_PITCH = 45; // 위아래로 이 각도 이상 기울면 0점
+
+// 정면 얼굴에서 (코끝 - 눈) / (턱 - 눈) 세로 비율
+const FRONTAL_NOSE_RATIO = 0.4;
+
+/**
+ * 품질 등급 (결과 배지 표시용)
+ */
+export type QualityLevel = "good" | "fair" | "poor";
+
+const GOOD_QUALITY = 0.7;
+const FAIR_QUALITY = 0.4;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/**
+ * 흑백으로 변환한 밝기 배열 (ITU-R BT.601)
+ */
+function toGray(image: ImageData): Float32Array {
+  const gray = new Float32Array(image.width * image.height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] =
+      0.299 * image.data[i * 4] +
+      0.587 * image.data[i * 4 + 1] +
+      0.114 * image.data[i * 4 + 2];
+  }
+  return gray;
+}
+
+/**
+ * 선명도 측정 (Laplacian 분산)
+ * 경계가 뚜렷할수록 Laplacian 값의 편차가 커지고, 흐린 사진은 0에 가까워진다.
+ *
+ * @param image - 얼굴 크롭 (QUALITY_CROP_SIZE 크기 권장)
+ * @returns number - Laplacian 분산
+ */
+export function measureSharpness(image: ImageData): number {
+  const { width, height } = image;
+  if (width < 3 || height < 3) {
+    return 0;
+  }
+
+  const gray = toGray(image);
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian =
+        gray[i - width] + gray[i + width] + gray[i - 1] + gray[i + 1] - 4 * gray[i];
+      sum += laplacian;
+      sumSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+}
+
+/**
+ * 평균 밝기 측정
+ *
+ * @param image - 얼굴 크롭
+ * @returns number - 평균 밝기 (0~255)
+ */
+export function measureBrightness(image: ImageData): number {
+  const gray = toGray(image);
+  let sum = 0;
+  for (const value of gray) {
+    sum += value;
+  }
+  return gray.length > 0 ? sum / gray.length : 0;
+}
+
+/**
+ * 68개 랜드마크로 얼굴 방향 추정 (대략적인 값)
+ * - yaw: 코끝이 양쪽 턱선 사이에서 어느 쪽으로 치우쳤는지로 계산 (오른쪽이 +)
+ * - pitch: 눈과 턱 사이에서 코끝의 세로 위치로 계산 (아래를 보면 +)
+ *
+ * @param points - face-api.js 68개 랜드마크 좌표 (좌표계는 상관없음)
+ * @returns yaw, pitch (도)
+ */
+export function estimatePose(points: Array<{ x: number; y: number }>): {
+  yaw: number;
+  pitch: number;
+} {
+  const jawLeft = points[0];
+  const jawRight = points[16];
+  const chin = points[8];
+  const nose = points[30];
+  const eyes = points.slice(36, 48);
+  const eyeY = eyes.reduce((sum, point) => sum + point.y, 0) / eyes.length;
+
+  const left = nose.x - jawLeft.x;
+  const right = jawRight.x - nose.x;
+  const yawRatio = left + right > 0 ? (left - right) / (left + right) : 0;
+
+  const faceHeight = chin.y - eyeY;
+  const noseRatio = faceHeight > 0 ? (nose.y - eyeY) / faceHeight : FRONTAL_NOSE_RATIO;
+  const pitchRatio = (noseRatio - FRONTAL_NOSE_RATIO) / FRONTAL_NOSE_RATIO;
+
+  return {
+    yaw: toDegrees(Math.asin(Math.min(1, Math.max(-1, yawRatio)))),
+    pitch: toDegrees(Math.asin(Math.min(1, Math.max(-1, pitchRatio)))),
+  };
+}
+
+/**
+ * 눈을 뜬 정도 측정 (eye aspect ratio)
+ * 눈의 세로 길이 / 가로 길이로, 뜬 눈은 0.25~0.35, 감은 눈은 0.2 미만
+ *
+ * @param points - face-api.js 68개 랜드마크 좌표
+ * @returns number - 두 눈의 평균 eye aspect ratio
+ */
+export function measureEyeOpenness(
+  points: Array<{ x: number; y: number }>
+): number {
+  const distance = (a: { x: number; y: number }, b: { x: number; y: number }) =>
+    Math.hypot(a.x - b.x, a.y - b.y);
+
+  // 왼쪽 눈 36~41, 오른쪽 눈 42~47 (가로 양끝 0, 3 / 위 1, 2 / 아래 5, 4)
+  const ratio = (start: number) => {
+    const eye = points.slice(start, start + 6);
+    const width = distance(eye[0], eye[3]);
+    return width > 0
+      ? (distance(eye[1], eye[5]) + distance(eye[2], eye[4])) / (2 * width)
+      : 0;
+  };
+
+  return (ratio(36) + ratio(42)) / 2;
+}
+
+/**
+ * 평균 밝기 점수 (적당한 밝기 구간이면 1, 너무 어둡거나 밝으면 0)
+ */
+function scoreBrightness(brightness: number): number {
+  if (brightness < DARK_GOOD) {
+    return clamp01((brightness - DARK_LIMIT) / (DARK_GOOD - DARK_LIMIT));
+  }
+  if (brightness > BRIGHT_GOOD) {
+    return clamp01((BRIGHT_LIMIT - brightness) / (BRIGHT_LIMIT - BRIGHT_GOOD));
+  }
+  return 1;
+}
+
+/**
+ * 항목별 점수 (0~1)와 점수가 낮을 때 표시할 이유
+ */
+function getFactorScores(
+  measures: Omit<FaceQuality, "score">
+): Array<{ score: number; issue: string }> {
+  return [
+    {
+      score: clamp01(
+        (measures.detectionScore - MIN_DETECTION_SCORE) /
+          (GOOD_DETECTION_SCORE - MIN_DETECTION_SCORE)
+      ),
+      issue: "검출 신뢰도 낮음",
+    },
+    {
+      score: clamp01(
+        (measures.faceSize - MIN_FACE_SIZE) / (GOOD_FACE_SIZE - MIN_FACE_SIZE)
+      ),
+      issue: "작은 얼굴",
+    },
+    {
+      score: clamp01(measures.sharpness / GOOD_SHARPNESS),
+      issue: "흐림",
+    },
+    {
+      score: scoreBrightness(measures.brightness),
+      issue: measures.brightness < DARK_GOOD ? "어두움" : "너무 밝음",
+    },
+    {
+      score: 1 - clamp01(Math.abs(measures.yaw) / MAX_YAW),
+      issue: "옆모습",
+    },
+    {
+      score: 1 - clamp01(Math.abs(measures.pitch) / MAX_PITCH),
+      issue: "고개 숙임/듦",
+    },
+  ];
+}
+
+/**
+ * 측정값들로 얼굴 품질 계산
+ * (눈을 감은 사진도 매칭에는 쓸 수 있으므로 eyeOpenness는 종합 품질에 넣지 않음)
+ *
+ * @param measures - 검출 신뢰도, 얼굴 크기, 선명도, 밝기, 방향, 눈을 뜬 정도
+ * @returns FaceQuality - 측정값과 종합 품질 (0~1)
+ */
+export function scoreFaceQuality(
+  measures: Omit<FaceQuality, "score">
+): FaceQuality {
+  const factors = getFactorScores(measures);
+  const product = factors.reduce((result, factor) => result * factor.score, 1);
+
+  return { ...measures, score: Math.pow(product, 1 / factors.length) };
+}
+
+/**
+ * 종합 품질을 등급으로 변환
+ */
+export function getQualityLevel(quality: FaceQuality): QualityLevel {
+  if (quality.score >= GOOD_QUALITY) return "good";
+  if (quality.score >= FAIR_QUALITY) return "fair";
+  return "poor";
+}
+
+/**
+ * 품질 항목 중 점수를 가장 많이 깎은 이유 (배지 설명용)
+ *
+ * @returns string | null - 예: "흐림", "작은 얼굴" (문제가 없으면 null)
+ */
+export function getQualityIssue(quality: FaceQuality): string | null {
+  const worst = getFactorScores(quality).reduce((result, factor) =>
+    factor.score < result.score ? factor : result
+  );
+  return worst.score < GOOD_QUALITY ? worst.issue : null;
+}
+
+/**
+ * 매칭에 사용할 수 있는 얼굴인지 확인
+ * 품질 측정 이전에 검출한 얼굴(quality 없음)은 항상 사용
+ *
+ * @param face - 검출된 얼굴
+ * @param minQuality - 최소 종합 품질 (0이면 모든 얼굴 사용)
+ */
+export function isUsableFace(face: DetectedFace, minQuality: number): boolean {
+  return !face.quality || face.quality.score >= minQuality;
+}
@@ -6,57 +6,169 @@
  * 2. 얼굴 검출: 이미지에서 얼굴을 찾고 descriptor 추출
  * 3. 거리 계산: 두 얼굴 descriptor 간의 유사도 계산
  * 4. 매칭: 기준 얼굴과 유사한 얼굴이 있는 사진 찾기
+ * 5. 여러 사람 검색: 각 얼굴을 등록된 사람 중 가장 가까운 사람에게 배정
+ * 6. 수동 추가: 검출기가 놓친 얼굴을 사용자가 지정한 영역에서 추출
  */
 
 import * as faceapi from "face-api.js";
+import { mapBox, getFaceBoxIn, padBox } from "./coordinates";
 import {
+  createFaceDetectorOptions,
+  DEFAULT_DETECTOR,
+  describeDetector,
+  getDetectorModel,
+} from "./detectors";
+import {
+  FEATURE_MODELS,
+  loadFeatureModels,
+  loadModelsByName,
+  ModelName,
+  setModelBaseUrl,
+} from "./modelRegistry";
+import { getTiles, nonMaxSuppression } from "./tiling";
+import {
+  ALIGNED_FACE_SIZE,
+  drawAlignedFace,
+  getFaceAlignment,
+  mapAlignment,
+} from "./faceAlignment";
+import {
+  estimatePose,
+  isUsableFace,
+  measureBrightness,
+  measureEyeOpenness,
+  measureSharpness,
+  QUALITY_CROP_SIZE,
+  scoreFaceQuality,
+} from "./faceQuality";
+import {
+  BoundingBox,
   DetectedFace,
+  DetectionConfig,
+  DetectorOptions,
+  FaceQuality,
   MarathonPhoto,
   MatchResult,
   Expression,
   FaceExpressions,
+  GalleryMatchResult,
+  ImageSize,
+  LabeledReferences,
+  MatchStrategy,
+  ReferenceDescriptor,
 } from "./types";
 
 /**
- * face-api.js 모델들을 public/models 경로에서 로드
+ * 얼굴 검출 시 이미지의 긴 변 최대 크기 (성능 최적화)
+ */
+export const DETECTION_MAX_SIZE = 800;
+
+/**
+ * 검출에 사용하는 모델 버전
+ * 라이브러리 버전과 public/models 파일 내용의 해시(next.config.ts에서 계산)로 만들므로
+ * 가중치 파일을 바꾸면 자동으로 달라진다.
+ */
+export const DETECTION_MODEL_VERSION = `face-api.js@0.22.2+${
+  process.env.NEXT_PUBLIC_MODELS_HASH ?? "dev"
+}`;
+
+/**
+ * 얼굴 품질 측정 방식 버전 (측정 방식을 바꾸면 이전 캐시를 쓰지 않도록 함께 변경)
+ */
+const FACE_QUALITY_VERSION = 2;
+
+/**
+ * 기본 검출 설정 (TinyFaceDetector, 분할 검출 없음, 표정/나이/성별 포함)
+ */
+export const DEFAULT_DETECTION_CONFIG: DetectionConfig = {
+  detector: DEFAULT_DETECTOR,
+  tiling: null,
+  withExpressions: true,
+  withAgeGender: true,
+  alignFaces: false,
+};
+
+// face-api.js 검출 결과 (표정/나이/성별은 켠 경우에만 포함, descriptor는 따로 추출)
+type FaceApiDetection = faceapi.WithFaceLandmarks<
+  faceapi.WithFaceDetection<object>
+> &
+  Partial<faceapi.WithFaceExpressions<object>> &
+  Partial<faceapi.WithAge<faceapi.WithGender<object>>>;
+
+/**
+ * 검출 결과 캐시 구분용 지문
+ * 검출기, 검출 옵션, 모델 버전 중 하나라도 바뀌면 값이 달라지므로
+ * 이전 설정으로 검출한 캐시를 재사용하지 않는다.
+ *
+ * @param config - 검출 설정
+ * @returns string - 예: "face-api.js@0.22.2+1a2b3c4d5e6f|tiny:416:0.5|max:800|tiles:800:0.25:16:0.3"
+ */
+export function getDetectionFingerprint(
+  config: DetectionConfig = DEFAULT_DETECTION_CONFIG
+): string {
+  const { tiling } = config;
+
+  return [
+    DETECTION_MODEL_VERSION,
+    describeDetector(config.detector),
+    `max:${DETECTION_MAX_SIZE}`,
+    tiling
+      ? `tiles:${tiling.tileSize}:${tiling.overlap}:${tiling.maxTiles}:${tiling.iouThreshold}`
+      : "tiles:off",
+    `expressions:${config.withExpressions ? "on" : "off"}`,
+    `ageGender:${config.withAgeGender ? "on" : "off"}`,
+    `align:${config.alignFaces ? "on" : "off"}`,
+    `quality:v${FACE_QUALITY_VERSION}`,
+  ].join("|");
+}
+
+/**
+ * 검출 설정에 필요한 모델 목록
+ *
+ * @param config - 검출 설정
+ * @returns ModelName[] - 검출기 + 랜드마크 + 얼굴 특징 (+ 표정, 나이/성별)
+ */
+export function getRequiredModels(config: DetectionConfig): ModelName[] {
+  return [
+    getDetectorModel(config.detector.kind),
+    "faceLandmark68Net",
+    "faceRecognitionNet",
+    ...FEATURE_MODELS.expressions.filter(() => config.withExpressions),
+    ...FEATURE_MODELS.ageGender.filter(() => config.withAgeGender),
+  ];
+}
+
+/**
+ * 사진 매칭에 필요한 face-api.js 모델들을 public/models 경로에서 로드
  * 필요한 모델:
- * - TinyFaceDetector: 가벼운 얼굴 검출 모델
+ * - TinyFaceDetector: 가벼운 얼굴 검출 모델 (기본 검출기)
  * - FaceLandmark68Net: 얼굴 랜드마크 검출 (68개 포인트)
  * - FaceRecognitionNet: 얼굴 descriptor(임베딩) 추출
- * - FaceExpressionNet: 얼굴 표정 인식 (7가지 감정)
- * - AgeGenderNet: 나이 및 성별 추정
  *
+ * 표정(FaceExpressionNet), 나이/성별(AgeGenderNet), SSD MobileNet v1 검출기는
+ * 실제로 사용할 때 로드 (modelRegistry 참고)
+ *
+ * @param modelUrl - 모델 경로 (기본 /models, Worker에서는 절대 URL 사용)
  * @returns Promise<void>
  */
-export async function loadModels(): Promise<void> {
-  const MODEL_URL = "/models";
-
-  await Promise.all([
-    faceapi.nets.tinyFaceDetector.loadFromUri(MODEL_URL),
-    faceapi.nets.faceLandmark68Net.loadFromUri(MODEL_URL),
-    faceapi.nets.faceRecognitionNet.loadFromUri(MODEL_URL),
-    faceapi.nets.faceExpressionNet.loadFromUri(MODEL_URL),
-    faceapi.nets.ageGenderNet.loadFromUri(MODEL_URL),
-  ]);
+export async function loadModels(modelUrl: string = "/models"): Promise<void> {
+  setModelBaseUrl(modelUrl);
+  await loadFeatureModels("matching", modelUrl);
 }
 
 /**
- * 이미지를 리사이즈하여 성능 최적화
- * 긴 변 기준으로 maxSize로 축소
+ * 검출에 사용할 이미지 크기 계산
+ * 긴 변 기준으로 maxSize 이하로 축소 (작은 이미지는 그대로)
  *
- * @param img - HTMLImageElement
+ * @param sourceSize - 원본 이미지 크기
  * @param maxSize - 최대 크기 (기본 800px)
- * @returns 리사이즈된 HTMLCanvasElement
+ * @returns ImageSize - 검출에 사용할 크기
  */
-function resizeImage(
-  img: HTMLImageElement,
-  maxSize: number = 800
-): HTMLCanvasElement {
-  const canvas = document.createElement("canvas");
-  const ctx = canvas.getContext("2d")!;
-
-  let width = img.width;
-  let height = img.height;
+export function getDetectionSize(
+  sourceSize: ImageSize,
+  maxSize: number = DETECTION_MAX_SIZE
+): ImageSize {
+  let { width, height } = sourceSize;
 
   // 긴 변 기준으로 리사이즈
   if (width > height && width > maxSize) {
@@ -67,71 +179,328 @@ function resizeImage(
     height = maxSize;
   }
 
+  return { width, height };
+}
+
+/**
+ * 검출용 canvas 생성 (Worker에는 document가 없으므로 OffscreenCanvas 사용)
+ */
+function createCanvas(
+  width: number,
+  height: number
+): HTMLCanvasElement | OffscreenCanvas {
+  if (typeof document === "undefined") {
+    return new OffscreenCanvas(width, height);
+  }
+
+  const canvas = document.createElement("canvas");
   canvas.width = width;
   canvas.height = height;
-  ctx.drawImage(img, 0, 0, width, height);
+  return canvas;
+}
+
+/**
+ * 이미지의 일부 영역을 잘라 검출용 canvas에 그림
+ * 긴 변 기준으로 maxSize로 축소 (성능 최적화)
+ *
+ * @param source - 원본 이미지 (HTMLImageElement 또는 Worker의 ImageBitmap)
+ * @param region - 잘라낼 영역 (원본 픽셀 좌표)
+ * @param maxSize - 최대 크기 (기본 800px)
+ * @returns 리사이즈된 canvas
+ */
+function drawRegion(
+  source: CanvasImageSource,
+  region: BoundingBox,
+  maxSize: number = DETECTION_MAX_SIZE
+): HTMLCanvasElement | OffscreenCanvas {
+  const { width, height } = getDetectionSize(
+    { width: region.width, height: region.height },
+    maxSize
+  );
+
+  const canvas = createCanvas(Math.round(width), Math.round(height));
+  // OffscreenCanvas의 2d context도 drawImage 사용법이 같음
+  const ctx = (canvas as HTMLCanvasElement).getContext("2d")!;
+  ctx.drawImage(
+    source,
+    region.x,
+    region.y,
+    region.width,
+    region.height,
+    0,
+    0,
+    canvas.width,
+    canvas.height
+  );
 
   return canvas;
 }
 
 /**
- * 이미지 파일에서 얼굴들을 검출하고 descriptor 추출
+ * 검출된 얼굴의 품질 측정
+ * 선명도와 밝기는 검출용 canvas에서 얼굴을 고정 크기로 잘라 측정
+ *
+ * @param canvas - 검출에 사용한 canvas
+ * @param detection - face-api.js 검출 결과
+ * @param faceSize - box의 짧은 변 길이 (원본 픽셀)
+ */
+function measureFaceQuality(
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  detection: FaceApiDetection,
+  faceSize: number
+): FaceQuality {
+  const { box } = detection.detection;
+  const crop = createCanvas(QUALITY_CROP_SIZE, QUALITY_CROP_SIZE);
+  const ctx = (crop as HTMLCanvasElement).getContext("2d")!;
+  ctx.drawImage(
+    canvas,
+    box.x,
+    box.y,
+    box.width,
+    box.height,
+    0,
+    0,
+    QUALITY_CROP_SIZE,
+    QUALITY_CROP_SIZE
+  );
+  const image = ctx.getImageData(0, 0, QUALITY_CROP_SIZE, QUALITY_CROP_SIZE);
+
+  return scoreFaceQuality({
+    detectionScore: detection.detection.score,
+    faceSize,
+    sharpness: measureSharpness(image),
+    brightness: measureBrightness(image),
+    ...estimatePose(detection.landmarks.positions),
+    eyeOpenness: measureEyeOpenness(detection.landmarks.positions),
+  });
+}
+
+/**
+ * 검출된 얼굴들의 descriptor 추출
+ * - 정렬 안 함: face-api.js withFaceDescriptors와 같은 방식
+ *   (랜드마크 기준 box를 잘라서 사용, 기울기는 보정하지 않음)
+ * - 정렬: 두 눈이 수평이 되도록 회전하고 크기를 맞춘 chip에서 추출
+ * 실시간 추적에서도 기준 사진과 같은 방식으로 비교하도록 이 함수로 추출
+ *
+ * @param canvas - 검출에 사용한 canvas
+ * @param detections - face-api.js 검출 결과 (랜드마크 포함)
+ * @param alignFaces - 정렬 여부
+ * @returns Promise<Float32Array[]> - detections와 같은 순서의 descriptor들
+ */
+export async function computeDescriptors(
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  detections: FaceApiDetection[],
+  alignFaces: boolean
+): Promise<Float32Array[]> {
+  if (detections.length === 0) {
+    return [];
+  }
+
+  const faceImages = alignFaces
+    ? detections.map((detection) => {
+        const chip = createCanvas(ALIGNED_FACE_SIZE, ALIGNED_FACE_SIZE);
+        drawAlignedFace(
+          (chip as HTMLCanvasElement).getContext("2d")!,
+          canvas,
+          getFaceAlignment(detection.landmarks.positions)
+        );
+        return chip;
+      })
+    : await faceapi.extractFaces(
+        canvas as HTMLCanvasElement,
+        detections.map((detection) =>
+          detection.landmarks.align(null, { useDlibAlignment: true })
+        )
+      );
+
+  return Promise.all(
+    faceImages.map(
+      (image) =>
+        faceapi.computeFaceDescriptor(
+          image as HTMLCanvasElement
+        ) as Promise<Float32Array>
+    )
+  );
+}
+
+/**
+ * 리사이즈된 canvas에서 얼굴 검출 + 특징 추출 후 원본 좌표로 변환
+ * 메인 스레드(HTMLCanvasElement)와 Web Worker(OffscreenCanvas)에서 함께 사용
+ *
+ * @param canvas - 검출할 이미지가 그려진 canvas
+ * @param sourceSize - 원본 이미지 크기 (box를 원본 좌표로 되돌릴 때 사용)
+ * @param config - 검출 설정 (검출기, 표정/나이/성별 포함 여부, 얼굴 정렬 여부)
+ * @returns Promise<DetectedFace[]> - 검출된 얼굴들의 배열
+ */
+export async function detectFacesOnCanvas(
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  sourceSize: ImageSize,
+  config: DetectionConfig = DEFAULT_DETECTION_CONFIG
+): Promise<DetectedFace[]> {
+  const detectionSize = { width: canvas.width, height: canvas.height };
+  const { detector } = config;
+
+  // 아직 로드하지 않은 모델이 있으면 로드
+  await loadModelsByName(getRequiredModels(config));
+
+  // 얼굴 검출 + 랜드마크 (+ 표정 + 나이/성별) 추출
+  // withFaceLandmarks: 얼굴의 68개 랜드마크 포인트 검출
+  // withFaceExpressions: 7가지 감정 확률 추출 (끄면 생략)
+  // withAgeAndGender: 나이 및 성별 추정 (끄면 생략)
+  // (Worker에서는 env의 Canvas가 OffscreenCanvas로 설정되어 있으므로 그대로 입력 가능)
+  const task = faceapi
+    .detectAllFaces(
+      canvas as HTMLCanvasElement,
+      createFaceDetectorOptions(detector)
+    )
+    .withFaceLandmarks();
+
+  const detections: FaceApiDetection[] =
+    config.withExpressions && config.withAgeGender
+      ? await task.withFaceExpressions().withAgeAndGender()
+      : config.withExpressions
+      ? await task.withFaceExpressions()
+      : config.withAgeGender
+      ? await task.withAgeAndGender()
+      : await task;
+
+  // 얼굴의 128차원 벡터 추출 (정렬 설정에 따라 잘라내는 방식이 다름)
+  const descriptors = await computeDescriptors(
+    canvas,
+    detections,
+    config.alignFaces
+  );
+  // 검출 canvas 좌표 → 원본 좌표 비율 (가로세로 같은 비율로 축소했으므로 하나만 사용)
+  const toSourceScale = sourceSize.width / detectionSize.width;
+
+  // DetectedFace 형식으로 변환
+  return detections.map((detection, index) => {
+    // 검출은 리사이즈된 canvas에서 수행했으므로 원본 좌표로 되돌림
+    const box = mapBox(
+      {
+        x: detection.detection.box.x,
+        y: detection.detection.box.y,
+        width: detection.detection.box.width,
+        height: detection.detection.box.height,
+      },
+      detectionSize,
+      sourceSize
+    );
+
+    return {
+      descriptor: descriptors[index],
+      box,
+      sourceSize,
+      detectionScale: detectionSize.width / sourceSize.width,
+      expressions: detection.expressions
+        ? {
+            happy: detection.expressions.happy,
+            sad: detection.expressions.sad,
+            angry: detection.expressions.angry,
+            surprised: detection.expressions.surprised,
+            disgusted: detection.expressions.disgusted,
+            fearful: detection.expressions.fearful,
+            neutral: detection.expressions.neutral,
+          }
+        : undefined,
+      age: detection.age,
+      gender: detection.gender as "male" | "female" | undefined,
+      genderProbability: detection.genderProbability,
+      detector: detector.kind,
+      score: detection.detection.score,
+      quality: measureFaceQuality(
+        canvas,
+        detection,
+        Math.min(box.width, box.height)
+      ),
+      alignment: mapAlignment(
+        getFaceAlignment(detection.landmarks.positions),
+        toSourceScale
+      ),
+    };
+  });
+}
+
+/**
+ * 원본 이미지에서 얼굴 검출 (메인 스레드와 Worker에서 함께 사용)
+ *
+ * 분할 검출을 사용하면:
+ * 1. 이미지 전체를 축소해서 한 번 검출 (타일보다 큰 얼굴용)
+ * 2. 원본 해상도에서 겹치는 타일마다 검출 후 box를 전체 이미지 좌표로 이동
+ * 3. 타일 경계에서 두 번 검출된 얼굴은 NMS로 하나만 남김
+ *
+ * @param source - 원본 이미지 (HTMLImageElement 또는 ImageBitmap)
+ * @param sourceSize - 원본 이미지 크기
+ * @param config - 검출 설정 (검출기, 분할 검출)
+ * @returns Promise<DetectedFace[]> - 검출된 얼굴들 (box는 원본 픽셀 좌표)
+ */
+export async function detectFacesInSource(
+  source: CanvasImageSource,
+  sourceSize: ImageSize,
+  config: DetectionConfig = DEFAULT_DETECTION_CONFIG
+): Promise<DetectedFace[]> {
+  const faces = await detectFacesOnCanvas(
+    drawRegion(source, { x: 0, y: 0, ...sourceSize }),
+    sourceSize,
+    config
+  );
+
+  // 타일이 1개뿐이면 전체 검출과 같으므로 생략
+  const tiles = config.tiling ? getTiles(sourceSize, config.tiling) : [];
+  if (!config.tiling || tiles.length <= 1) {
+    return faces;
+  }
+
+  for (const tile of tiles) {
+    const tileFaces = await detectFacesOnCanvas(
+      drawRegion(source, tile),
+      { width: tile.width, height: tile.height },
+      config
+    );
+
+    faces.push(
+      ...tileFaces.map((face) => ({
+        ...face,
+        box: { ...face.box, x: face.box.x + tile.x, y: face.box.y + tile.y },
+        sourceSize,
+        alignment:
+          face.alignment && mapAlignment(face.alignment, 1, tile),
+      }))
+    );
+  }
+
+  return nonMaxSuppression(faces, config.tiling.iouThreshold);
+}
+
+/**
+ * 이미지 파일에서 얼굴들을 검출하고 descriptor 추출 (메인 스레드)
  *
  * 처리 과정:
  * 1. File 객체를 HTMLImageElement로 변환
- * 2. 이미지를 리사이즈하여 성능 최적화
+ * 2. 이미지를 리사이즈하여 성능 최적화 (분할 검출이면 타일별로)
  * 3. face-api.js로 얼굴 검출 + 랜드마크 + descriptor 추출
  * 4. 검출된 각 얼굴의 descriptor와 bounding box 반환
+ *    (box는 리사이즈된 canvas 좌표에서 원본 이미지 픽셀 좌표로 변환)
  *
  * @param file - 이미지 파일
+ * @param config - 검출 설정 (기본 TinyFaceDetector, 분할 검출 없음)
  * @returns Promise<DetectedFace[]> - 검출된 얼굴들의 배열
  */
-export async function detectFacesInImage(file: File): Promise<DetectedFace[]> {
+export async function detectFacesInImage(
+  file: File,
+  config: DetectionConfig = DEFAULT_DETECTION_CONFIG
+): Promise<DetectedFace[]> {
   return new Promise((resolve, reject) => {
     const img = document.createElement("img");
     const objectUrl = URL.createObjectURL(file);
 
     img.onload = async () => {
       try {
-        // 이미지 리사이즈로 성능 최적화
-        const resizedCanvas = resizeImage(img, 800);
-
-        // 얼굴 검출 + 랜드마크 + descriptor + 표정 + 나이/성별 추출
-        // withFaceLandmarks: 얼굴의 68개 랜드마크 포인트 검출
-        // withFaceDescriptors: 얼굴의 128차원 벡터 추출
-        // withFaceExpressions: 7가지 감정 확률 추출
-        // withAgeAndGender: 나이 및 성별 추정
-        const detections = await faceapi
-          .detectAllFaces(resizedCanvas, new faceapi.TinyFaceDetectorOptions())
-          .withFaceLandmarks()
-          .withFaceDescriptors()
-          .withFaceExpressions()
-          .withAgeAndGender();
-
-        // DetectedFace 형식으로 변환
-        const faces: DetectedFace[] = detections.map((detection) => ({
-          descriptor: detection.descriptor,
-          box: {
-            x: detection.detection.box.x,
-            y: detection.detection.box.y,
-            width: detection.detection.box.width,
-            height: detection.detection.box.height,
-          },
-          expressions: detection.expressions
-            ? {
-                happy: detection.expressions.happy,
-                sad: detection.expressions.sad,
-                angry: detection.expressions.angry,
-                surprised: detection.expressions.surprised,
-                disgusted: detection.expressions.disgusted,
-                fearful: detection.expressions.fearful,
-                neutral: detection.expressions.neutral,
-              }
-            : undefined,
-          age: detection.age,
-          gender: detection.gender as "male" | "female",
-          genderProbability: detection.genderProbability,
-        }));
+        const faces = await detectFacesInSource(
+          img,
+          { width: img.naturalWidth, height: img.naturalHeight },
+          config
+        );
 
         URL.revokeObjectURL(objectUrl);
         resolve(faces);
@@ -150,6 +519,83 @@ export async function detectFacesInImage(file: File): Promise<DetectedFace[]> {
   });
 }
 
+/**
+ * 사용자가 지정한 영역에서 얼굴 1개 추출 (검출기가 놓친 얼굴 추가용, 메인 스레드)
+ * 검출기를 거치지 않고 지정한 영역을 얼굴 box로 보고,
+ * 그 영역에서만 랜드마크와 descriptor를 추출한다.
+ *
+ * @param file - 대회 사진 파일
+ * @param region - 얼굴 영역 (원본 픽셀 좌표)
+ * @param alignFaces - 얼굴 정렬 후 descriptor 추출 (다른 얼굴들과 같은 설정 사용)
+ * @returns Promise<DetectedFace> - 추출한 얼굴 (manual: true, 표정/나이/성별 없음)
+ */
+export async function extractFaceInRegion(
+  file: File,
+  region: BoundingBox,
+  alignFaces: boolean = false
+): Promise<DetectedFace> {
+  await loadModelsByName(["faceLandmark68Net", "faceRecognitionNet"]);
+
+  return new Promise((resolve, reject) => {
+    const img = document.createElement("img");
+    const objectUrl = URL.createObjectURL(file);
+
+    img.onload = async () => {
+      try {
+        const canvas = drawRegion(img, region);
+        const landmarks = (await faceapi.detectFaceLandmarks(
+          canvas as HTMLCanvasElement
+        )) as faceapi.FaceLandmarks68;
+        // 영역 전체를 검출된 얼굴 box로 사용 (사용자가 지정했으므로 신뢰도 1)
+        const detection: FaceApiDetection = faceapi.extendWithFaceLandmarks(
+          faceapi.extendWithFaceDetection(
+            {},
+            new faceapi.FaceDetection(1, new faceapi.Rect(0, 0, 1, 1), {
+              width: canvas.width,
+              height: canvas.height,
+            })
+          ),
+          landmarks
+        );
+        const [descriptor] = await computeDescriptors(
+          canvas,
+          [detection],
+          alignFaces
+        );
+
+        URL.revokeObjectURL(objectUrl);
+        resolve({
+          descriptor,
+          box: region,
+          sourceSize: { width: img.naturalWidth, height: img.naturalHeight },
+          detectionScale: canvas.width / region.width,
+          quality: measureFaceQuality(
+            canvas,
+            detection,
+            Math.min(region.width, region.height)
+          ),
+          alignment: mapAlignment(
+            getFaceAlignment(landmarks.positions),
+            region.width / canvas.width,
+            region
+          ),
+          manual: true,
+        });
+      } catch (error) {
+        URL.revokeObjectURL(objectUrl);
+        reject(error);
+      }
+    };
+
+    img.onerror = () => {
+      URL.revokeObjectURL(objectUrl);
+      reject(new Error("이미지 로드 실패"));
+    };
+
+    img.src = objectUrl;
+  });
+}
+
 /**
  * 두 descriptor 간의 유클리드 거리 계산
  * 거리가 가까울수록 두 얼굴이 유사함
@@ -165,28 +611,128 @@ export function calculateDistance(
   return faceapi.euclideanDistance(desc1, desc2);
 }
 
+/**
+ * 여러 descriptor의 평균 벡터 계산
+ *
+ * @param descriptors - descriptor 배열 (1개 이상)
+ * @returns Float32Array - 평균 descriptor
+ */
+export function getMeanDescriptor(descriptors: Float32Array[]): Float32Array {
+  const mean = new Float32Array(descriptors[0].length);
+
+  for (const descriptor of descriptors) {
+    for (let i = 0; i < mean.length; i++) {
+      mean[i] += descriptor[i] / descriptors.length;
+    }
+  }
+
+  return mean;
+}
+
+/**
+ * 한 얼굴과 여러 기준 descriptor 사이의 대표 거리 계산
+ *
+ * - mean: 기준 descriptor 평균 벡터와의 거리
+ * - min: 가장 가까운 기준과의 거리
+ * - knn: 가장 가까운 k개 거리의 중앙값
+ *   (중앙값이 threshold 이하 = k개 중 과반이 threshold 이하)
+ *
+ * referenceIndex는 전략과 관계없이 이 얼굴과 가장 가까운 기준 사진의 인덱스
+ *
+ * @param descriptor - 비교할 얼굴의 descriptor
+ * @param references - 기준 descriptor들 (1개 이상)
+ * @param strategy - 거리 계산 방식 (기본 min)
+ * @param k - knn 방식에서 사용할 이웃 수 (기본 3)
+ * @returns 대표 거리와 가장 가까운 기준 사진 인덱스
+ */
+export function computeReferenceDistance(
+  descriptor: Float32Array,
+  references: ReferenceDescriptor[],
+  strategy: MatchStrategy = "min",
+  k: number = 3
+): { distance: number; referenceIndex: number } {
+  const distances = references.map((reference) =>
+    calculateDistance(descriptor, reference.descriptor)
+  );
+
+  let referenceIndex = 0;
+  for (let i = 1; i < distances.length; i++) {
+    if (distances[i] < distances[referenceIndex]) {
+      referenceIndex = i;
+    }
+  }
+
+  if (strategy === "mean") {
+    const mean = getMeanDescriptor(references.map((r) => r.descriptor));
+    return { distance: calculateDistance(descriptor, mean), referenceIndex };
+  }
+
+  if (strategy === "knn") {
+    const nearest = [...distances]
+      .sort((a, b) => a - b)
+      .slice(0, Math.min(k, distances.length));
+    const middle = Math.floor(nearest.length / 2);
+    const median =
+      nearest.length % 2 === 1
+        ? nearest[middle]
+        : (nearest[middle - 1] + nearest[middle]) / 2;
+    return { distance: median, referenceIndex };
+  }
+
+  return { distance: distances[referenceIndex], referenceIndex };
+}
+
+/**
+ * 이 사람이 아니라고 확인한 얼굴(negative)에 더 가까운지 확인
+ * 기준 사진보다 negative에 더 가까운 얼굴은 그 사람으로 배정하지 않는다.
+ *
+ * @param descriptor - 비교할 얼굴의 descriptor
+ * @param distance - 이 얼굴과 그 사람의 대표 거리
+ * @param negatives - 그 사람이 아니라고 확인한 얼굴들의 descriptor
+ */
+export function isCloserToNegative(
+  descriptor: Float32Array,
+  distance: number,
+  negatives: Float32Array[] = []
+): boolean {
+  return negatives.some(
+    (negative) => calculateDistance(descriptor, negative) < distance
+  );
+}
+
 /**
  * 기준 얼굴과 매칭되는 사진들을 찾기
  *
  * 처리 과정:
- * 1. 각 대회 사진의 모든 얼굴들과 기준 얼굴의 거리 계산
- * 2. 사진당 가장 가까운 거리를 대표 거리로 사용
+ * 1. 각 대회 사진의 모든 얼굴들과 기준 descriptor들의 대표 거리 계산 (strategy)
+ * 2. 사진당 가장 가까운 거리를 대표 거리로 사용하고, 그 얼굴의 인덱스를 기록
+ *    (품질이 minQuality 미만인 얼굴, 기준 사진보다 negative에 더 가까운 얼굴은 매칭 후보에서 제외)
  * 3. threshold 이하인 사진만 매칭으로 간주
  * 4. score = max(0, 1 - distance)로 유사도 점수 계산
  * 5. score 내림차순으로 정렬
  *
- * @param myDescriptor - 내 얼굴의 descriptor
+ * @param references - 내 얼굴의 기준 descriptor들 (1개 이상)
  * @param photos - 대회 사진들 (얼굴 검출 완료된 상태)
  * @param threshold - 매칭 판단 임계값 (기본 0.6, 낮을수록 엄격)
+ * @param strategy - 기준 descriptor가 여러 개일 때의 거리 계산 방식 (기본 min)
+ * @param minQuality - 매칭에 사용할 최소 얼굴 품질 (기본 0 = 모든 얼굴)
+ * @param negatives - 내 얼굴이 아니라고 확인한 얼굴들의 descriptor
  * @returns MatchResult[] - 매칭된 사진들 (score 내림차순)
  */
 export function findMatchingPhotos(
-  myDescriptor: Float32Array,
+  references: ReferenceDescriptor[],
   photos: MarathonPhoto[],
-  threshold: number = 0.6
+  threshold: number = 0.6,
+  strategy: MatchStrategy = "min",
+  minQuality: number = 0,
+  negatives: Float32Array[] = []
 ): MatchResult[] {
   const results: MatchResult[] = [];
 
+  if (references.length === 0) {
+    return results;
+  }
+
   // 각 사진에 대해 처리
   for (const photo of photos) {
     // 이 사진에서 검출된 얼굴이 없으면 스킵
@@ -195,12 +741,26 @@ export function findMatchingPhotos(
     }
 
     // 이 사진의 모든 얼굴들과 내 얼굴의 거리 계산
-    const distances = photo.faces.map((face) =>
-      calculateDistance(myDescriptor, face.descriptor)
+    const faceMatches = photo.faces.map((face) =>
+      computeReferenceDistance(face.descriptor, references, strategy)
     );
+    const distances = faceMatches.map((match) => match.distance);
 
-    // 가장 가까운 거리 (가장 유사한 얼굴)
-    const minDistance = Math.min(...distances);
+    // 품질 기준을 넘는 얼굴 중 가장 가까운 거리 (가장 유사한 얼굴)와 그 얼굴의 인덱스
+    let matchedFaceIndex = -1;
+    for (let i = 0; i < distances.length; i++) {
+      if (
+        isUsableFace(photo.faces[i], minQuality) &&
+        !isCloserToNegative(photo.faces[i].descriptor, distances[i], negatives) &&
+        (matchedFaceIndex === -1 || distances[i] < distances[matchedFaceIndex])
+      ) {
+        matchedFaceIndex = i;
+      }
+    }
+    if (matchedFaceIndex === -1) {
+      continue;
+    }
+    const minDistance = distances[matchedFaceIndex];
 
     // threshold 이하인 경우만 매칭으로 간주
     if (minDistance <= threshold) {
@@ -211,6 +771,10 @@ export function findMatchingPhotos(
         photo,
         distance: minDistance,
         score,
+        matchedFaceIndex,
+        faceDistances: distances,
+        matchedReferenceId:
+          references[faceMatches[matchedFaceIndex].referenceIndex].id,
       });
     }
   }
@@ -222,31 +786,241 @@ export function findMatchingPhotos(
 }
 
 /**
- * 기준 사진에서 얼굴 1개 추출
- * 여러 얼굴이 검출되면 가장 큰 얼굴 선택
+ * 등록된 여러 사람 중 각 얼굴과 가장 가까운 사람을 찾아 배정 (labeled gallery 검색)
  *
- * @param file - 기준 얼굴 사진 파일
- * @returns Promise<Float32Array | null> - 얼굴 descriptor (검출 실패 시 null)
+ * 처리 과정:
+ * 1. 각 얼굴과 모든 사람의 대표 거리 계산 (strategy)
+ *    (그 사람의 기준 사진보다 negative에 더 가까우면 그 사람은 후보에서 제외)
+ * 2. 가장 가까운 사람과의 거리가 threshold 이하이면 그 사람에게 배정
+ *    (한 얼굴은 최대 한 사람에게만 배정)
+ * 3. 같은 사진에서 한 사람에게 여러 얼굴이 배정되면 가장 가까운 얼굴을 대표로 사용
+ * 4. 배정되지 않은 얼굴과 대표가 되지 못한 얼굴은 unknown으로 분류 (결과에서 사라지지 않도록)
+ * 5. 인물별 결과와 unknown 모두 score 내림차순 정렬
+ *
+ * 품질이 minQuality 미만인 얼굴은 배정하지 않고 unknown에도 넣지 않는다.
+ *
+ * @param people - 인물별 기준 descriptor들 (기준 descriptor가 없는 사람은 무시)
+ * @param photos - 대회 사진들 (얼굴 검출 완료된 상태)
+ * @param threshold - 매칭 판단 임계값 (기본 0.6, 낮을수록 엄격)
+ * @param strategy - 기준 descriptor가 여러 개일 때의 거리 계산 방식 (기본 min)
+ * @param minQuality - 매칭에 사용할 최소 얼굴 품질 (기본 0 = 모든 얼굴)
+ * @returns GalleryMatchResult - 인물별 결과와 unknown 얼굴들
  */
-export async function extractReferenceFace(
-  file: File
-): Promise<Float32Array | null> {
-  const faces = await detectFacesInImage(file);
+export function matchFacesToPeople(
+  people: LabeledReferences[],
+  photos: MarathonPhoto[],
+  threshold: number = 0.6,
+  strategy: MatchStrategy = "min",
+  minQuality: number = 0
+): GalleryMatchResult {
+  const candidates = people.filter((person) => person.references.length > 0);
+  const result: GalleryMatchResult = { byPerson: {}, unknown: [] };
 
-  if (faces.length === 0) {
-    return null;
+  for (const person of people) {
+    result.byPerson[person.personId] = [];
   }
 
-  // 여러 얼굴이 검출되면 가장 큰 얼굴 선택
-  if (faces.length > 1) {
-    faces.sort((a, b) => {
-      const areaA = a.box.width * a.box.height;
-      const areaB = b.box.width * b.box.height;
-      return areaB - areaA;
+  for (const photo of photos) {
+    if (photo.faces.length === 0) {
+      continue;
+    }
+
+    // [인물][얼굴] 거리 행렬
+    const matrix = candidates.map((person) =>
+      photo.faces.map((face) =>
+        computeReferenceDistance(face.descriptor, person.references, strategy)
+      )
+    );
+
+    // 인물별로 이 사진에서 배정된 얼굴 중 가장 가까운 얼굴
+    const bestFaceByPerson = new Map<number, number>();
+    // 얼굴별로 가장 가까운 사람 (-1 = 후보 없음)
+    const nearestPersonByFace: number[] = [];
+
+    // 아무에게도 배정되지 않은 얼굴을 unknown으로
+    const addUnknown = (faceIndex: number) => {
+      const nearestPerson = nearestPersonByFace[faceIndex];
+      const nearest =
+        nearestPerson >= 0 ? matrix[nearestPerson][faceIndex] : null;
+      const distance = nearest ? nearest.distance : Infinity;
+
+      result.unknown.push({
+        photo,
+        distance,
+        score: Math.max(0, 1 - distance),
+        matchedFaceIndex: faceIndex,
+        faceDistances: photo.faces.map((_, i) =>
+          nearestPerson >= 0 ? matrix[nearestPerson][i].distance : Infinity
+        ),
+        matchedReferenceId: nearest
+          ? candidates[nearestPerson].references[nearest.referenceIndex].id
+          : "",
+      });
+    };
+
+    photo.faces.forEach((face, faceIndex) => {
+      // 품질이 낮은 얼굴은 매칭에 사용하지 않음
+      if (!isUsableFace(face, minQuality)) {
+        return;
+      }
+
+      // 이 얼굴과 가장 가까운 사람
+      let nearestPerson = -1;
+      for (let p = 0; p < candidates.length; p++) {
+        if (
+          isCloserToNegative(
+            face.descriptor,
+            matrix[p][faceIndex].distance,
+            candidates[p].negatives
+          )
+        ) {
+          continue;
+        }
+        if (
+          nearestPerson === -1 ||
+          matrix[p][faceIndex].distance < matrix[nearestPerson][faceIndex].distance
+        ) {
+          nearestPerson = p;
+        }
+      }
+
+      nearestPersonByFace[faceIndex] = nearestPerson;
+      const nearest =
+        nearestPerson >= 0 ? matrix[nearestPerson][faceIndex] : null;
+
+      if (nearest && nearest.distance <= threshold) {
+        const current = bestFaceByPerson.get(nearestPerson);
+        if (current === undefined) {
+          bestFaceByPerson.set(nearestPerson, faceIndex);
+        } else if (nearest.distance < matrix[nearestPerson][current].distance) {
+          // 대표에서 밀려난 얼굴은 unknown으로
+          bestFaceByPerson.set(nearestPerson, faceIndex);
+          addUnknown(current);
+        } else {
+          addUnknown(faceIndex);
+        }
+        return;
+      }
+
+      addUnknown(faceIndex);
     });
+
+    bestFaceByPerson.forEach((faceIndex, p) => {
+      const person = candidates[p];
+      const match = matrix[p][faceIndex];
+
+      result.byPerson[person.personId].push({
+        photo,
+        distance: match.distance,
+        score: Math.max(0, 1 - match.distance),
+        matchedFaceIndex: faceIndex,
+        faceDistances: matrix[p].map((m) => m.distance),
+        matchedReferenceId: person.references[match.referenceIndex].id,
+      });
+    });
+  }
+
+  for (const personId of Object.keys(result.byPerson)) {
+    result.byPerson[personId].sort((a, b) => b.score - a.score);
   }
+  result.unknown.sort((a, b) => b.score - a.score);
 
-  return faces[0].descriptor;
+  return result;
+}
+
+/**
+ * 모든 얼굴에 대해 가장 가까운 사람과의 거리 수집
+ * threshold 조정용 거리 분포(히스토그램)를 그릴 때 사용
+ *
+ * @param people - 인물별 기준 descriptor들 (기준 descriptor가 없는 사람은 무시)
+ * @param photos - 대회 사진들 (얼굴 검출 완료된 상태)
+ * @param strategy - 기준 descriptor가 여러 개일 때의 거리 계산 방식 (기본 min)
+ * @param minQuality - 최소 얼굴 품질 (이보다 낮은 얼굴은 분포에서 제외)
+ * @returns number[] - 얼굴별 최소 거리
+ */
+export function collectNearestDistances(
+  people: LabeledReferences[],
+  photos: MarathonPhoto[],
+  strategy: MatchStrategy = "min",
+  minQuality: number = 0
+): number[] {
+  const candidates = people.filter((person) => person.references.length > 0);
+  if (candidates.length === 0) {
+    return [];
+  }
+
+  return photos.flatMap((photo) =>
+    photo.faces
+      .filter((face) => isUsableFace(face, minQuality))
+      .map((face) =>
+        Math.min(
+          ...candidates.map(
+            (person) =>
+              computeReferenceDistance(
+                face.descriptor,
+                person.references,
+                strategy
+              ).distance
+          )
+        )
+      )
+  );
+}
+
+/**
+ * 매칭 결과에서 실제로 매칭된 얼굴 정보 반환
+ *
+ * @param result - 매칭 결과
+ * @returns DetectedFace | null - 매칭된 얼굴 (없으면 null)
+ */
+export function getMatchedFace(result: MatchResult): DetectedFace | null {
+  return result.photo.faces[result.matchedFaceIndex] ?? null;
+}
+
+/**
+ * 기준 사진에서 얼굴들 검출 (기준 사진 확인용)
+ * 큰 얼굴 순으로 정렬해서 반환하므로 첫 번째 얼굴이 기본 선택
+ *
+ * @param file - 기준 얼굴 사진 파일
+ * @param detector - 검출기 설정 (기본 TinyFaceDetector)
+ * @param alignFaces - 얼굴 정렬 후 descriptor 추출 (대회 사진과 같은 설정 사용)
+ * @returns Promise<DetectedFace[]> - 검출된 얼굴들 (품질 포함, 큰 얼굴 순)
+ */
+export async function detectReferenceFaces(
+  file: File,
+  detector: DetectorOptions = DEFAULT_DETECTOR,
+  alignFaces: boolean = false
+): Promise<DetectedFace[]> {
+  // 기준 사진은 descriptor만 필요하므로 표정/나이/성별은 생략
+  const faces = await detectFacesInImage(file, {
+    detector,
+    tiling: null,
+    withExpressions: false,
+    withAgeGender: false,
+    alignFaces,
+  });
+
+  return faces.sort(
+    (a, b) => b.box.width * b.box.height - a.box.width * a.box.height
+  );
+}
+
+/**
+ * 기준 사진에서 얼굴 1개 추출
+ * 여러 얼굴이 검출되면 가장 큰 얼굴 선택
+ *
+ * @param file - 기준 얼굴 사진 파일
+ * @param detector - 검출기 설정 (기본 TinyFaceDetector)
+ * @param alignFaces - 얼굴 정렬 후 descriptor 추출 (대회 사진과 같은 설정 사용)
+ * @returns Promise<Float32Array | null> - 얼굴 descriptor (검출 실패 시 null)
+ */
+export async function extractReferenceFace(
+  file: File,
+  detector: DetectorOptions = DEFAULT_DETECTOR,
+  alignFaces: boolean = false
+): Promise<Float32Array | null> {
+  const faces = await detectReferenceFaces(file, detector, alignFaces);
+  return faces[0]?.descriptor ?? null;
 }
 
 /**
@@ -303,15 +1077,16 @@ export function getExpressionLabel(expression: Expression): string {
 
 /**
  * 이미지에서 얼굴 영역만 크롭
+ * 얼굴 box는 로드된 이미지의 실제 크기에 맞게 변환한 뒤 크롭
  *
  * @param imageUrl - 원본 이미지 URL
- * @param box - 얼굴 bounding box
+ * @param face - 크롭할 얼굴 (원본 픽셀 좌표 box + 원본 크기)
  * @param padding - 여백 비율 (기본 0.2 = 20%)
  * @returns Promise<Blob> - 크롭된 이미지 Blob
  */
 export async function cropFaceFromImage(
   imageUrl: string,
-  box: { x: number; y: number; width: number; height: number },
+  face: Pick<DetectedFace, "box" | "sourceSize">,
   padding: number = 0.2
 ): Promise<Blob> {
   return new Promise((resolve, reject) => {
@@ -326,18 +1101,17 @@ export async function cropFaceFromImage(
         return;
       }
 
-      // 여백 계산
-      const paddingX = box.width * padding;
-      const paddingY = box.height * padding;
+      // 로드된 이미지 좌표계로 box 변환
+      const imageSize = { width: img.naturalWidth, height: img.naturalHeight };
+      const box = getFaceBoxIn(face, imageSize);
 
       // 크롭 영역 계산 (여백 포함, 이미지 경계 넘지 않도록)
-      const cropX = Math.max(0, box.x - paddingX);
-      const cropY = Math.max(0, box.y - paddingY);
-      const cropWidth = Math.min(img.width - cropX, box.width + paddingX * 2);
-      const cropHeight = Math.min(
-        img.height - cropY,
-        box.height + paddingY * 2
-      );
+      const {
+        x: cropX,
+        y: cropY,
+        width: cropWidth,
+        height: cropHeight,
+      } = padBox(box, padding, imageSize);
 
       // Canvas 크기 설정
       canvas.width = cropWidth;
@@ -380,7 +1154,8 @@ export async function cropFaceFromImage(
 }
 
 /**
- * 사진에서 모든 얼굴을 크롭하여 다운로드
+ * 사진에서 얼굴을 크롭하여 다운로드
+ * 매칭 결과에서는 matchedFaceIndex를 넘겨 매칭된 얼굴만 다운로드
  *
  * @param photo - 마라톤 사진 정보
  * @param faceIndex - 특정 얼굴 인덱스 (선택적, 없으면 모든 얼굴)
@@ -389,25 +1164,30 @@ export async function downloadCroppedFaces(
   photo: MarathonPhoto,
   faceIndex?: number
 ): Promise<void> {
-  const facesToCrop =
-    faceIndex !== undefined ? [photo.faces[faceIndex]] : photo.faces;
+  // 파일명에 원래 얼굴 번호가 남도록 인덱스를 함께 보관
+  const indices =
+    faceIndex !== undefined
+      ? photo.faces[faceIndex]
+        ? [faceIndex]
+        : []
+      : photo.faces.map((_, i) => i);
 
-  if (facesToCrop.length === 0) {
+  if (indices.length === 0) {
     alert("크롭할 얼굴이 없습니다.");
     return;
   }
 
   try {
-    for (let i = 0; i < facesToCrop.length; i++) {
-      const face = facesToCrop[i];
-      const blob = await cropFaceFromImage(photo.imageUrl, face.box);
+    for (let i = 0; i < indices.length; i++) {
+      const face = photo.faces[indices[i]];
+      const blob = await cropFaceFromImage(photo.imageUrl, face);
 
       // 다운로드 링크 생성
       const url = URL.createObjectURL(blob);
       const a = document.createElement("a");
       a.href = url;
       a.download = `face_${photo.file.name.replace(/\.[^/.]+$/, "")}_${
-        i + 1
+        indices[i] + 1
       }.jpg`;
       document.body.appendChild(a);
       a.click();
@@ -415,7 +1195,7 @@ export async function downloadCroppedFaces(
       URL.revokeObjectURL(url);
 
       // 다중 다운로드 시 약간의 지연 (브라우저 차단 방지)
-      if (facesToCrop.length > 1 && i < facesToCrop.length - 1) {
+      if (indices.length > 1 && i < indices.length - 1) {
         await new Promise((resolve) => setTimeout(resolve, 100));
       }
     }
@@ -0,0 +1,200 @@
+/**
+ * 실시간 추적 화면의 여러 얼굴 추적
+ *
+ * 프레임마다 검출된 얼굴을 이전 프레임의 얼굴(track)과 이어 붙여 고정된 번호를 붙인다.
+ * 1. box가 가장 많이 겹치는(IoU) track부터 이어 붙임
+ * 2. 이어지지 않은 얼굴은 descriptor가 있으면 잠시 놓친 track 중 같은 얼굴을 찾아 다시 연결 (re-identification)
+ * 3. 그래도 없으면 새 track
+ * 4. 몇 프레임 동안 보이지 않은 track은 제거
+ *
+ * track마다 표정, 나이, 성별을 프레임에 걸쳐 합쳐서 값이 튀지 않게 한다 (lib/temporalSmoothing.ts).
+ */
+
+import { getIoU } from "./coordinates";
+import { calculateDistance } from "./faceRecognition";
+import { FaceIdentification, LiveIdentity, updateIdentity } from "./liveRecognition";
+import {
+  AttributeSample,
+  DEFAULT_SMOOTHING_OPTIONS,
+  SmoothedAttributes,
+  SmoothingOptions,
+  updateAttributes,
+} from "./temporalSmoothing";
+import { BoundingBox } from "./types";
+
+// 이전 프레임의 얼굴과 같은 얼굴로 볼 최소 IoU
+const MIN_TRACK_IOU = 0.3;
+// 놓친 track과 같은 얼굴로 볼 최대 descriptor 거리
+const MAX_REID_DISTANCE = 0.5;
+// 이 프레임 수보다 오래 보이지 않으면 track 제거
+const MAX_MISSED_FRAMES = 30;
+
+/**
+ * 한 프레임에서 검출된 얼굴
+ * - box: 얼굴 위치 (표시 좌표)
+ * - descriptor: 얼굴 descriptor (인식을 켠 경우에만, 다시 연결할 때 사용)
+ * - identification: 등록된 사람 인식 결과 (인식을 켠 경우에만)
+ * - 표정, 나이, 성별 추정값 (AttributeSample)
+ */
+export interface FrameFace extends AttributeSample {
+  box: BoundingBox;
+  descriptor?: Float32Array;
+  identification?: FaceIdentification;
+}
+
+/**
+ * 추적 중인 얼굴
+ * - id: 추적 번호 (1부터, 다시 쓰지 않음)
+ * - missed: 연속으로 보이지 않은 프레임 수 (0이면 이번 프레임에 보임)
+ * - visibleMs: 화면에 보인 시간 합계
+ * - attributes: 프레임에 걸쳐 합친 표정, 나이, 성별
+ * - identity: 등록된 사람 인식 결과 (인식을 켠 경우에만)
+ */
+export interface TrackedFace {
+  id: number;
+  box: BoundingBox;
+  descriptor?: Float32Array;
+  firstSeen: number;
+  lastSeen: number;
+  missed: number;
+  visibleMs: number;
+  attributes?: SmoothedAttributes;
+  identity?: LiveIdentity;
+}
+
+/**
+ * 추적 상태 (track 목록과 다음에 붙일 번호)
+ */
+export interface TrackerState {
+  tracks: TrackedFace[];
+  nextId: number;
+}
+
+export const createTrackerState = (): TrackerState => ({
+  tracks: [],
+  nextId: 1,
+});
+
+/**
+ * 이번 프레임에 보이는 track만 (번호순)
+ */
+export function getVisibleTracks(state: TrackerState): TrackedFace[] {
+  return state.tracks
+    .filter((track) => track.missed === 0)
+    .sort((a, b) => a.id - b.id);
+}
+
+/**
+ * track에 이번 프레임의 얼굴 반영
+ */
+function updateTrack(
+  track: TrackedFace,
+  face: FrameFace,
+  now: number,
+  smoothing: SmoothingOptions
+): TrackedFace {
+  return {
+    ...track,
+    box: face.box,
+    descriptor: face.descriptor ?? track.descriptor,
+    lastSeen: now,
+    missed: 0,
+    // 바로 이전 프레임에도 보였을 때만 보인 시간에 더함
+    visibleMs: track.visibleMs + (track.missed === 0 ? now - track.lastSeen : 0),
+    attributes: updateAttributes(track.attributes, face, smoothing),
+    identity: face.identification
+      ? updateIdentity(track.identity ?? null, face.identification)
+      : undefined,
+  };
+}
+
+/**
+ * 이번 프레임의 얼굴들로 추적 상태 갱신
+ *
+ * @param state - 이전 추적 상태
+ * @param faces - 이번 프레임에 검출된 얼굴들
+ * @param now - 이번 프레임 시각 (ms)
+ * @param smoothing - 표정, 나이, 성별 평활화 설정
+ * @returns TrackerState - 갱신된 추적 상태
+ */
+export function updateTracker(
+  state: TrackerState,
+  faces: FrameFace[],
+  now: number,
+  smoothing: SmoothingOptions = DEFAULT_SMOOTHING_OPTIONS
+): TrackerState {
+  const { tracks } = state;
+  let nextId = state.nextId;
+  const trackForFace = new Array<number>(faces.length).fill(-1);
+  const usedTracks = new Set<number>();
+
+  // 1. IoU가 큰 쌍부터 이어 붙임 (직전 프레임에 보인 track만)
+  const pairs: Array<{ face: number; track: number; iou: number }> = [];
+  faces.forEach((face, f) =>
+    tracks.forEach((track, t) => {
+      const iou = track.missed === 0 ? getIoU(face.box, track.box) : 0;
+      if (iou >= MIN_TRACK_IOU) {
+        pairs.push({ face: f, track: t, iou });
+      }
+    })
+  );
+  pairs
+    .sort((a, b) => b.iou - a.iou)
+    .forEach(({ face, track }) => {
+      if (trackForFace[face] === -1 && !usedTracks.has(track)) {
+        trackForFace[face] = track;
+        usedTracks.add(track);
+      }
+    });
+
+  // 2. 남은 얼굴은 descriptor로 같은 얼굴인 track을 찾아 다시 연결
+  faces.forEach((face, f) => {
+    if (trackForFace[f] !== -1 || !face.descriptor) return;
+
+    let nearest = -1;
+    let nearestDistance = MAX_REID_DISTANCE;
+    tracks.forEach((track, t) => {
+      if (usedTracks.has(t) || !track.descriptor) return;
+      const distance = calculateDistance(face.descriptor!, track.descriptor);
+      if (distance <= nearestDistance) {
+        nearest = t;
+        nearestDistance = distance;
+      }
+    });
+
+    if (nearest !== -1) {
+      trackForFace[f] = nearest;
+      usedTracks.add(nearest);
+    }
+  });
+
+  // 3. 이어진 track 갱신, 이어지지 않은 얼굴은 새 track
+  const updated: TrackedFace[] = faces.map((face, f) => {
+    const t = trackForFace[f];
+    if (t !== -1) {
+      return updateTrack(tracks[t], face, now, smoothing);
+    }
+
+    return updateTrack(
+      {
+        id: nextId++,
+        box: face.box,
+        firstSeen: now,
+        lastSeen: now,
+        missed: 0,
+        visibleMs: 0,
+      },
+      face,
+      now,
+      smoothing
+    );
+  });
+
+  // 4. 이번 프레임에 보이지 않은 track은 잠시 남겨 둠 (다시 나타나면 같은 번호)
+  const missing = tracks
+    .filter((_, t) => !usedTracks.has(t))
+    .map((track) => ({ ...track, missed: track.missed + 1 }))
+    .filter((track) => track.missed <= MAX_MISSED_FRAMES);
+
+  return { tracks: [...updated, ...missing], nextId };
+}
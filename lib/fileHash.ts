@@ -0,0 +1,28 @@
+/**
+ * 파일 내용 해시 유틸리티
+ * 같은 파일인지 확인할 때 파일 이름 대신 내용의 SHA-256 해시를 사용
+ */
+
+/**
+ * 파일(Blob) 내용의 SHA-256 해시 계산
+ *
+ * @param file - 해시를 계산할 파일
+ * @returns Promise<string> - 16진수 문자열 해시 (64자)
+ */
+export async function computeFileHash(file: Blob): Promise<string> {
+  const buffer = await file.arrayBuffer();
+  const digest = await crypto.subtle.digest("SHA-256", buffer);
+
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * 해시 계산 가능 여부
+ * crypto.subtle은 보안 컨텍스트(HTTPS, localhost)에서만 있으므로
+ * http://<LAN IP> 등으로 열면 해시 없이(중복 확인, 검출 캐시 없이) 동작해야 함
+ */
+export function isFileHashSupported(): boolean {
+  return typeof crypto !== "undefined" && Boolean(crypto.subtle);
+}
@@ -0,0 +1,133 @@
+/**
+ * 실시간 추적 화면의 프레임 스케줄링
+ *
+ * 프레임마다 얼굴 검출에 걸린 시간을 재서 목표 FPS에 맞춰 검출 간격과 입력 크기를 조절한다.
+ * 1. 목표 FPS의 간격(1000 / FPS ms)마다 한 프레임씩 검출
+ * 2. 검출이 간격보다 오래 걸려 다음 차례를 놓치면 놓친 프레임은 건너뜀 (밀린 프레임을 몰아서 처리하지 않음)
+ * 3. 최근 검출 시간이 간격보다 길면 TinyFaceDetector 입력 크기를 줄이고, 충분히 짧으면 다시 키움
+ */
+
+/**
+ * TinyFaceDetector 입력 크기 후보 (32의 배수, 작을수록 빠르지만 작은 얼굴을 놓침)
+ */
+export const INPUT_SIZES = [128, 160, 224, 320, 416];
+
+/**
+ * 목표 FPS 후보
+ */
+export const TARGET_FPS_OPTIONS = [5, 10, 15, 20];
+
+// 처음 사용할 입력 크기
+const DEFAULT_INPUT_SIZE = 224;
+// 검출 시간과 FPS를 합칠 때 새 프레임의 비중 (exponential moving average)
+const STATS_ALPHA = 0.2;
+// 입력 크기를 바꾼 뒤 다시 바꾸기 전에 기다릴 프레임 수 (크기가 번갈아 바뀌지 않도록)
+const ADAPT_INTERVAL_FRAMES = 10;
+// 검출 시간이 간격의 이 비율보다 길면 입력 크기를 줄임
+const SLOW_RATIO = 0.9;
+// 검출 시간이 간격의 이 비율보다 짧으면 입력 크기를 키움
+const FAST_RATIO = 0.4;
+
+/**
+ * 스케줄러 상태
+ * - inputSize: 현재 TinyFaceDetector 입력 크기
+ * - nextFrameAt: 다음 검출 차례 시각 (ms)
+ * - lastStartedAt: 마지막 검출 시작 시각 (FPS 계산용, 일시 정지 후에는 없음)
+ * - latencyMs / fps: 최근 프레임의 평균 검출 시간과 실제 FPS
+ * - skippedFrames: 검출이 밀려서 건너뛴 프레임 수
+ * - framesSinceAdapt: 입력 크기를 바꾼 뒤 지난 프레임 수
+ */
+export interface SchedulerState {
+  inputSize: number;
+  nextFrameAt: number;
+  lastStartedAt?: number;
+  latencyMs?: number;
+  fps?: number;
+  skippedFrames: number;
+  framesSinceAdapt: number;
+}
+
+export const createSchedulerState = (): SchedulerState => ({
+  inputSize: DEFAULT_INPUT_SIZE,
+  nextFrameAt: 0,
+  skippedFrames: 0,
+  framesSinceAdapt: 0,
+});
+
+/**
+ * 이번 animation frame에서 검출할 차례인지
+ */
+export const isFrameDue = (state: SchedulerState, now: number) =>
+  now >= state.nextFrameAt;
+
+/**
+ * 일시 정지했다 다시 시작할 때 (탭을 다시 열었을 때 등) 멈춘 시간이 FPS에 섞이지 않도록 초기화
+ */
+export const resumeScheduler = (state: SchedulerState): SchedulerState => ({
+  ...state,
+  nextFrameAt: 0,
+  lastStartedAt: undefined,
+});
+
+const average = (previous: number | undefined, next: number) =>
+  previous === undefined ? next : previous + STATS_ALPHA * (next - previous);
+
+/**
+ * 검출이 끝난 프레임을 기록하고 다음 차례와 입력 크기 결정
+ *
+ * @param state - 이전 스케줄러 상태
+ * @param startedAt - 이번 검출 시작 시각 (ms)
+ * @param finishedAt - 이번 검출 종료 시각 (ms)
+ * @param targetFps - 목표 FPS
+ * @returns SchedulerState - 갱신된 스케줄러 상태
+ */
+export function recordFrame(
+  state: SchedulerState,
+  startedAt: number,
+  finishedAt: number,
+  targetFps: number
+): SchedulerState {
+  const frameInterval = 1000 / targetFps;
+  const latencyMs = average(state.latencyMs, finishedAt - startedAt);
+  const fps =
+    state.lastStartedAt !== undefined && startedAt > state.lastStartedAt
+      ? average(state.fps, 1000 / (startedAt - state.lastStartedAt))
+      : state.fps;
+
+  // 다음 차례를 이미 지났으면 놓친 프레임은 건너뛰고 그다음 차례로
+  let nextFrameAt = startedAt + frameInterval;
+  let skippedFrames = state.skippedFrames;
+  if (nextFrameAt < finishedAt) {
+    const missed = Math.ceil((finishedAt - nextFrameAt) / frameInterval);
+    skippedFrames += missed;
+    nextFrameAt += missed * frameInterval;
+  }
+
+  // 목표 간격에 맞게 입력 크기 조절 (몇 프레임에 한 번만)
+  let inputSize = state.inputSize;
+  let framesSinceAdapt = state.framesSinceAdapt + 1;
+  if (framesSinceAdapt >= ADAPT_INTERVAL_FRAMES) {
+    const index = INPUT_SIZES.indexOf(inputSize);
+    if (latencyMs > frameInterval * SLOW_RATIO && index > 0) {
+      inputSize = INPUT_SIZES[index - 1];
+    } else if (
+      latencyMs < frameInterval * FAST_RATIO &&
+      index < INPUT_SIZES.length - 1
+    ) {
+      inputSize = INPUT_SIZES[index + 1];
+    }
+    if (inputSize !== state.inputSize) {
+      framesSinceAdapt = 0;
+    }
+  }
+
+  return {
+    inputSize,
+    nextFrameAt,
+    lastStartedAt: startedAt,
+    latencyMs,
+    fps,
+    skippedFrames,
+    framesSinceAdapt,
+  };
+}
@@ -0,0 +1,123 @@
+/**
+ * 실시간 추적 화면의 얼굴 인식
+ *
+ * 웹캠 프레임의 얼굴마다 등록된 사람들의 기준 descriptor와 거리를 계산해서 누구인지 찾는다.
+ * 한 프레임의 결과만 쓰면 threshold 경계에 있는 얼굴의 이름이 프레임마다 바뀌므로,
+ * 추적 중인 얼굴(lib/faceTracker.ts의 track)마다 최근 몇 프레임의 다수결로 이름을 정한다.
+ */
+
+import {
+  computeReferenceDistance,
+  isCloserToNegative,
+} from "./faceRecognition";
+import { LabeledReferences, MatchStrategy } from "./types";
+
+/**
+ * 이름을 정할 때 사용하는 최근 프레임 수
+ */
+export const IDENTITY_WINDOW = 7;
+
+/**
+ * 한 프레임에서 얼굴 1개의 인식 결과
+ * - personId: 가장 가까운 사람 (threshold를 넘으면 null = 미확인)
+ * - distance: 가장 가까운 사람과의 거리 (등록된 사람이 없으면 Infinity)
+ */
+export interface FaceIdentification {
+  personId: string | null;
+  distance: number;
+}
+
+/**
+ * 여러 프레임에 걸쳐 안정화한 얼굴 인식 결과
+ * - votes: 최근 프레임들의 인식 결과 (오래된 것부터)
+ * - personId: 다수결로 정한 사람 (null = 미확인)
+ * - distance: personId로 인식된 프레임들의 평균 거리
+ */
+export interface LiveIdentity {
+  votes: FaceIdentification[];
+  personId: string | null;
+  distance: number;
+}
+
+/**
+ * 얼굴 1개가 등록된 사람 중 누구인지 찾기
+ * (사진 매칭과 같이, 기준 사진보다 negative에 더 가까운 사람은 후보에서 제외)
+ *
+ * @param descriptor - 얼굴 descriptor
+ * @param people - 인물별 기준 descriptor들 (기준 descriptor가 없는 사람은 무시)
+ * @param threshold - 같은 사람으로 볼 최대 거리
+ * @param strategy - 기준 descriptor가 여러 개일 때의 거리 계산 방식
+ * @returns FaceIdentification - 가장 가까운 사람과 거리
+ */
+export function identifyFace(
+  descriptor: Float32Array,
+  people: LabeledReferences[],
+  threshold: number,
+  strategy: MatchStrategy
+): FaceIdentification {
+  let nearest: FaceIdentification = { personId: null, distance: Infinity };
+
+  for (const person of people) {
+    if (person.references.length === 0) continue;
+
+    const { distance } = computeReferenceDistance(
+      descriptor,
+      person.references,
+      strategy
+    );
+    if (
+      distance < nearest.distance &&
+      !isCloserToNegative(descriptor, distance, person.negatives)
+    ) {
+      nearest = { personId: person.personId, distance };
+    }
+  }
+
+  return nearest.distance <= threshold
+    ? nearest
+    : { personId: null, distance: nearest.distance };
+}
+
+/**
+ * 한 얼굴(track)의 이번 프레임 인식 결과를 반영해서 이름 안정화
+ *
+ * 1. 최근 window 프레임의 인식 결과 중 과반을 차지한 사람을 이름으로 사용
+ * 2. 과반이 없으면 이전 이름을 유지 (이름이 번갈아 바뀌지 않도록)
+ *
+ * @param prior - 같은 얼굴의 이전 안정화 결과 (처음 보는 얼굴이면 null)
+ * @param identification - 이번 프레임의 인식 결과
+ * @param window - 다수결에 사용할 최근 프레임 수
+ * @returns LiveIdentity - 안정화 결과
+ */
+export function updateIdentity(
+  prior: LiveIdentity | null,
+  identification: FaceIdentification,
+  window: number = IDENTITY_WINDOW
+): LiveIdentity {
+  const votes = [...(prior?.votes ?? []), identification].slice(-window);
+
+  // 최근 프레임에서 가장 많이 나온 사람 (과반이어야 이름을 바꿈)
+  const counts = new Map<string | null, number>();
+  votes.forEach((vote) =>
+    counts.set(vote.personId, (counts.get(vote.personId) ?? 0) + 1)
+  );
+  let leader: string | null = null;
+  let leaderCount = 0;
+  counts.forEach((count, personId) => {
+    if (count > leaderCount) {
+      leader = personId;
+      leaderCount = count;
+    }
+  });
+  const personId =
+    leaderCount * 2 > votes.length ? leader : prior?.personId ?? null;
+
+  const personVotes = votes.filter((vote) => vote.personId === personId);
+  const distance =
+    personVotes.length > 0
+      ? personVotes.reduce((sum, vote) => sum + vote.distance, 0) /
+        personVotes.length
+      : identification.distance;
+
+  return { votes, personId, distance };
+}
@@ -0,0 +1,183 @@
+/**
+ * face-api.js 모델 레지스트리
+ *
+ * 기능마다 필요한 모델을 선언해 두고, 실제로 그 기능을 쓸 때 필요한 모델만 로드한다.
+ * - 같은 모델은 한 번만 로드 (로드 중이면 같은 Promise 공유)
+ * - 모델별 로드 상태(대기/로딩 중/완료/실패)를 구독해서 화면에 표시
+ * - 실패한 모델은 다시 로드를 요청하면 재시도
+ */
+
+import * as faceapi from "face-api.js";
+
+/**
+ * 모델 이름 (faceapi.nets의 key)
+ */
+export type ModelName =
+  | "tinyFaceDetector"
+  | "ssdMobilenetv1"
+  | "faceLandmark68Net"
+  | "faceRecognitionNet"
+  | "faceExpressionNet"
+  | "ageGenderNet";
+
+/**
+ * 모델을 사용하는 기능
+ * - matching: 얼굴 검출 + descriptor 추출 (사진 매칭, 자동 분류)
+ * - expressions: 표정 인식
+ * - ageGender: 나이/성별 추정
+ * - live: 실시간 얼굴 추적
+ */
+export type ModelFeature = "matching" | "expressions" | "ageGender" | "live";
+
+export type ModelLoadStatus = "idle" | "loading" | "loaded" | "error";
+
+export interface ModelState {
+  name: ModelName;
+  label: string;
+  status: ModelLoadStatus;
+  error?: string;
+}
+
+export const MODEL_LABELS: Record<ModelName, string> = {
+  tinyFaceDetector: "얼굴 검출 (Tiny)",
+  ssdMobilenetv1: "얼굴 검출 (SSD)",
+  faceLandmark68Net: "랜드마크",
+  faceRecognitionNet: "얼굴 특징",
+  faceExpressionNet: "표정",
+  ageGenderNet: "나이/성별",
+};
+
+/**
+ * 기능별로 필요한 모델
+ * (matching의 검출기는 기본 TinyFaceDetector, SSD는 선택했을 때 따로 로드)
+ */
+export const FEATURE_MODELS: Record<ModelFeature, ModelName[]> = {
+  matching: ["tinyFaceDetector", "faceLandmark68Net", "faceRecognitionNet"],
+  expressions: ["faceExpressionNet"],
+  ageGender: ["ageGenderNet"],
+  live: [
+    "tinyFaceDetector",
+    "faceLandmark68Net",
+    "faceExpressionNet",
+    "ageGenderNet",
+  ],
+};
+
+type ModelStates = Record<ModelName, ModelState>;
+
+let modelBaseUrl = "/models";
+let states = Object.fromEntries(
+  (Object.keys(MODEL_LABELS) as ModelName[]).map((name) => [
+    name,
+    { name, label: MODEL_LABELS[name], status: "idle" },
+  ])
+) as ModelStates;
+
+const listeners = new Set<(states: ModelStates) => void>();
+const loadingModels = new Map<ModelName, Promise<void>>();
+
+function updateState(name: ModelName, changes: Partial<ModelState>) {
+  states = { ...states, [name]: { ...states[name], ...changes } };
+  listeners.forEach((listener) => listener(states));
+}
+
+/**
+ * 모델 파일 기본 경로 설정 (Worker에서는 절대 URL 사용)
+ */
+export function setModelBaseUrl(modelUrl: string): void {
+  modelBaseUrl = modelUrl;
+}
+
+/**
+ * 현재 모델별 로드 상태
+ */
+export function getModelStates(): ModelStates {
+  return states;
+}
+
+/**
+ * 모델 로드 상태 변경 구독
+ *
+ * @param listener - 상태가 바뀔 때마다 호출
+ * @returns 구독 해제 함수
+ */
+export function subscribeModelStates(
+  listener: (states: ModelStates) => void
+): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * 모델들이 모두 로드되었는지 확인
+ */
+export function areModelsLoaded(names: ModelName[]): boolean {
+  return names.every((name) => faceapi.nets[name].isLoaded);
+}
+
+/**
+ * 모델 1개 로드 (이미 로드했거나 로드 중이면 그 결과를 재사용)
+ */
+function loadModel(name: ModelName, modelUrl: string): Promise<void> {
+  const net = faceapi.nets[name];
+  if (net.isLoaded) {
+    if (states[name].status !== "loaded") {
+      updateState(name, { status: "loaded", error: undefined });
+    }
+    return Promise.resolve();
+  }
+
+  const loading = loadingModels.get(name);
+  if (loading) {
+    return loading;
+  }
+
+  updateState(name, { status: "loading", error: undefined });
+  const promise = net
+    .loadFromUri(modelUrl)
+    .then(() => {
+      updateState(name, { status: "loaded" });
+    })
+    .catch((error: unknown) => {
+      updateState(name, {
+        status: "error",
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    })
+    .finally(() => {
+      // 실패하면 다음 요청 때 다시 시도
+      loadingModels.delete(name);
+    });
+
+  loadingModels.set(name, promise);
+  return promise;
+}
+
+/**
+ * 모델들을 필요할 때 로드
+ *
+ * @param names - 로드할 모델들
+ * @param modelUrl - 모델 경로 (기본값은 setModelBaseUrl로 설정한 경로)
+ */
+export async function loadModelsByName(
+  names: ModelName[],
+  modelUrl: string = modelBaseUrl
+): Promise<void> {
+  await Promise.all(names.map((name) => loadModel(name, modelUrl)));
+}
+
+/**
+ * 기능에 필요한 모델들을 로드
+ *
+ * @param feature - 사용할 기능
+ * @param modelUrl - 모델 경로
+ */
+export function loadFeatureModels(
+  feature: ModelFeature,
+  modelUrl: string = modelBaseUrl
+): Promise<void> {
+  return loadModelsByName(FEATURE_MODELS[feature], modelUrl);
+}
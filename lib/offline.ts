@@ -0,0 +1,161 @@
+/**
+ * 오프라인 사용(service worker) 유틸리티
+ *
+ * public/sw.js를 등록하고, 모델과 앱 화면이 캐시되었는지 조회한다.
+ * 모델 버전(DETECTION_MODEL_VERSION)과 빌드 id(NEXT_PUBLIC_BUILD_ID)를 등록 URL에 넣어 두므로
+ * 버전이 바뀌면 새 service worker가 설치되면서 모델 캐시와 앱 화면 캐시를 새로 받는다.
+ */
+
+import { DETECTION_MODEL_VERSION } from "./faceRecognition";
+
+// service worker가 상태 조회에 응답하기를 기다릴 최대 시간
+const STATUS_TIMEOUT_MS = 5000;
+
+/**
+ * 오프라인 사용 가능 상태
+ * - supported: 브라우저가 service worker를 지원하는지 (개발 모드에서는 false)
+ * - modelsCached / modelsTotal: 캐시된 필수 모델 수 / 전체 필수 모델 수
+ * - shellCached: 첫 페이지가 캐시되었는지
+ * - shellFilesCached / shellFilesTotal: 캐시된 /_next/static 파일 수 / 첫 페이지가 참조하는 파일 수
+ */
+export interface OfflineStatus {
+  supported: boolean;
+  modelsCached: number;
+  modelsTotal: number;
+  shellCached: boolean;
+  shellFilesCached: number;
+  shellFilesTotal: number;
+}
+
+export const UNSUPPORTED_OFFLINE_STATUS: OfflineStatus = {
+  supported: false,
+  modelsCached: 0,
+  modelsTotal: 0,
+  shellCached: false,
+  shellFilesCached: 0,
+  shellFilesTotal: 0,
+};
+
+/**
+ * 오프라인에서 모든 기능을 사용할 수 있는지 확인
+ */
+export function isFullyOffline(status: OfflineStatus): boolean {
+  return (
+    status.supported &&
+    status.shellCached &&
+    status.shellFilesTotal > 0 &&
+    status.shellFilesCached === status.shellFilesTotal &&
+    status.modelsTotal > 0 &&
+    status.modelsCached === status.modelsTotal
+  );
+}
+
+function isServiceWorkerEnabled(): boolean {
+  // 개발 모드에서는 캐시 때문에 수정 사항이 반영되지 않으므로 사용하지 않음
+  return (
+    process.env.NODE_ENV === "production" &&
+    typeof navigator !== "undefined" &&
+    "serviceWorker" in navigator
+  );
+}
+
+/**
+ * 현재 페이지가 불러온 /_next/static 파일 URL 목록 (동적으로 불러온 chunk 포함)
+ */
+function getLoadedStaticUrls(): string[] {
+  return performance
+    .getEntriesByType("resource")
+    .map((entry) => new URL(entry.name))
+    .filter(
+      (url) =>
+        url.origin === window.location.origin &&
+        url.pathname.startsWith("/_next/static/")
+    )
+    .map((url) => url.pathname + url.search);
+}
+
+/**
+ * service worker 등록 후, 현재 페이지가 불러온 /_next/static 파일들을 캐시하도록 요청
+ * (새 빌드의 service worker가 나중에 활성화되면 그 캐시에도 다시 요청)
+ *
+ * @param onCacheUpdated - 캐시가 바뀌었을 때 호출 (상태 다시 조회용)
+ * @returns 정리 함수
+ */
+export function registerServiceWorker(onCacheUpdated: () => void): () => void {
+  if (!isServiceWorkerEnabled()) {
+    return () => {};
+  }
+
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type === "cache-updated") {
+      onCacheUpdated();
+    }
+  };
+  navigator.serviceWorker.addEventListener("message", handleMessage);
+
+  const handleControllerChange = () => {
+    navigator.serviceWorker.controller?.postMessage({
+      type: "cache-urls",
+      urls: getLoadedStaticUrls(),
+    });
+  };
+  navigator.serviceWorker.addEventListener(
+    "controllerchange",
+    handleControllerChange
+  );
+
+  const params = new URLSearchParams({
+    models: DETECTION_MODEL_VERSION,
+    build: process.env.NEXT_PUBLIC_BUILD_ID ?? "dev",
+  });
+  navigator.serviceWorker
+    .register(`/sw.js?${params}`)
+    .then(() => navigator.serviceWorker.ready)
+    .then((registration) => {
+      registration.active?.postMessage({
+        type: "cache-urls",
+        urls: getLoadedStaticUrls(),
+      });
+      onCacheUpdated();
+    })
+    .catch((error) => console.error("service worker 등록 실패:", error));
+
+  return () => {
+    navigator.serviceWorker.removeEventListener("message", handleMessage);
+    navigator.serviceWorker.removeEventListener(
+      "controllerchange",
+      handleControllerChange
+    );
+  };
+}
+
+/**
+ * service worker에 캐시 상태 조회
+ * 등록에 실패했거나 등록이 해제된 경우(ready가 끝나지 않음), 응답이 없는 경우에도 기다리지 않음
+ *
+ * @returns Promise<OfflineStatus> - 활성화된 service worker가 없거나 응답이 없으면 supported: false
+ */
+export async function getOfflineStatus(): Promise<OfflineStatus> {
+  if (!isServiceWorkerEnabled()) {
+    return UNSUPPORTED_OFFLINE_STATUS;
+  }
+
+  const registration = await navigator.serviceWorker.getRegistration();
+  const worker = registration?.active;
+  if (!worker) {
+    return UNSUPPORTED_OFFLINE_STATUS;
+  }
+
+  return new Promise((resolve) => {
+    const timer = setTimeout(
+      () => resolve(UNSUPPORTED_OFFLINE_STATUS),
+      STATUS_TIMEOUT_MS
+    );
+    const channel = new MessageChannel();
+    channel.port1.onmessage = (event) => {
+      clearTimeout(timer);
+      resolve({ supported: true, ...event.data });
+    };
+    worker.postMessage({ type: "get-status" }, [channel.port2]);
+  });
+}
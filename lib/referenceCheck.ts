@@ -0,0 +1,151 @@
+/**
+ * 기준 사진 확인
+ *
+ * 기준 사진의 얼굴이 옆을 보거나, 작거나, 흐리거나, 다른 사람과 함께 찍혀 있으면
+ * 매칭 결과 전체가 나빠진다. 기준 사진을 추가할 때 얼굴 수, 크기, 선명도,
+ * 정면 여부, 눈을 뜬 여부를 확인해서 무엇을 고치면 되는지 안내한다.
+ *
+ * 대회 사진의 품질 필터(faceQuality)보다 기준을 엄격하게 잡는다.
+ */
+
+import { DetectedFace, ReferencePhoto } from "./types";
+
+// 기준 사진 확인 기준
+const MIN_FACE_SIZE = 100; // 얼굴 짧은 변 (원본 픽셀)
+const MIN_SHARPNESS = 50; // Laplacian 분산
+const MIN_BRIGHTNESS = 60;
+const MAX_BRIGHTNESS = 200;
+const MAX_YAW = 20; // 도
+const MAX_PITCH = 20; // 도
+const MIN_EYE_OPENNESS = 0.2; // eye aspect ratio
+
+/**
+ * 확인 항목 하나의 결과
+ * - label: 화면에 표시할 항목 이름
+ * - passed: 기준을 통과했는지
+ * - value: 측정값 표시 (예: "180px")
+ * - message: 통과하지 못했을 때의 안내 문구
+ */
+export interface ReferenceCheckItem {
+  label: string;
+  passed: boolean;
+  value?: string;
+  message?: string;
+}
+
+/**
+ * 기준 사진 확인 결과
+ * - status: checking(확인 중) / error(사용 불가) / warning(사용 가능하지만 개선 권장) / ok
+ * - items: 항목별 결과 (얼굴을 찾지 못했으면 비어 있음)
+ * - messages: 통과하지 못한 항목의 안내 문구
+ */
+export interface ReferenceCheck {
+  status: "checking" | "error" | "warning" | "ok";
+  items: ReferenceCheckItem[];
+  messages: string[];
+}
+
+/**
+ * 선택된 얼굴의 품질 항목 확인
+ */
+function checkFace(face: DetectedFace): ReferenceCheckItem[] {
+  const { quality } = face;
+  if (!quality) {
+    return [];
+  }
+
+  const isFrontal =
+    Math.abs(quality.yaw) <= MAX_YAW && Math.abs(quality.pitch) <= MAX_PITCH;
+  const isBright =
+    quality.brightness >= MIN_BRIGHTNESS && quality.brightness <= MAX_BRIGHTNESS;
+
+  return [
+    {
+      label: "크기",
+      passed: quality.faceSize >= MIN_FACE_SIZE,
+      value: `${Math.round(quality.faceSize)}px`,
+      message:
+        "얼굴이 작습니다. 얼굴이 크게 나온 사진이나 얼굴 부분을 잘라낸 사진을 사용해 주세요.",
+    },
+    {
+      label: "선명도",
+      passed: quality.sharpness >= MIN_SHARPNESS,
+      value: `${Math.round(quality.sharpness)}`,
+      message: "사진이 흐립니다. 흔들리지 않고 초점이 맞은 사진을 사용해 주세요.",
+    },
+    {
+      label: "정면",
+      passed: isFrontal,
+      value: `좌우 ${Math.round(quality.yaw)}° / 상하 ${Math.round(quality.pitch)}°`,
+      message:
+        Math.abs(quality.yaw) > MAX_YAW
+          ? "얼굴이 옆을 보고 있습니다. 카메라를 정면으로 본 사진을 사용해 주세요."
+          : "고개를 숙이거나 들고 있습니다. 카메라와 눈높이가 맞는 사진을 사용해 주세요.",
+    },
+    {
+      label: "눈",
+      passed: quality.eyeOpenness >= MIN_EYE_OPENNESS,
+      value: quality.eyeOpenness >= MIN_EYE_OPENNESS ? "뜸" : "감음",
+      message: "눈을 감은 것 같습니다. 눈을 뜬 사진을 사용해 주세요.",
+    },
+    {
+      label: "밝기",
+      passed: isBright,
+      value: `${Math.round(quality.brightness)}`,
+      message:
+        quality.brightness < MIN_BRIGHTNESS
+          ? "얼굴이 어둡습니다. 밝은 곳에서 찍은 사진을 사용해 주세요."
+          : "얼굴이 너무 밝습니다. 역광이나 강한 조명이 없는 사진을 사용해 주세요.",
+    },
+  ];
+}
+
+/**
+ * 기준 사진 확인
+ *
+ * @param reference - 기준 사진 (faces가 없으면 확인 전 또는 확인 대상 아님)
+ * @returns ReferenceCheck | null - 자동 분류에서 가져왔거나 이전에 저장된 사진이면 null
+ */
+export function checkReference(reference: ReferencePhoto): ReferenceCheck | null {
+  const { faces } = reference;
+
+  if (!faces) {
+    // 확인 전인 사진만 확인 중으로 표시 (descriptor가 이미 있으면 확인 대상 아님)
+    return reference.descriptor
+      ? null
+      : { status: "checking", items: [], messages: [] };
+  }
+
+  if (faces.length === 0) {
+    return {
+      status: "error",
+      items: [],
+      messages: [
+        "얼굴을 찾지 못했습니다. 얼굴이 가려지지 않고 크게 나온 사진을 사용해 주세요.",
+      ],
+    };
+  }
+
+  const selectedIndex = reference.selectedFaceIndex ?? 0;
+  const items: ReferenceCheckItem[] = [
+    {
+      label: "얼굴 수",
+      passed: faces.length === 1,
+      value: `${faces.length}개`,
+      message: `얼굴이 ${faces.length}개 있습니다. 지금은 ${
+        selectedIndex + 1
+      }번 얼굴을 사용합니다. 다른 얼굴이면 사진에서 이 사람의 얼굴을 눌러 주세요.`,
+    },
+    ...checkFace(faces[selectedIndex]),
+  ];
+
+  const messages = items
+    .filter((item) => !item.passed && item.message)
+    .map((item) => item.message!);
+
+  return {
+    status: messages.length > 0 ? "warning" : "ok",
+    items,
+    messages,
+  };
+}
@@ -0,0 +1,593 @@
+/**
+ * IndexedDB 기반 로컬 저장소
+ *
+ * 주요 기능:
+ * 1. 프로젝트(대회/이벤트) 목록 관리
+ * 2. 사진 원본 Blob과 검출된 얼굴(DetectedFace[]) 저장
+ *    - 원본 Blob은 별도 store에 사진당 한 번만 저장하고,
+ *      자주 바뀌는 얼굴/상태 레코드만 변경 시마다 다시 저장
+ * 3. 인물 프로필(기준 사진 + descriptor)과 매칭 설정 저장
+ * 4. 지난 매칭 실행 기록 저장
+ * 5. 파일 해시 + 검출 설정별 얼굴 검출 결과 캐시 (프로젝트와 무관하게 공유)
+ * 6. 저장 공간 사용량 조회 및 삭제
+ *
+ * Float32Array descriptor와 File/Blob은 IndexedDB의 structured clone으로
+ * 타입 그대로 저장되므로 별도 직렬화 없이 보관한다.
+ * (Object URL은 세션마다 달라지므로 저장하지 않고 불러올 때 새로 만든다)
+ */
+
+import {
+  DetectedFace,
+  MarathonPhoto,
+  MatchRun,
+  PersonProfile,
+  PhotoStatus,
+  Project,
+  ProjectSettings,
+  ReferencePhoto,
+  RejectedFace,
+} from "./types";
+
+const DB_NAME = "detectvision";
+const DB_VERSION = 2;
+
+const PROJECTS_STORE = "projects";
+const PHOTOS_STORE = "photos";
+const PHOTO_FILES_STORE = "photoFiles";
+const PROFILES_STORE = "profiles";
+const RUNS_STORE = "runs";
+const DETECTIONS_STORE = "detections";
+
+/**
+ * 저장되는 사진 레코드 (imageUrl 제외)
+ */
+interface StoredPhoto {
+  id: string;
+  projectId: string;
+  order: number;
+  faces: DetectedFace[];
+  // 상태 저장 이전에 만든 레코드에는 없음
+  status?: PhotoStatus;
+  error?: string;
+  hash?: string;
+  duplicateOf?: string;
+}
+
+/**
+ * 저장되는 검출 결과 캐시 레코드
+ * - key: `${hash}|${fingerprint}`
+ */
+interface StoredDetection {
+  key: string;
+  hash: string;
+  fingerprint: string;
+  faces: DetectedFace[];
+  createdAt: number;
+}
+
+/**
+ * 저장되는 사진 원본 레코드 (사진 id당 1개, 내용이 바뀌지 않으므로 한 번만 저장)
+ */
+interface StoredPhotoFile {
+  id: string;
+  projectId: string;
+  file: File;
+}
+
+/**
+ * 저장되는 인물 프로필 레코드 (프로젝트당 1개)
+ */
+interface StoredProfiles {
+  projectId: string;
+  people: Array<{
+    id: string;
+    name: string;
+    references: Array<Omit<ReferencePhoto, "imageUrl">>;
+    // 수동 보정 이전에 만든 레코드에는 없음
+    rejectedFaces?: RejectedFace[];
+  }>;
+  settings: ProjectSettings;
+}
+
+/**
+ * 불러온 프로젝트 데이터
+ */
+export interface LoadedProject {
+  photos: MarathonPhoto[];
+  people: PersonProfile[];
+  settings: ProjectSettings | null;
+  runs: MatchRun[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * IDBRequest를 Promise로 변환
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * 트랜잭션 완료를 Promise로 변환
+ */
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("트랜잭션이 중단되었습니다."));
+  });
+}
+
+/**
+ * 데이터베이스 열기 (최초 1회 스키마 생성)
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) {
+    return dbPromise;
+  }
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("이 브라우저는 IndexedDB를 지원하지 않습니다."));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+
+      if (event.oldVersion < 1) {
+        db.createObjectStore(PROJECTS_STORE, { keyPath: "id" });
+        db.createObjectStore(PHOTOS_STORE, { keyPath: "id" }).createIndex(
+          "projectId",
+          "projectId"
+        );
+        db.createObjectStore(PHOTO_FILES_STORE, { keyPath: "id" }).createIndex(
+          "projectId",
+          "projectId"
+        );
+        db.createObjectStore(PROFILES_STORE, { keyPath: "projectId" });
+        db.createObjectStore(RUNS_STORE, { keyPath: "id" }).createIndex(
+          "projectId",
+          "projectId"
+        );
+      }
+
+      // v2: 검출 결과 캐시
+      if (event.oldVersion < 2) {
+        db.createObjectStore(DETECTIONS_STORE, { keyPath: "key" });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+/**
+ * 인덱스로 프로젝트에 속한 레코드의 key 목록 조회
+ */
+async function getKeysByProject(
+  tx: IDBTransaction,
+  storeName: string,
+  projectId: string
+): Promise<IDBValidKey[]> {
+  return requestToPromise(
+    tx.objectStore(storeName).index("projectId").getAllKeys(projectId)
+  );
+}
+
+/**
+ * descriptor가 Float32Array가 아닌 형태로 저장된 경우(예: 일반 배열) 복원
+ */
+function toFloat32Array(value: ArrayLike<number>): Float32Array {
+  return value instanceof Float32Array ? value : Float32Array.from(value);
+}
+
+/**
+ * 저장된 사진의 검출 상태 복원
+ * - 검출 중에 페이지를 떠난 사진은 다시 대기 상태로
+ * - 상태가 없는 예전 레코드는 프로젝트의 검출 완료 여부로 판단
+ */
+function restorePhotoStatus(
+  photo: StoredPhoto,
+  settings: ProjectSettings | undefined
+): PhotoStatus {
+  if (photo.status === "processing") return "pending";
+  if (photo.status) return photo.status;
+  return settings?.isDetected ? "done" : "pending";
+}
+
+/**
+ * 프로젝트 목록 조회 (최근 수정 순)
+ *
+ * @returns Promise<Project[]> - 프로젝트 목록
+ */
+export async function listProjects(): Promise<Project[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(PROJECTS_STORE, "readonly");
+  const projects = await requestToPromise<Project[]>(
+    tx.objectStore(PROJECTS_STORE).getAll()
+  );
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * 새 프로젝트 생성
+ *
+ * @param id - 프로젝트 id
+ * @param name - 프로젝트 이름
+ * @returns Promise<Project> - 생성된 프로젝트
+ */
+export async function createProject(id: string, name: string): Promise<Project> {
+  const now = Date.now();
+  const project: Project = { id, name, createdAt: now, updatedAt: now };
+
+  const db = await openDatabase();
+  const tx = db.transaction(PROJECTS_STORE, "readwrite");
+  tx.objectStore(PROJECTS_STORE).put(project);
+  await transactionDone(tx);
+
+  return project;
+}
+
+/**
+ * 프로젝트 이름 변경 (수정 시각 갱신 포함)
+ *
+ * @param id - 프로젝트 id
+ * @param name - 새 이름
+ */
+export async function renameProject(id: string, name: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(PROJECTS_STORE, "readwrite");
+  const store = tx.objectStore(PROJECTS_STORE);
+  const project = await requestToPromise<Project | undefined>(store.get(id));
+
+  if (project) {
+    store.put({ ...project, name, updatedAt: Date.now() });
+  }
+  await transactionDone(tx);
+}
+
+/**
+ * 프로젝트 수정 시각 갱신
+ */
+async function touchProject(tx: IDBTransaction, id: string): Promise<void> {
+  const store = tx.objectStore(PROJECTS_STORE);
+  const project = await requestToPromise<Project | undefined>(store.get(id));
+  if (project) {
+    store.put({ ...project, updatedAt: Date.now() });
+  }
+}
+
+/**
+ * 프로젝트의 사진 목록 저장 (목록에서 빠진 사진은 삭제)
+ * 얼굴/상태 레코드는 매번 다시 저장하고, 원본 Blob은 아직 저장되지 않은 사진만 저장
+ *
+ * @param projectId - 프로젝트 id
+ * @param photos - 저장할 사진들 (순서 유지)
+ */
+export async function savePhotos(
+  projectId: string,
+  photos: MarathonPhoto[]
+): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(
+    [PHOTOS_STORE, PHOTO_FILES_STORE, PROJECTS_STORE],
+    "readwrite"
+  );
+  const store = tx.objectStore(PHOTOS_STORE);
+  const fileStore = tx.objectStore(PHOTO_FILES_STORE);
+
+  const [existingKeys, existingFileKeys] = await Promise.all([
+    getKeysByProject(tx, PHOTOS_STORE, projectId),
+    getKeysByProject(tx, PHOTO_FILES_STORE, projectId),
+  ]);
+  const currentIds = new Set(photos.map((photo) => photo.id));
+  const storedFileIds = new Set(existingFileKeys as string[]);
+
+  for (const key of existingKeys) {
+    if (!currentIds.has(key as string)) {
+      store.delete(key);
+    }
+  }
+  for (const key of existingFileKeys) {
+    if (!currentIds.has(key as string)) {
+      fileStore.delete(key);
+    }
+  }
+
+  photos.forEach((photo, order) => {
+    if (!storedFileIds.has(photo.id)) {
+      const fileRecord: StoredPhotoFile = {
+        id: photo.id,
+        projectId,
+        file: photo.file,
+      };
+      fileStore.put(fileRecord);
+    }
+
+    const record: StoredPhoto = {
+      id: photo.id,
+      projectId,
+      order,
+      faces: photo.faces,
+      status: photo.status,
+      error: photo.error,
+      hash: photo.hash,
+      duplicateOf: photo.duplicateOf,
+    };
+    store.put(record);
+  });
+
+  await touchProject(tx, projectId);
+  await transactionDone(tx);
+}
+
+/**
+ * 프로젝트의 인물 프로필과 매칭 설정 저장
+ *
+ * @param projectId - 프로젝트 id
+ * @param people - 인물 프로필들
+ * @param settings - 매칭 설정
+ */
+export async function saveProfiles(
+  projectId: string,
+  people: PersonProfile[],
+  settings: ProjectSettings
+): Promise<void> {
+  const record: StoredProfiles = {
+    projectId,
+    people: people.map((person) => ({
+      id: person.id,
+      name: person.name,
+      references: person.references.map((reference) => ({
+        id: reference.id,
+        file: reference.file,
+        source: reference.source,
+        descriptor: reference.descriptor,
+        faces: reference.faces,
+        selectedFaceIndex: reference.selectedFaceIndex,
+        confirmedFace: reference.confirmedFace,
+        sourceFace: reference.sourceFace,
+      })),
+      rejectedFaces: person.rejectedFaces,
+    })),
+    settings,
+  };
+
+  const db = await openDatabase();
+  const tx = db.transaction([PROFILES_STORE, PROJECTS_STORE], "readwrite");
+  tx.objectStore(PROFILES_STORE).put(record);
+  await touchProject(tx, projectId);
+  await transactionDone(tx);
+}
+
+/**
+ * 매칭 실행 기록 저장
+ *
+ * @param run - 매칭 실행 기록
+ */
+export async function saveMatchRun(run: MatchRun): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(RUNS_STORE, "readwrite");
+  tx.objectStore(RUNS_STORE).put(run);
+  await transactionDone(tx);
+}
+
+/**
+ * 프로젝트의 모든 데이터 불러오기
+ * 사진과 기준 사진의 Object URL은 새로 생성되므로 사용 후 revoke 필요
+ *
+ * @param projectId - 프로젝트 id
+ * @returns Promise<LoadedProject> - 사진, 인물, 설정, 매칭 기록 (기록은 최신순)
+ */
+export async function loadProject(projectId: string): Promise<LoadedProject> {
+  const db = await openDatabase();
+  const tx = db.transaction(
+    [PHOTOS_STORE, PHOTO_FILES_STORE, PROFILES_STORE, RUNS_STORE],
+    "readonly"
+  );
+
+  const [storedPhotos, storedFiles, storedProfiles, runs] = await Promise.all([
+    requestToPromise<StoredPhoto[]>(
+      tx.objectStore(PHOTOS_STORE).index("projectId").getAll(projectId)
+    ),
+    requestToPromise<StoredPhotoFile[]>(
+      tx.objectStore(PHOTO_FILES_STORE).index("projectId").getAll(projectId)
+    ),
+    requestToPromise<StoredProfiles | undefined>(
+      tx.objectStore(PROFILES_STORE).get(projectId)
+    ),
+    requestToPromise<MatchRun[]>(
+      tx.objectStore(RUNS_STORE).index("projectId").getAll(projectId)
+    ),
+  ]);
+
+  const filesById = new Map(storedFiles.map((record) => [record.id, record.file]));
+  const photos: MarathonPhoto[] = storedPhotos
+    .map((photo) => ({ photo, file: filesById.get(photo.id) }))
+    .filter((entry): entry is { photo: StoredPhoto; file: File } =>
+      Boolean(entry.file)
+    )
+    .sort((a, b) => a.photo.order - b.photo.order)
+    .map(({ photo, file }) => ({
+      id: photo.id,
+      file,
+      imageUrl: URL.createObjectURL(file),
+      faces: photo.faces.map((face) => ({
+        ...face,
+        descriptor: toFloat32Array(face.descriptor),
+      })),
+      status: restorePhotoStatus(photo, storedProfiles?.settings),
+      error: photo.error,
+      hash: photo.hash,
+      duplicateOf: photo.duplicateOf,
+    }));
+
+  const people: PersonProfile[] = (storedProfiles?.people ?? []).map(
+    (person) => ({
+      id: person.id,
+      name: person.name,
+      references: person.references.map((reference) => ({
+        ...reference,
+        imageUrl: URL.createObjectURL(reference.file),
+        descriptor: reference.descriptor
+          ? toFloat32Array(reference.descriptor)
+          : undefined,
+        faces: reference.faces?.map((face) => ({
+          ...face,
+          descriptor: toFloat32Array(face.descriptor),
+        })),
+      })),
+      rejectedFaces: person.rejectedFaces?.map((rejected) => ({
+        ...rejected,
+        descriptor: toFloat32Array(rejected.descriptor),
+      })),
+    })
+  );
+
+  return {
+    photos,
+    people,
+    settings: storedProfiles?.settings ?? null,
+    runs: runs.sort((a, b) => b.createdAt - a.createdAt),
+  };
+}
+
+/**
+ * 프로젝트와 그에 속한 모든 데이터 삭제
+ *
+ * @param projectId - 프로젝트 id
+ */
+export async function deleteProject(projectId: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(
+    [PROJECTS_STORE, PHOTOS_STORE, PHOTO_FILES_STORE, PROFILES_STORE, RUNS_STORE],
+    "readwrite"
+  );
+
+  const [photoKeys, fileKeys, runKeys] = await Promise.all([
+    getKeysByProject(tx, PHOTOS_STORE, projectId),
+    getKeysByProject(tx, PHOTO_FILES_STORE, projectId),
+    getKeysByProject(tx, RUNS_STORE, projectId),
+  ]);
+
+  photoKeys.forEach((key) => tx.objectStore(PHOTOS_STORE).delete(key));
+  fileKeys.forEach((key) => tx.objectStore(PHOTO_FILES_STORE).delete(key));
+  runKeys.forEach((key) => tx.objectStore(RUNS_STORE).delete(key));
+  tx.objectStore(PROFILES_STORE).delete(projectId);
+  tx.objectStore(PROJECTS_STORE).delete(projectId);
+
+  await transactionDone(tx);
+}
+
+/**
+ * 프로젝트의 매칭 실행 기록만 삭제
+ *
+ * @param projectId - 프로젝트 id
+ */
+export async function clearMatchRuns(projectId: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(RUNS_STORE, "readwrite");
+  const keys = await getKeysByProject(tx, RUNS_STORE, projectId);
+  keys.forEach((key) => tx.objectStore(RUNS_STORE).delete(key));
+  await transactionDone(tx);
+}
+
+/**
+ * 캐시된 검출 결과 조회
+ *
+ * @param hash - 파일 내용 SHA-256 해시
+ * @param fingerprint - 검출 설정 지문 (getDetectionFingerprint)
+ * @returns Promise<DetectedFace[] | null> - 캐시가 없으면 null
+ */
+export async function getCachedDetection(
+  hash: string,
+  fingerprint: string
+): Promise<DetectedFace[] | null> {
+  const db = await openDatabase();
+  const tx = db.transaction(DETECTIONS_STORE, "readonly");
+  const record = await requestToPromise<StoredDetection | undefined>(
+    tx.objectStore(DETECTIONS_STORE).get(`${hash}|${fingerprint}`)
+  );
+
+  if (!record) {
+    return null;
+  }
+
+  return record.faces.map((face) => ({
+    ...face,
+    descriptor: toFloat32Array(face.descriptor),
+  }));
+}
+
+/**
+ * 검출 결과 캐시 저장
+ *
+ * @param hash - 파일 내용 SHA-256 해시
+ * @param fingerprint - 검출 설정 지문 (getDetectionFingerprint)
+ * @param faces - 검출된 얼굴들
+ */
+export async function saveCachedDetection(
+  hash: string,
+  fingerprint: string,
+  faces: DetectedFace[]
+): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(DETECTIONS_STORE, "readwrite");
+  const record: StoredDetection = {
+    key: `${hash}|${fingerprint}`,
+    hash,
+    fingerprint,
+    faces,
+    createdAt: Date.now(),
+  };
+  tx.objectStore(DETECTIONS_STORE).put(record);
+  await transactionDone(tx);
+}
+
+/**
+ * 저장된 모든 데이터 삭제 (검출 캐시 포함)
+ */
+export async function purgeAll(): Promise<void> {
+  const db = await openDatabase();
+  const stores = [
+    PROJECTS_STORE,
+    PHOTOS_STORE,
+    PHOTO_FILES_STORE,
+    PROFILES_STORE,
+    RUNS_STORE,
+    DETECTIONS_STORE,
+  ];
+  const tx = db.transaction(stores, "readwrite");
+  stores.forEach((name) => tx.objectStore(name).clear());
+  await transactionDone(tx);
+}
+
+/**
+ * 브라우저 저장 공간 사용량 조회
+ *
+ * @returns Promise<{ usage: number; quota: number } | null> - 바이트 단위 (지원하지 않으면 null)
+ */
+export async function getStorageEstimate(): Promise<{
+  usage: number;
+  quota: number;
+} | null> {
+  if (typeof navigator === "undefined" || !navigator.storage?.estimate) {
+    return null;
+  }
+
+  const estimate = await navigator.storage.estimate();
+  return { usage: estimate.usage ?? 0, quota: estimate.quota ?? 0 };
+}
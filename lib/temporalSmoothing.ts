@@ -0,0 +1,229 @@
+/**
+ * 실시간 추적의 표정, 나이, 성별 시간 평활화
+ *
+ * 웹캠 프레임마다 나이와 표정을 새로 추정하면 값이 계속 튀기 때문에,
+ * 추적 중인 얼굴(track)마다 최근 프레임의 추정값을 모아서 합친다.
+ * - 나이: 지수 이동 평균(EMA) 또는 최근 프레임의 중앙값
+ * - 표정 / 성별: 최근 프레임의 확률 평균 + hysteresis (다른 값이 충분히 앞설 때만 표시를 바꿈)
+ * - 최근 프레임의 흩어진 정도로 95% 신뢰구간을 계산해서 하나의 값 대신 범위로 표시
+ */
+
+import { Expression, FaceExpressions, Gender } from "./types";
+
+/**
+ * 나이 필터
+ * - ema: 지수 이동 평균 (새 프레임에 alpha만큼 비중)
+ * - median: 최근 window 프레임의 중앙값 (튀는 값에 강함)
+ */
+export type AgeFilter = "ema" | "median";
+
+/**
+ * 평활화 설정
+ * - ageFilter: 나이 필터
+ * - window: 평균/중앙값/신뢰구간에 사용할 최근 프레임 수
+ * - alpha: EMA에서 새 프레임의 비중 (0~1)
+ * - hysteresis: 표정/성별을 바꾸려면 새 값의 평균 확률이 현재 값보다 이만큼 높아야 함
+ */
+export interface SmoothingOptions {
+  ageFilter: AgeFilter;
+  window: number;
+  alpha: number;
+  hysteresis: number;
+}
+
+export const DEFAULT_SMOOTHING_OPTIONS: SmoothingOptions = {
+  ageFilter: "median",
+  window: 15,
+  alpha: 0.2,
+  hysteresis: 0.15,
+};
+
+/**
+ * 신뢰구간
+ */
+export interface ConfidenceInterval {
+  low: number;
+  high: number;
+}
+
+/**
+ * 한 프레임의 추정값 (모델을 켜지 않은 항목은 없음)
+ */
+export interface AttributeSample {
+  expressions?: FaceExpressions;
+  age?: number;
+  gender?: Gender;
+  genderProbability?: number;
+}
+
+/**
+ * 여러 프레임에 걸쳐 합친 추정값
+ * - *Samples: 최근 window 프레임의 추정값 (오래된 것부터)
+ * - expression / gender: hysteresis를 적용해 표시할 값
+ * - expressionProbability / genderProbability: 표시하는 값의 평균 확률
+ * - *Interval: 95% 신뢰구간 (2프레임 이상 모였을 때)
+ */
+export interface SmoothedAttributes {
+  ageSamples: number[];
+  age?: number;
+  ageInterval?: ConfidenceInterval;
+  expressionSamples: FaceExpressions[];
+  expression?: Expression;
+  expressionProbability?: number;
+  expressionInterval?: ConfidenceInterval;
+  maleSamples: number[];
+  gender?: Gender;
+  genderProbability?: number;
+  genderInterval?: ConfidenceInterval;
+}
+
+// 95% 신뢰구간의 z 값
+const Z_95 = 1.96;
+
+const EMPTY_ATTRIBUTES: SmoothedAttributes = {
+  ageSamples: [],
+  expressionSamples: [],
+  maleSamples: [],
+};
+
+const mean = (values: number[]) =>
+  values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+};
+
+/**
+ * center를 중심으로 한 95% 신뢰구간 (표준오차 기준, min~max로 자름)
+ * 표본이 2개 미만이면 흩어진 정도를 알 수 없으므로 undefined
+ */
+function getConfidenceInterval(
+  samples: number[],
+  center: number,
+  min: number,
+  max: number
+): ConfidenceInterval | undefined {
+  if (samples.length < 2) return undefined;
+
+  const average = mean(samples);
+  const variance =
+    samples.reduce((sum, value) => sum + (value - average) ** 2, 0) /
+    (samples.length - 1);
+  const margin = (Z_95 * Math.sqrt(variance)) / Math.sqrt(samples.length);
+
+  return {
+    low: Math.max(min, center - margin),
+    high: Math.min(max, center + margin),
+  };
+}
+
+/**
+ * hysteresis를 적용해 표시할 값 선택
+ * 현재 값이 없거나 가장 높은 값이 현재 값보다 hysteresis 이상 앞설 때만 바꿈
+ */
+function pickWithHysteresis<T extends string>(
+  probabilities: Record<T, number>,
+  current: T | undefined,
+  hysteresis: number
+): T {
+  const labels = Object.keys(probabilities) as T[];
+  const top = labels.reduce((a, b) =>
+    probabilities[b] > probabilities[a] ? b : a
+  );
+
+  return current !== undefined &&
+    probabilities[top] - probabilities[current] <= hysteresis
+    ? current
+    : top;
+}
+
+/**
+ * 한 얼굴의 이번 프레임 추정값을 이전 추정값에 합침
+ *
+ * @param previous - 같은 얼굴의 이전 추정값 (처음 보는 얼굴이면 undefined)
+ * @param sample - 이번 프레임의 추정값
+ * @param options - 평활화 설정
+ * @returns SmoothedAttributes - 합친 추정값
+ */
+export function updateAttributes(
+  previous: SmoothedAttributes | undefined,
+  sample: AttributeSample,
+  options: SmoothingOptions = DEFAULT_SMOOTHING_OPTIONS
+): SmoothedAttributes {
+  const prior = previous ?? EMPTY_ATTRIBUTES;
+  const next: SmoothedAttributes = { ...prior };
+  const keep = <T>(samples: T[], value: T) =>
+    [...samples, value].slice(-options.window);
+
+  // 나이: EMA 또는 중앙값
+  if (sample.age !== undefined) {
+    next.ageSamples = keep(prior.ageSamples, sample.age);
+    next.age =
+      options.ageFilter === "median" || prior.age === undefined
+        ? median(next.ageSamples)
+        : prior.age + options.alpha * (sample.age - prior.age);
+    next.ageInterval = getConfidenceInterval(
+      next.ageSamples,
+      next.age,
+      0,
+      Infinity
+    );
+  }
+
+  // 표정: 최근 프레임의 확률 평균 + hysteresis
+  if (sample.expressions) {
+    next.expressionSamples = keep(prior.expressionSamples, sample.expressions);
+    const averaged = { ...sample.expressions };
+    for (const key of Object.keys(averaged) as Expression[]) {
+      averaged[key] = mean(next.expressionSamples.map((frame) => frame[key]));
+    }
+
+    const expression = pickWithHysteresis(
+      averaged,
+      prior.expression,
+      options.hysteresis
+    );
+    next.expression = expression;
+    next.expressionProbability = averaged[expression];
+    next.expressionInterval = getConfidenceInterval(
+      next.expressionSamples.map((frame) => frame[expression]),
+      averaged[expression],
+      0,
+      1
+    );
+  }
+
+  // 성별: 남성일 확률의 평균 + hysteresis
+  if (sample.gender && sample.genderProbability !== undefined) {
+    next.maleSamples = keep(
+      prior.maleSamples,
+      sample.gender === "male"
+        ? sample.genderProbability
+        : 1 - sample.genderProbability
+    );
+    const male = mean(next.maleSamples);
+
+    const gender = pickWithHysteresis<Gender>(
+      { male, female: 1 - male },
+      prior.gender,
+      options.hysteresis
+    );
+    const probabilities = next.maleSamples.map((probability) =>
+      gender === "male" ? probability : 1 - probability
+    );
+    next.gender = gender;
+    next.genderProbability = mean(probabilities);
+    next.genderInterval = getConfidenceInterval(
+      probabilities,
+      next.genderProbability,
+      0,
+      1
+    );
+  }
+
+  return next;
+}
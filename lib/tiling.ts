@@ -0,0 +1,86 @@
+/**
+ * 고해상도 분할(타일) 검출 유틸리티
+ *
+ * 큰 사진을 통째로 축소하면 뒷줄의 작은 얼굴은 몇 픽셀밖에 남지 않아 검출되지 않는다.
+ * 원본 해상도에서 겹치는 타일로 나눠 각각 검출한 뒤,
+ * 타일 경계에서 두 번 검출된 얼굴은 IoU 기반 NMS로 하나만 남긴다.
+ */
+
+import { getIoU } from "./coordinates";
+import { BoundingBox, ImageSize, TilingOptions } from "./types";
+
+/**
+ * 기본 분할 검출 설정
+ */
+export const DEFAULT_TILING: TilingOptions = {
+  tileSize: 800,
+  overlap: 0.25,
+  maxTiles: 16,
+  iouThreshold: 0.3,
+};
+
+/**
+ * 이미지를 겹치는 타일들로 분할
+ * 타일 수가 maxTiles를 넘으면 타일 크기를 키워서 다시 계산
+ *
+ * @param sourceSize - 원본 이미지 크기
+ * @param options - 분할 설정
+ * @returns BoundingBox[] - 타일 영역들 (원본 픽셀 좌표)
+ */
+export function getTiles(
+  sourceSize: ImageSize,
+  options: TilingOptions = DEFAULT_TILING
+): BoundingBox[] {
+  let tileSize = options.tileSize;
+
+  for (;;) {
+    const tileWidth = Math.min(tileSize, sourceSize.width);
+    const tileHeight = Math.min(tileSize, sourceSize.height);
+    const step = tileSize * (1 - options.overlap);
+    const columns = Math.ceil((sourceSize.width - tileWidth) / step) + 1;
+    const rows = Math.ceil((sourceSize.height - tileHeight) / step) + 1;
+
+    if (columns * rows <= options.maxTiles) {
+      const tiles: BoundingBox[] = [];
+
+      for (let row = 0; row < rows; row++) {
+        for (let column = 0; column < columns; column++) {
+          // 마지막 타일은 이미지 끝에 맞춤
+          tiles.push({
+            x: Math.min(column * step, sourceSize.width - tileWidth),
+            y: Math.min(row * step, sourceSize.height - tileHeight),
+            width: tileWidth,
+            height: tileHeight,
+          });
+        }
+      }
+
+      return tiles;
+    }
+
+    tileSize *= 1.25;
+  }
+}
+
+/**
+ * 겹치는 box들 중 신뢰도가 가장 높은 것만 남김 (Non-Maximum Suppression)
+ *
+ * @param items - box와 신뢰도를 가진 항목들
+ * @param iouThreshold - 이 값보다 많이 겹치면 같은 얼굴로 판단
+ * @returns T[] - 중복이 제거된 항목들 (신뢰도 높은 순)
+ */
+export function nonMaxSuppression<T extends { box: BoundingBox; score?: number }>(
+  items: T[],
+  iouThreshold: number = DEFAULT_TILING.iouThreshold
+): T[] {
+  const sorted = [...items].sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+  const kept: T[] = [];
+
+  for (const item of sorted) {
+    if (kept.every((other) => getIoU(item.box, other.box) <= iouThreshold)) {
+      kept.push(item);
+    }
+  }
+
+  return kept;
+}
@@ -22,53 +22,339 @@ export interface FaceExpressions {
  */
 export type Gender = 'male' | 'female';
 
+/**
+ * 사각형 영역 (픽셀 좌표)
+ */
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * 이미지 크기 (픽셀)
+ */
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * 얼굴 검출기 종류
+ * - tiny: TinyFaceDetector (빠름)
+ * - ssd: SSD MobileNet v1 (느리지만 작은 얼굴도 잘 찾음)
+ */
+export type DetectorKind = 'tiny' | 'ssd';
+
+/**
+ * 검출기 설정
+ * - tiny: inputSize(32의 배수, 클수록 작은 얼굴까지 검출)와 scoreThreshold
+ * - ssd: minConfidence (이 값 이상인 얼굴만 사용)
+ */
+export type DetectorOptions =
+  | { kind: 'tiny'; inputSize: number; scoreThreshold: number }
+  | { kind: 'ssd'; minConfidence: number };
+
+/**
+ * 고해상도 분할(타일) 검출 설정
+ * - tileSize: 타일 한 변의 기본 크기 (원본 픽셀)
+ * - overlap: 이웃한 타일끼리 겹치는 비율 (경계에 걸친 얼굴도 한 타일에 온전히 들어오도록)
+ * - maxTiles: 이미지 1장당 최대 타일 수 (넘으면 타일을 키워서 개수를 맞춤)
+ * - iouThreshold: 타일 경계에서 중복 검출된 얼굴을 합칠 IoU 기준
+ */
+export interface TilingOptions {
+  tileSize: number;
+  overlap: number;
+  maxTiles: number;
+  iouThreshold: number;
+}
+
+/**
+ * 얼굴 검출 설정
+ * - detector: 검출기 설정
+ * - tiling: 분할 검출 설정 (null이면 이미지 전체를 축소해서 한 번만 검출)
+ * - withExpressions: 표정 인식 포함 여부 (끄면 검출이 빨라짐)
+ * - withAgeGender: 나이/성별 추정 포함 여부 (끄면 검출이 빨라짐)
+ * - alignFaces: 기울어진 얼굴을 눈 위치 기준으로 정렬한 뒤 descriptor 추출
+ *   (기준 사진과 대회 사진은 같은 설정으로 추출해야 비교할 수 있음)
+ */
+export interface DetectionConfig {
+  detector: DetectorOptions;
+  tiling: TilingOptions | null;
+  withExpressions: boolean;
+  withAgeGender: boolean;
+  alignFaces: boolean;
+}
+
+/**
+ * 얼굴 품질 정보 (흐리거나 작거나 옆을 보는 얼굴을 매칭에서 거르는 데 사용)
+ * - detectionScore: 검출 신뢰도 (0~1)
+ * - faceSize: box의 짧은 변 길이 (원본 픽셀)
+ * - sharpness: 얼굴 크롭의 Laplacian 분산 (클수록 선명함)
+ * - brightness: 얼굴 크롭의 평균 밝기 (0~255)
+ * - yaw / pitch: 68개 랜드마크로 추정한 좌우 / 상하 회전 각도 (도, 정면이 0)
+ * - eyeOpenness: 두 눈의 평균 eye aspect ratio (0.2 미만이면 감은 눈, 종합 품질에는 미반영)
+ * - score: 위 항목들을 합친 종합 품질 (0~1, 높을수록 매칭에 적합)
+ */
+export interface FaceQuality {
+  detectionScore: number;
+  faceSize: number;
+  sharpness: number;
+  brightness: number;
+  yaw: number;
+  pitch: number;
+  eyeOpenness: number;
+  score: number;
+}
+
+/**
+ * 얼굴 정렬 정보 (68개 랜드마크의 두 눈 위치로 계산, 원본 이미지 픽셀 기준)
+ * - eyeCenter: 두 눈 중심의 가운데
+ * - eyeDistance: 두 눈 중심 사이 거리
+ * - roll: 눈을 이은 선의 기울기 (도, 수평이 0)
+ */
+export interface FaceAlignment {
+  eyeCenter: { x: number; y: number };
+  eyeDistance: number;
+  roll: number;
+}
+
 /**
  * 검출된 얼굴 정보
  * - descriptor: 얼굴의 128차원 벡터 표현 (얼굴 임베딩)
- * - box: 얼굴이 위치한 bounding box 좌표
+ * - box: 얼굴이 위치한 bounding box 좌표 (원본 이미지 픽셀 기준)
+ * - sourceSize: 원본 이미지 크기
+ * - detectionScale: 검출에 사용한 이미지 크기 / 원본 크기 비율 (1이면 원본 그대로 검출)
  * - expressions: 얼굴 표정 확률 정보 (선택적)
  * - age: 추정 나이 (선택적)
  * - gender: 추정 성별 (선택적)
  * - genderProbability: 성별 추정 확률 (0~1, 선택적)
+ * - detector: 이 얼굴을 찾은 검출기 (검출기 기록 이전 결과에는 없음)
+ * - score: 검출 신뢰도 (0~1, 분할 검출 시 중복 제거에 사용)
+ * - quality: 얼굴 품질 (품질 측정 이전 결과에는 없음)
+ * - alignment: 얼굴 정렬 정보 (정렬 기록 이전 결과에는 없음)
+ * - manual: 검출기가 놓쳐서 사용자가 직접 영역을 지정해 추가한 얼굴
  */
 export interface DetectedFace {
   descriptor: Float32Array;
-  box: {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  };
+  box: BoundingBox;
+  sourceSize: ImageSize;
+  detectionScale: number;
   expressions?: FaceExpressions;
   age?: number;
   gender?: Gender;
   genderProbability?: number;
+  detector?: DetectorKind;
+  score?: number;
+  quality?: FaceQuality;
+  alignment?: FaceAlignment;
+  manual?: boolean;
 }
 
+/**
+ * 사진별 얼굴 검출 상태
+ * - pending: 아직 검출하지 않음 (중지된 사진 포함)
+ * - processing: 검출 중
+ * - done: 검출 완료 (얼굴이 0개여도 완료)
+ * - failed: 검출 실패 (error에 이유 기록)
+ */
+export type PhotoStatus = 'pending' | 'processing' | 'done' | 'failed';
+
 /**
  * 마라톤 대회 사진 정보
  * - id: 고유 식별자 (UUID)
  * - file: 원본 파일 객체
  * - imageUrl: 브라우저에서 표시하기 위한 Object URL
  * - faces: 이 사진에서 검출된 얼굴들의 배열
+ * - status: 얼굴 검출 상태
+ * - error: 검출에 실패한 이유 (failed일 때만)
+ * - hash: 파일 내용의 SHA-256 해시 (중복 확인과 검출 캐시에 사용, 계산 전이면 undefined)
+ * - duplicateOf: 같은 파일이 이미 올라와 있으면 그 사진의 id (검출하지 않음)
  */
 export interface MarathonPhoto {
   id: string;
   file: File;
   imageUrl: string;
   faces: DetectedFace[];
+  status: PhotoStatus;
+  error?: string;
+  hash?: string;
+  duplicateOf?: string;
+}
+
+/**
+ * 기준 사진 정보 (인물 프로필에 등록된 사진 1장)
+ * - id: 고유 식별자 (UUID)
+ * - file: 원본 파일 객체
+ * - imageUrl: 브라우저에서 표시하기 위한 Object URL
+ * - source: 업로드한 파일, 웹캠 캡처, 자동 분류 묶음에서 가져온 얼굴,
+ *   매칭 결과에서 "맞아요"로 확인한 얼굴 중 하나
+ * - descriptor: 이 사진에서 추출한 얼굴 descriptor (추출 전이면 undefined)
+ * - faces: 기준 사진 확인 시 검출된 얼굴들 (큰 얼굴 순, 확인 전이거나 자동 분류에서 가져왔으면 undefined)
+ * - selectedFaceIndex: faces 중 이 사람의 얼굴 (descriptor는 이 얼굴의 descriptor)
+ * - confirmedFace: 매칭 결과에서 확인한 얼굴이면 그 얼굴 (source가 confirmed일 때만)
+ * - sourceFace: 대회 사진에서 잘라 만든 기준 사진(cluster, confirmed)이면 원래 사진과 얼굴 영역
+ *   (얼굴 정렬 설정이 바뀌면 잘라 낸 사진 대신 원래 사진의 이 영역에서 descriptor를 다시 추출)
+ */
+export interface ReferencePhoto {
+  id: string;
+  file: File;
+  imageUrl: string;
+  source: 'upload' | 'webcam' | 'cluster' | 'confirmed';
+  descriptor?: Float32Array;
+  faces?: DetectedFace[];
+  selectedFaceIndex?: number;
+  confirmedFace?: FaceRef;
+  sourceFace?: { photoId: string; box: BoundingBox };
+}
+
+/**
+ * 매칭 결과에서 "이 사람이 아니에요"로 확인한 얼굴
+ * - descriptor: 그 얼굴의 descriptor (매칭할 때 negative로 사용)
+ * - box: 그 얼굴의 영역 (다시 검출한 뒤 같은 얼굴을 찾을 때 사용, 영역 기록 이전 결과에는 없음)
+ */
+export interface RejectedFace extends FaceRef {
+  descriptor: Float32Array;
+  box?: BoundingBox;
+}
+
+/**
+ * 인물 프로필
+ * 한 사람의 여러 기준 사진을 묶어서 매칭에 함께 사용
+ * - rejectedFaces: 이 사람이 아니라고 확인한 얼굴들 (보정 이전 프로필에는 없음)
+ */
+export interface PersonProfile {
+  id: string;
+  name: string;
+  references: ReferencePhoto[];
+  rejectedFaces?: RejectedFace[];
+}
+
+/**
+ * 매칭에 사용할 기준 descriptor (기준 사진 id와 함께 보관)
+ */
+export interface ReferenceDescriptor {
+  id: string;
+  descriptor: Float32Array;
 }
 
+/**
+ * 인물별 기준 descriptor 묶음 (여러 사람 동시 검색용 labeled gallery)
+ * - negatives: 이 사람이 아니라고 확인한 얼굴들의 descriptor
+ */
+export interface LabeledReferences {
+  personId: string;
+  references: ReferenceDescriptor[];
+  negatives?: Float32Array[];
+}
+
+/**
+ * 여러 기준 descriptor로 거리를 계산하는 방식
+ * - mean: 기준 descriptor들의 평균 벡터와의 거리
+ * - min: 가장 가까운 기준 descriptor와의 거리 (best-of-N)
+ * - knn: 가장 가까운 k개 거리의 중앙값 (k개 중 과반이 threshold 이하일 때 매칭)
+ */
+export type MatchStrategy = 'mean' | 'min' | 'knn';
+
 /**
  * 얼굴 매칭 결과
  * - photo: 매칭된 사진 정보
  * - distance: 내 얼굴과의 유클리드 거리 (낮을수록 유사함)
  * - score: 유사도 점수 (0~1, 높을수록 유사함)
+ * - matchedFaceIndex: photo.faces 중 매칭된(가장 가까운) 얼굴의 인덱스
+ * - faceDistances: photo.faces 각 얼굴과의 거리 (photo.faces와 같은 순서)
+ * - matchedReferenceId: 매칭된 얼굴과 가장 가까운 기준 사진의 id
  */
 export interface MatchResult {
   photo: MarathonPhoto;
   distance: number;
   score: number; // 0~1 사이 값
+  matchedFaceIndex: number;
+  faceDistances: number[];
+  matchedReferenceId: string;
+}
+
+/**
+ * 여러 사람 동시 검색 결과
+ * - byPerson: 인물 id별 매칭 결과 (각 결과의 matchedFaceIndex는 그 사람에게 배정된 얼굴)
+ * - unknown: 아무에게도 배정되지 않은 얼굴들 (얼굴 1개당 결과 1개,
+ *   distance/matchedReferenceId는 threshold를 넘었더라도 가장 가까운 기준 사진 기준)
+ */
+export interface GalleryMatchResult {
+  byPerson: Record<string, MatchResult[]>;
+  unknown: MatchResult[];
+}
+
+/**
+ * 사진 속 특정 얼굴을 가리키는 참조
+ * - photoId: MarathonPhoto.id
+ * - faceIndex: photo.faces 내 인덱스
+ */
+export interface FaceRef {
+  photoId: string;
+  faceIndex: number;
+}
+
+/**
+ * 자동 분류된 얼굴 묶음 (같은 사람으로 추정되는 얼굴들)
+ * - id: 고유 식별자 (UUID)
+ * - name: 사용자가 붙인 이름 (없으면 빈 문자열)
+ * - faces: 묶음에 속한 얼굴들
+ * - representative: 대표 얼굴 (묶음 안에서 다른 얼굴들과의 거리 합이 가장 작은 얼굴)
+ */
+export interface FaceCluster {
+  id: string;
+  name: string;
+  faces: FaceRef[];
+  representative: FaceRef;
+}
+
+/**
+ * 프로젝트 (대회/이벤트 단위로 사진, 인물, 분석 기록을 묶어서 저장)
+ */
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * 프로젝트별 매칭 설정
+ * - isDetected: 저장된 사진들의 얼굴 검출을 마쳤는지 여부
+ * - detector: 얼굴 검출기 설정 (저장 이전 프로젝트에는 없음)
+ * - tiledDetection: 고해상도 분할 검출 사용 여부
+ * - withExpressions / withAgeGender: 표정, 나이/성별 분석 사용 여부
+ * - minQuality: 매칭에 사용할 최소 얼굴 품질 (0이면 모든 얼굴 사용)
+ * - alignFaces: 얼굴 정렬 후 descriptor 추출 여부
+ */
+export interface ProjectSettings {
+  activePersonId: string;
+  matchStrategy: MatchStrategy;
+  threshold: number;
+  isDetected: boolean;
+  detector?: DetectorOptions;
+  tiledDetection?: boolean;
+  withExpressions?: boolean;
+  withAgeGender?: boolean;
+  minQuality?: number;
+  alignFaces?: boolean;
+}
+
+/**
+ * 지난 매칭 실행 기록
+ * - matches: 인물 id별로 매칭된 얼굴과 거리
+ * - unknownCount: 아무에게도 배정되지 않은 얼굴 수
+ */
+export interface MatchRun {
+  id: string;
+  projectId: string;
+  createdAt: number;
+  threshold: number;
+  strategy: MatchStrategy;
+  matches: Record<string, Array<FaceRef & { distance: number }>>;
+  unknownCount: number;
 }
 
 /**
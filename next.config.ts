@@ -1,7 +1,29 @@
 import type { NextConfig } from "next";
+import { createHash } from "crypto";
+import { readdirSync, readFileSync } from "fs";
+import path from "path";
+
+/**
+ * public/models 파일 내용으로 만든 모델 버전
+ * 가중치를 바꾸면 값이 달라지므로 service worker 모델 캐시와 검출 결과 캐시를 새로 만든다.
+ */
+function getModelsHash(): string {
+  const modelsDir = path.join(process.cwd(), "public", "models");
+  const hash = createHash("sha256");
+  for (const name of readdirSync(modelsDir).sort()) {
+    hash.update(name);
+    hash.update(readFileSync(path.join(modelsDir, name)));
+  }
+  return hash.digest("hex").slice(0, 12);
+}
+
+// 빌드마다 바뀌는 id (service worker 앱 화면 캐시 이름에 사용)와 모델 버전
+// 빌드 worker 프로세스도 같은 값을 쓰도록 환경 변수에 한 번만 저장
+process.env.NEXT_PUBLIC_BUILD_ID ??= Date.now().toString(36);
+process.env.NEXT_PUBLIC_MODELS_HASH ??= getModelsHash();
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  generateBuildId: async () => process.env.NEXT_PUBLIC_BUILD_ID!,
 };
 
 export default nextConfig;
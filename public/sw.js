@@ -0,0 +1,243 @@
+/**
+ * 오프라인 사용을 위한 service worker
+ *
+ * 1. 모델 캐시: public/models의 manifest와 shard 파일을 설치 시점에 미리 저장
+ *    - 캐시 이름에 모델 버전을 포함 (등록 URL의 ?models= 값, public/models 파일 내용의 해시 포함)
+ *    - 이미 캐시된 파일은 새 빌드를 설치할 때 다시 받지 않음
+ *    - 모델 버전이 바뀌면 새 캐시를 만들고 이전 캐시는 삭제
+ * 2. 앱 화면 캐시: 첫 페이지("/")와 /_next/static 파일들을 저장
+ *    - 캐시 이름에 빌드 id를 포함 (등록 URL의 ?build= 값)
+ *    - 설치 시점에 첫 페이지와 페이지가 참조하는 /_next/static 파일을 미리 저장하고,
+ *      그 뒤 페이지가 알려 준 파일(동적으로 불러온 chunk 등)도 저장
+ *    - 새 빌드가 활성화되면 이전 빌드의 캐시는 삭제
+ *    - /_next/static 파일은 이름에 해시가 있으므로 캐시 우선
+ *    - 페이지 요청은 네트워크 우선, 실패하면 캐시된 첫 페이지
+ * 3. 상태 조회: 페이지가 get-status 메시지를 보내면 캐시된 모델과 앱 화면 파일 수를 응답
+ */
+
+const CACHE_PREFIX = "detectvision";
+const searchParams = new URL(self.location.href).searchParams;
+const MODELS_VERSION = searchParams.get("models") || "dev";
+const SHELL_VERSION = searchParams.get("build") || "dev";
+
+const MODELS_CACHE = `${CACHE_PREFIX}-models-${MODELS_VERSION}`;
+const SHELL_CACHE = `${CACHE_PREFIX}-shell-${SHELL_VERSION}`;
+
+// 반드시 필요한 모델 (하나라도 없으면 오프라인에서 매칭 불가)
+const REQUIRED_MODEL_MANIFESTS = [
+  "tiny_face_detector_model",
+  "ssd_mobilenetv1_model",
+  "face_landmark_68_model",
+  "face_recognition_model",
+  "face_expression_model",
+  "age_gender_model",
+];
+
+const manifestUrl = (name) => `/models/${name}-weights_manifest.json`;
+
+/**
+ * manifest와 manifest에 적힌 shard 파일 URL 목록
+ */
+async function getModelFileUrls(name, cache) {
+  const url = manifestUrl(name);
+  const response = (cache && (await cache.match(url))) || (await fetch(url));
+  if (!response.ok) {
+    throw new Error(`${url}: ${response.status}`);
+  }
+
+  const manifest = await response.json();
+  const paths = manifest.flatMap((group) => group.paths);
+  return [url, ...paths.map((path) => `/models/${path}`)];
+}
+
+/**
+ * 모델 1개(manifest + shard)를 캐시에 저장
+ * 모델 버전이 같으면 새 빌드를 설치해도 같은 캐시를 쓰므로, 이미 있는 파일은 다시 받지 않음
+ */
+async function precacheModel(cache, name) {
+  const urls = await getModelFileUrls(name);
+  const cached = await Promise.all(urls.map((url) => cache.match(url)));
+  await cache.addAll(urls.filter((_, index) => !cached[index]));
+}
+
+/**
+ * 첫 페이지 HTML이 참조하는 /_next/static 파일 URL 목록
+ */
+async function getShellFileUrls(pageResponse) {
+  const html = await pageResponse.text();
+  const matches = html.match(/\/_next\/static\/[^"'\s\\)]+/g) ?? [];
+  return [...new Set(matches)];
+}
+
+/**
+ * 첫 페이지와 첫 페이지가 참조하는 /_next/static 파일을 캐시에 저장
+ */
+async function precacheShell(cache) {
+  const response = await fetch("/");
+  if (!response.ok) {
+    throw new Error(`/: ${response.status}`);
+  }
+
+  await cache.put("/", response.clone());
+  await cache.addAll(await getShellFileUrls(response));
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    (async () => {
+      const modelsCache = await caches.open(MODELS_CACHE);
+      await Promise.all(
+        REQUIRED_MODEL_MANIFESTS.map((name) => precacheModel(modelsCache, name))
+      );
+
+      await precacheShell(await caches.open(SHELL_CACHE));
+
+      await self.skipWaiting();
+    })()
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      // 모델 버전이나 빌드가 다른 이전 캐시 삭제 (이전 빌드의 /_next/static 파일 포함)
+      const keys = await caches.keys();
+      await Promise.all(
+        keys
+          .filter(
+            (key) =>
+              key.startsWith(`${CACHE_PREFIX}-`) &&
+              key !== MODELS_CACHE &&
+              key !== SHELL_CACHE
+          )
+          .map((key) => caches.delete(key))
+      );
+
+      await self.clients.claim();
+      await notifyClients();
+    })()
+  );
+});
+
+/**
+ * 캐시 우선, 없으면 네트워크에서 받아 저장
+ */
+async function cacheFirst(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) {
+    return cached;
+  }
+
+  const response = await fetch(request);
+  if (response.ok) {
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+/**
+ * 네트워크 우선, 실패하면 캐시된 첫 페이지
+ */
+async function networkFirstPage(request) {
+  const cache = await caches.open(SHELL_CACHE);
+
+  try {
+    const response = await fetch(request);
+    if (response.ok && new URL(request.url).pathname === "/") {
+      cache.put("/", response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match("/");
+    if (cached) {
+      return cached;
+    }
+    throw error;
+  }
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (url.pathname.startsWith("/models/")) {
+    event.respondWith(cacheFirst(request, MODELS_CACHE));
+  } else if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+  } else if (request.mode === "navigate") {
+    event.respondWith(networkFirstPage(request));
+  }
+});
+
+/**
+ * 오프라인 사용 가능 상태 계산
+ */
+async function getStatus() {
+  const modelsCache = await caches.open(MODELS_CACHE);
+  let modelsCached = 0;
+
+  for (const name of REQUIRED_MODEL_MANIFESTS) {
+    try {
+      const urls = await getModelFileUrls(name, modelsCache);
+      const matches = await Promise.all(urls.map((url) => modelsCache.match(url)));
+      if (matches.every(Boolean)) {
+        modelsCached++;
+      }
+    } catch {
+      // manifest를 읽을 수 없으면 캐시되지 않은 것으로 처리
+    }
+  }
+
+  // 캐시된 첫 페이지가 참조하는 /_next/static 파일이 모두 있어야 앱 화면 캐시 완료
+  const shellCache = await caches.open(SHELL_CACHE);
+  const page = await shellCache.match("/");
+  const shellUrls = page ? await getShellFileUrls(page) : [];
+  const shellMatches = await Promise.all(
+    shellUrls.map((url) => shellCache.match(url))
+  );
+
+  return {
+    modelsVersion: MODELS_VERSION,
+    shellVersion: SHELL_VERSION,
+    modelsCached,
+    modelsTotal: REQUIRED_MODEL_MANIFESTS.length,
+    shellCached: Boolean(page),
+    shellFilesCached: shellMatches.filter(Boolean).length,
+    shellFilesTotal: shellUrls.length,
+  };
+}
+
+async function notifyClients() {
+  const clients = await self.clients.matchAll();
+  clients.forEach((client) => client.postMessage({ type: "cache-updated" }));
+}
+
+self.addEventListener("message", (event) => {
+  const message = event.data;
+
+  if (message?.type === "get-status") {
+    event.waitUntil(
+      getStatus().then((status) => event.ports[0]?.postMessage(status))
+    );
+  } else if (message?.type === "cache-urls") {
+    // 페이지가 불러온 /_next/static 파일들을 앱 화면 캐시에 저장
+    event.waitUntil(
+      caches
+        .open(SHELL_CACHE)
+        .then((cache) =>
+          Promise.allSettled(
+            message.urls.map(async (url) => {
+              if (!(await cache.match(url))) {
+                await cache.add(url);
+              }
+            })
+          )
+        )
+        .then(notifyClients)
+    );
+  }
+});